@@ -7,6 +7,24 @@ export const config = {
   kopisApiKey: process.env.KOPIS_API_KEY || '',
   corsOrigin: process.env.CORS_ORIGIN || '*',
   nodeEnv: process.env.NODE_ENV || 'development',
+  // KOPIS 목록 페이지 조회 (동시 요청 수 / 요청당 최대 페이지 수)
+  kopisPageConcurrency: parseInt(process.env.KOPIS_PAGE_CONCURRENCY || '3', 10),
+  kopisMaxPages: parseInt(process.env.KOPIS_MAX_PAGES || '5', 10),
+  // 목록 결과에 상세 정보(관람료·러닝타임 등)를 채우는 시간 예산 ms
+  hydrationBudgetMs: parseInt(process.env.HYDRATION_BUDGET_MS || '4000', 10),
+  // KOPIS 응답 캐시 (memory: 프로세스 내 LRU, file: 디스크 저장)
+  cacheStore: process.env.CACHE_STORE === 'file' ? 'file' : 'memory',
+  cacheDir: process.env.CACHE_DIR || '.cache/kopis',
+  cacheMaxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '2000', 10),
+  // 스마트 검색 완화 단계 (단계 내 동시 조회 수 / 검색 1회 시간 예산 ms)
+  searchConcurrency: parseInt(process.env.SEARCH_CONCURRENCY || '4', 10),
+  searchBudgetMs: parseInt(process.env.SEARCH_BUDGET_MS || '8000', 10),
+  // 장르 유사도 그래프 JSON (비우면 기본 그래프)
+  genreSimilarityFile: process.env.GENRE_SIMILARITY_FILE || '',
+  // 출연진·제작진 색인 (저장 파일 / 백그라운드 수집 주기(분, 0이면 시작 시 1회) / 수집 기간(일))
+  personIndexFile: process.env.PERSON_INDEX_FILE || '.cache/person-index.json',
+  personCrawlIntervalMinutes: parseInt(process.env.PERSON_CRAWL_INTERVAL_MINUTES || '360', 10),
+  personCrawlDays: parseInt(process.env.PERSON_CRAWL_DAYS || '90', 10),
 };
 
 // Validate required configuration
@@ -0,0 +1,26 @@
+// 장르 유사도 그래프 기본값 (장르 코드 → 유사 장르 코드: 가중치 0~1)
+// - 방향 그래프: "뮤지컬 → 연극 0.8"과 "연극 → 뮤지컬 0.8"은 따로 지정
+// - GENRE_SIMILARITY_FILE로 같은 형식의 JSON을 지정하면 장르 단위로 덮어씀
+
+export type GenreSimilarityEdges = Record<string, Record<string, number>>;
+
+export const DEFAULT_GENRE_SIMILARITY: GenreSimilarityEdges = {
+  // 연극
+  AAAA: { GGGA: 0.8, EEEA: 0.5, BBBC: 0.3 },
+  // 뮤지컬
+  GGGA: { AAAA: 0.8, CCCD: 0.5, EEEA: 0.4 },
+  // 서양음악(클래식)
+  CCCA: { CCCC: 0.6, BBBC: 0.4 },
+  // 한국음악(국악)
+  CCCC: { CCCA: 0.6, BBBC: 0.5, EEEA: 0.3 },
+  // 대중음악
+  CCCD: { GGGA: 0.5, EEEA: 0.4, BBBE: 0.4 },
+  // 무용(서양/한국무용)
+  BBBC: { BBBE: 0.7, CCCC: 0.4, CCCA: 0.3 },
+  // 대중무용
+  BBBE: { BBBC: 0.7, CCCD: 0.4 },
+  // 복합
+  EEEA: { EEEB: 0.7, AAAA: 0.5, CCCD: 0.4 },
+  // 서커스/마술
+  EEEB: { EEEA: 0.7, BBBE: 0.3 },
+};
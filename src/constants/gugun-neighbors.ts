@@ -0,0 +1,301 @@
+import { GUGUN_CODES } from "./kopis-codes.js";
+
+type GugunCode = keyof typeof GUGUN_CODES;
+
+// 구/군 인접 관계 (경계를 맞댄 구/군, 한강·낙동강 등 강 경계 포함, 시/도 경계를 넘는 이웃 포함)
+// - 시/도 전체 코드(xx00)와 섬 지역(울릉군)은 이웃 없음
+// - 양방향으로 등록 (A → B이면 B → A)
+export const GUGUN_NEIGHBORS: Record<GugunCode, GugunCode[]> = {
+  // 서울특별시 (11xx)
+  "1111": ["1114", "1123", "1129", "1138", "1141"], // 서울 종로구
+  "1114": ["1111", "1117", "1120", "1123", "1141", "1144"], // 서울 중구
+  "1117": ["1114", "1120", "1144", "1156", "1159", "1165", "1168"], // 서울 용산구
+  "1120": ["1114", "1117", "1121", "1123", "1168"], // 서울 성동구
+  "1121": ["1120", "1123", "1126", "1168", "1171", "1174", "4131"], // 서울 광진구
+  "1123": ["1111", "1114", "1120", "1121", "1126", "1129"], // 서울 동대문구
+  "1126": ["1121", "1123", "1129", "1135", "4131"], // 서울 중랑구
+  "1129": ["1111", "1123", "1126", "1130", "1135"], // 서울 성북구
+  "1130": ["1129", "1132", "1135"], // 서울 강북구
+  "1132": ["1130", "1135", "4115", "4163"], // 서울 도봉구
+  "1135": ["1126", "1129", "1130", "1132", "4115", "4131", "4136"], // 서울 노원구
+  "1138": ["1111", "1141", "1144", "4128"], // 서울 은평구
+  "1141": ["1111", "1114", "1138", "1144"], // 서울 서대문구
+  "1144": ["1114", "1117", "1138", "1141", "1150", "1156", "4128"], // 서울 마포구
+  "1147": ["1150", "1153", "1156", "4119"], // 서울 양천구
+  "1150": ["1144", "1147", "2824", "4119", "4128", "4157"], // 서울 강서구
+  "1153": ["1147", "1154", "1156", "1162", "4119", "4121"], // 서울 구로구
+  "1154": ["1153", "1162", "4117", "4121"], // 서울 금천구
+  "1156": ["1117", "1144", "1147", "1153", "1159"], // 서울 영등포구
+  "1159": ["1117", "1156", "1162", "1165"], // 서울 동작구
+  "1162": ["1153", "1154", "1159", "1165", "4117", "4129"], // 서울 관악구
+  "1165": ["1117", "1159", "1162", "1168", "4113", "4129"], // 서울 서초구
+  "1168": ["1117", "1120", "1121", "1165", "1171", "4113"], // 서울 강남구
+  "1171": ["1121", "1168", "1174", "4113", "4145"], // 서울 송파구
+  "1174": ["1121", "1171", "4131", "4145"], // 서울 강동구
+
+  // 부산광역시 (26xx)
+  "2600": [], // 부산광역시
+  "2611": ["2614", "2617", "2620"], // 부산 중구
+  "2614": ["2611", "2617", "2623", "2638"], // 부산 서구
+  "2617": ["2611", "2614", "2623", "2629"], // 부산 동구
+  "2620": ["2611"], // 부산 영도구
+  "2623": ["2614", "2617", "2629", "2632", "2647", "2653"], // 부산 부산진구
+  "2626": ["2632", "2635", "2641", "2647"], // 부산 동래구
+  "2629": ["2617", "2623", "2647", "2650"], // 부산 남구
+  "2632": ["2623", "2626", "2641", "2644", "2653", "4825", "4833"], // 부산 북구
+  "2635": ["2626", "2641", "2650", "2671"], // 부산 해운대구
+  "2638": ["2614", "2644", "2653"], // 부산 사하구
+  "2641": ["2626", "2632", "2635", "2671", "4833"], // 부산 금정구
+  "2644": ["2632", "2638", "2653", "4812", "4825"], // 부산 강서구
+  "2647": ["2623", "2626", "2629", "2650"], // 부산 연제구
+  "2650": ["2629", "2635", "2647"], // 부산 수영구
+  "2653": ["2623", "2632", "2638", "2644"], // 부산 사상구
+  "2671": ["2635", "2641", "3171", "4833"], // 부산 기장군
+
+  // 대구광역시 (27xx)
+  "2700": [], // 대구광역시
+  "2711": ["2714", "2717", "2720", "2723", "2726"], // 대구 중구
+  "2714": ["2711", "2723", "2726", "4723", "4729", "4772"], // 대구 동구
+  "2717": ["2711", "2720", "2723", "2729"], // 대구 서구
+  "2720": ["2711", "2717", "2726", "2729"], // 대구 남구
+  "2723": ["2711", "2714", "2717", "4785"], // 대구 북구
+  "2726": ["2711", "2714", "2720", "2771", "4729"], // 대구 수성구
+  "2729": ["2717", "2720", "2771"], // 대구 달서구
+  "2771": ["2726", "2729", "4729", "4782", "4783", "4784", "4785", "4874"], // 대구 달성군
+
+  // 인천광역시 (28xx)
+  "2800": [], // 인천광역시
+  "2811": ["2814", "2817", "2826", "2872"], // 인천 중구
+  "2814": ["2811", "2817", "2826"], // 인천 동구
+  "2817": ["2811", "2814", "2818", "2820", "2826"], // 인천 남구
+  "2818": ["2817", "2820", "4139"], // 인천 연수구
+  "2820": ["2817", "2818", "2823", "4139"], // 인천 남동구
+  "2823": ["2820", "2824", "2826", "4119"], // 인천 부평구
+  "2824": ["1150", "2823", "2826", "4119", "4157"], // 인천 계양구
+  "2826": ["2811", "2814", "2817", "2823", "2824", "2871", "4157"], // 인천 서구
+  "2871": ["2826", "2872", "4157"], // 인천 강화군
+  "2872": ["2811", "2871"], // 인천 옹진군
+
+  // 광주광역시 (29xx)
+  "2900": [], // 광주광역시
+  "2911": ["2914", "2915", "2917", "4671", "4679"], // 광주 동구
+  "2914": ["2911", "2915", "2917", "2920"], // 광주 서구
+  "2915": ["2911", "2914", "2920", "4617", "4679"], // 광주 남구
+  "2917": ["2911", "2914", "2920", "4671", "4688"], // 광주 북구
+  "2920": ["2914", "2915", "2917", "4617", "4686", "4688"], // 광주 광산구
+
+  // 대전광역시 (30xx)
+  "3000": [], // 대전광역시
+  "3011": ["3014", "3023", "4373"], // 대전 동구
+  "3014": ["3011", "3017", "4471"], // 대전 중구
+  "3017": ["3014", "3020", "4423", "4425", "4471"], // 대전 서구
+  "3020": ["3017", "3023", "3611", "4415", "4425"], // 대전 유성구
+  "3023": ["3011", "3020", "4371"], // 대전 대덕구
+
+  // 울산광역시 (31xx)
+  "3100": [], // 울산광역시
+  "3111": ["3114", "3120", "3171"], // 울산 중구
+  "3114": ["3111", "3117", "3171"], // 울산 남구
+  "3117": ["3114", "3120"], // 울산 동구
+  "3120": ["3111", "3117", "3171", "4713"], // 울산 북구
+  "3171": ["2671", "3111", "3114", "3120", "4713", "4782", "4827", "4833"], // 울산 울주군
+
+  // 세종특별자치시 (36xx)
+  "3600": [], // 세종특별자치시
+  "3611": ["3020", "4371", "4413", "4415"], // 세종특별자치시
+
+  // 경기도 (41xx)
+  "4100": [], // 경기도
+  "4111": ["4143", "4146", "4159"], // 경기 수원시
+  "4113": ["1165", "1168", "1171", "4129", "4143", "4145", "4146", "4161"], // 경기 성남시
+  "4115": ["1132", "1135", "4136", "4163", "4165"], // 경기 의정부시
+  "4117": ["1154", "1162", "4121", "4129", "4139", "4141", "4143"], // 경기 안양시
+  "4119": ["1147", "1150", "1153", "2823", "2824", "4121", "4139"], // 경기 부천시
+  "4121": ["1153", "1154", "4117", "4119", "4139"], // 경기 광명시
+  "4122": ["4137", "4146", "4155", "4159", "4413", "4420", "4427"], // 경기 평택시
+  "4125": ["4163", "4165", "4180"], // 경기 동두천시
+  "4127": ["4139", "4141", "4159"], // 경기 안산시
+  "4128": ["1138", "1144", "1150", "4148", "4157", "4163"], // 경기 고양시
+  "4129": ["1162", "1165", "4113", "4117", "4143"], // 경기 과천시
+  "4131": ["1121", "1126", "1135", "1174", "4136", "4145"], // 경기 구리시
+  "4136": ["1135", "4115", "4131", "4145", "4163", "4165", "4182", "4183"], // 경기 남양주시
+  "4137": ["4122", "4146", "4159"], // 경기 오산시
+  "4139": ["2818", "2820", "4117", "4119", "4121", "4127"], // 경기 시흥시
+  "4141": ["4117", "4127", "4143"], // 경기 군포시
+  "4143": ["4111", "4113", "4117", "4129", "4141", "4146"], // 경기 의왕시
+  "4145": ["1171", "1174", "4113", "4131", "4136", "4161"], // 경기 하남시
+  "4146": ["4111", "4113", "4122", "4137", "4143", "4150", "4155", "4159", "4161"], // 경기 용인시
+  "4148": ["4128", "4157", "4163", "4180"], // 경기 파주시
+  "4150": ["4146", "4155", "4161", "4173", "4377"], // 경기 이천시
+  "4155": ["4122", "4146", "4150", "4375", "4377", "4413"], // 경기 안성시
+  "4157": ["1150", "2824", "2826", "2871", "4128", "4148"], // 경기 김포시
+  "4159": ["4111", "4122", "4127", "4137", "4146"], // 경기 화성시
+  "4161": ["4113", "4145", "4146", "4150", "4173", "4183"], // 경기 광주시
+  "4163": ["1132", "4115", "4125", "4128", "4136", "4148", "4165", "4180"], // 경기 양주시
+  "4165": ["4115", "4125", "4136", "4163", "4180", "4182", "5178"], // 경기 포천시
+  "4173": ["4150", "4161", "4183", "4313", "4377", "5113"], // 경기 여주군
+  "4180": ["4125", "4148", "4163", "4165", "5178"], // 경기 연천군
+  "4182": ["4136", "4165", "4183", "5111", "5172", "5179"], // 경기 가평군
+  "4183": ["4136", "4161", "4173", "4182", "5113", "5172", "5173"], // 경기 양평군
+
+  // 강원특별자치도 (51xx)
+  "5100": [], // 강원특별자치도
+  "5111": ["4182", "5172", "5179", "5180", "5181"], // 강원 춘천시
+  "5113": ["4173", "4183", "4313", "4315", "5173", "5175"], // 강원 원주시
+  "5115": ["5117", "5172", "5176", "5177", "5183"], // 강원 강릉시
+  "5117": ["5115", "5123", "5177"], // 강원 동해시
+  "5119": ["4792", "5123", "5175", "5177"], // 강원 태백시
+  "5121": ["5181", "5182", "5183"], // 강원 속초시
+  "5123": ["4792", "4793", "5117", "5119", "5177"], // 강원 삼척시
+  "5172": ["4182", "4183", "5111", "5115", "5173", "5176", "5181", "5183"], // 강원 홍천군
+  "5173": ["4183", "5113", "5172", "5175", "5176"], // 강원 횡성군
+  "5175": ["4315", "4380", "4721", "4792", "5113", "5119", "5173", "5176", "5177"], // 강원 영월군
+  "5176": ["5115", "5172", "5173", "5175", "5177"], // 강원 평창군
+  "5177": ["5115", "5117", "5119", "5123", "5175", "5176"], // 강원 정선군
+  "5178": ["4165", "4180", "5179"], // 강원 철원군
+  "5179": ["4182", "5111", "5178", "5180"], // 강원 화천군
+  "5180": ["5111", "5179", "5181"], // 강원 양구군
+  "5181": ["5111", "5121", "5172", "5180", "5182", "5183"], // 강원 인제군
+  "5182": ["5121", "5181"], // 강원 고성군
+  "5183": ["5115", "5121", "5172", "5181"], // 강원 양양군
+
+  // 충청북도 (43xx)
+  "4300": [], // 충청북도
+  "4311": ["4371"], // 충북 청주시
+  "4313": ["4173", "4315", "4376", "4377", "4728", "5113"], // 충북 충주시
+  "4315": ["4313", "4380", "5113", "5175"], // 충북 제천시
+  "4371": ["3023", "3611", "4311", "4372", "4373", "4375", "4376", "4413"], // 충북 청원군
+  "4372": ["4371", "4373", "4376", "4725"], // 충북 보은군
+  "4373": ["3011", "4371", "4372", "4374", "4471"], // 충북 옥천군
+  "4374": ["4373", "4471", "4573", "4715", "4725"], // 충북 영동군
+  "4375": ["4155", "4371", "4377", "4413"], // 충북 진천군
+  "4376": ["4313", "4371", "4372", "4377", "4725", "4728"], // 충북 괴산군
+  "4377": ["4150", "4155", "4173", "4313", "4375", "4376"], // 충북 음성군
+  "4380": ["4315", "4721", "5175"], // 충북 단양군
+
+  // 충청남도 (44xx)
+  "4400": [], // 충청남도
+  "4413": ["3611", "4122", "4155", "4371", "4375", "4415", "4420"], // 충남 천안시
+  "4415": ["3020", "3611", "4413", "4420", "4423", "4425", "4476", "4479", "4481"], // 충남 공주시
+  "4418": ["4476", "4477", "4479", "4480"], // 충남 보령시
+  "4420": ["4122", "4413", "4415", "4427", "4481"], // 충남 아산시
+  "4421": ["4427", "4480", "4481", "4482"], // 충남 서산시
+  "4423": ["3017", "4415", "4425", "4471", "4476", "4514", "4571"], // 충남 논산시
+  "4425": ["3017", "3020", "4415", "4423"], // 충남 계룡시
+  "4427": ["4122", "4420", "4421", "4481"], // 충남 당진시
+  "4471": ["3014", "3017", "4373", "4374", "4423", "4571", "4572", "4573"], // 충남 금산군
+  "4476": ["4415", "4418", "4423", "4477", "4479", "4514"], // 충남 부여군
+  "4477": ["4418", "4476", "4513", "4514"], // 충남 서천군
+  "4479": ["4415", "4418", "4476", "4480", "4481"], // 충남 청양군
+  "4480": ["4418", "4421", "4479", "4481"], // 충남 홍성군
+  "4481": ["4415", "4420", "4421", "4427", "4479", "4480"], // 충남 예산군
+  "4482": ["4421"], // 충남 태안군
+
+  // 전라북도 (45xx)
+  "4500": [], // 전라북도
+  "4511": ["4514", "4521", "4571"], // 전북 전주시
+  "4513": ["4477", "4514", "4521"], // 전북 군산시
+  "4514": ["4423", "4476", "4477", "4511", "4513", "4521", "4571"], // 전북 익산시
+  "4518": ["4521", "4571", "4575", "4577", "4579", "4580", "4688"], // 전북 정읍시
+  "4519": ["4574", "4575", "4577", "4672", "4673", "4887"], // 전북 남원시
+  "4521": ["4511", "4513", "4514", "4518", "4571", "4580"], // 전북 김제시
+  "4571": ["4423", "4471", "4511", "4514", "4518", "4521", "4572", "4575"], // 전북 완주군
+  "4572": ["4471", "4571", "4573", "4574", "4575"], // 전북 진안군
+  "4573": ["4374", "4471", "4572", "4574", "4715", "4888"], // 전북 무주군
+  "4574": ["4519", "4572", "4573", "4575", "4887", "4888"], // 전북 장수군
+  "4575": ["4518", "4519", "4571", "4572", "4574", "4577"], // 전북 임실군
+  "4577": ["4518", "4519", "4575", "4671", "4672"], // 전북 순창군
+  "4579": ["4518", "4580", "4687", "4688"], // 전북 고창군
+  "4580": ["4518", "4521", "4579"], // 전북 부안군
+
+  // 전라남도 (46xx)
+  "4600": [], // 전라남도
+  "4611": ["4683", "4684", "4691"], // 전남 목포시
+  "4613": ["4615", "4677"], // 전남 여수시
+  "4615": ["4613", "4623", "4672", "4673", "4677", "4678", "4679"], // 전남 순천시
+  "4617": ["2915", "2920", "4679", "4683", "4684", "4686"], // 전남 나주시
+  "4623": ["4615", "4673", "4885"], // 전남 광양시
+  "4671": ["2911", "2917", "4577", "4672", "4679", "4688"], // 전남 담양군
+  "4672": ["4519", "4577", "4615", "4671", "4673", "4679"], // 전남 곡성군
+  "4673": ["4519", "4615", "4623", "4672", "4885"], // 전남 구례군
+  "4677": ["4613", "4615", "4678"], // 전남 고흥군
+  "4678": ["4615", "4677", "4679", "4680"], // 전남 보성군
+  "4679": ["2911", "2915", "4615", "4617", "4671", "4672", "4678", "4680"], // 전남 화순군
+  "4680": ["4678", "4679", "4681", "4683"], // 전남 장흥군
+  "4681": ["4680", "4682", "4683"], // 전남 강진군
+  "4682": ["4681", "4683", "4689", "4690"], // 전남 해남군
+  "4683": ["4611", "4617", "4680", "4681", "4682", "4684"], // 전남 영암군
+  "4684": ["4611", "4617", "4683", "4686", "4691"], // 전남 무안군
+  "4686": ["2920", "4617", "4684", "4687", "4688"], // 전남 함평군
+  "4687": ["4579", "4686", "4688"], // 전남 영광군
+  "4688": ["2917", "2920", "4518", "4579", "4671", "4686", "4687"], // 전남 장성군
+  "4689": ["4682"], // 전남 완도군
+  "4690": ["4682"], // 전남 진도군
+  "4691": ["4611", "4684"], // 전남 신안군
+
+  // 경상북도 (47xx)
+  "4700": [], // 경상북도
+  "4711": ["4713", "4723", "4775", "4777"], // 경북 포항시
+  "4713": ["3120", "3171", "4711", "4723", "4782"], // 경북 경주시
+  "4715": ["4374", "4573", "4719", "4725", "4784", "4888"], // 경북 김천시
+  "4717": ["4721", "4773", "4775", "4776", "4790", "4792"], // 경북 안동시
+  "4719": ["4715", "4725", "4772", "4773", "4784", "4785"], // 경북 구미시
+  "4721": ["4380", "4717", "4790", "4792", "5175"], // 경북 영주시
+  "4723": ["2714", "4711", "4713", "4729", "4772", "4775", "4782"], // 경북 영천시
+  "4725": ["4372", "4374", "4376", "4715", "4719", "4728", "4773", "4790"], // 경북 상주시
+  "4728": ["4313", "4376", "4725", "4790"], // 경북 문경시
+  "4729": ["2714", "2726", "2771", "4723", "4782"], // 경북 경산시
+  "4772": ["2714", "4719", "4723", "4773", "4785"], // 경북 군위군
+  "4773": ["4717", "4719", "4725", "4772", "4775", "4790"], // 경북 의성군
+  "4775": ["4711", "4717", "4723", "4773", "4776", "4777"], // 경북 청송군
+  "4776": ["4717", "4775", "4777", "4792", "4793"], // 경북 영양군
+  "4777": ["4711", "4775", "4776", "4793"], // 경북 영덕군
+  "4782": ["2771", "3171", "4713", "4723", "4729", "4827", "4874"], // 경북 청도군
+  "4783": ["2771", "4784", "4874", "4889"], // 경북 고령군
+  "4784": ["2771", "4715", "4719", "4783", "4785", "4888", "4889"], // 경북 성주군
+  "4785": ["2723", "2771", "4719", "4772", "4784"], // 경북 칠곡군
+  "4790": ["4717", "4721", "4725", "4728", "4773"], // 경북 예천군
+  "4792": ["4717", "4721", "4776", "4793", "5119", "5123", "5175"], // 경북 봉화군
+  "4793": ["4776", "4777", "4792", "5123"], // 경북 울진군
+  "4794": [], // 경북 울릉군
+
+  // 경상남도 (48xx)
+  "4800": [], // 경상남도
+  "4812": ["2644", "4825", "4827", "4873", "4874", "4882"], // 경남 창원시
+  "4817": ["4824", "4872", "4873", "4882", "4885", "4886"], // 경남 진주시
+  "4822": ["4831", "4882"], // 경남 통영시
+  "4824": ["4817", "4882", "4884", "4885"], // 경남 사천시
+  "4825": ["2632", "2644", "4812", "4827", "4833"], // 경남 김해시
+  "4827": ["3171", "4782", "4812", "4825", "4833", "4874"], // 경남 밀양시
+  "4831": ["4822"], // 경남 거제시
+  "4833": ["2632", "2641", "2671", "3171", "4825", "4827"], // 경남 양산시
+  "4872": ["4817", "4873", "4874", "4889"], // 경남 의령군
+  "4873": ["4812", "4817", "4872", "4874", "4882"], // 경남 함안군
+  "4874": ["2771", "4782", "4783", "4812", "4827", "4872", "4873", "4889"], // 경남 창녕군
+  "4882": ["4812", "4817", "4822", "4824", "4873"], // 경남 고성군
+  "4884": ["4824", "4885"], // 경남 남해군
+  "4885": ["4623", "4673", "4817", "4824", "4884", "4886"], // 경남 하동군
+  "4886": ["4817", "4885", "4887", "4889"], // 경남 산청군
+  "4887": ["4519", "4574", "4886", "4888"], // 경남 함양군
+  "4888": ["4573", "4574", "4715", "4784", "4887", "4889"], // 경남 거창군
+  "4889": ["4783", "4784", "4872", "4874", "4886", "4888"], // 경남 합천군
+
+  // 제주특별자치도 (50xx)
+  "5000": [], // 제주특별자치도
+  "5011": ["5013"], // 제주 제주시
+  "5013": ["5011"], // 제주 서귀포시
+};
+/**
+ * 인접 구/군 코드 (같은 시/도 이웃 먼저)
+ * 예: "1150" (서울 강서구) → ["1144", "1147", "2824", "4119", "4128", "4157"]
+ */
+export function getNeighborGugunCodes(code?: string): string[] {
+  if (!code || code.length !== 4) return [];
+
+  const neighbors: string[] = GUGUN_NEIGHBORS[code as GugunCode] || [];
+  const sidoCode = code.substring(0, 2);
+  return [
+    ...neighbors.filter((neighbor) => neighbor.startsWith(sidoCode)),
+    ...neighbors.filter((neighbor) => !neighbor.startsWith(sidoCode)),
+  ];
+}
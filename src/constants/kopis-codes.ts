@@ -32,6 +32,16 @@ export const SIDO_CODES = {
   "50": "제주특별자치도",
 } as const;
 
+// 시/도 약칭 (KOPIS area 필드와 자연어 질의에서 사용, 예: "전북특별자치도")
+export const SIDO_ABBREVIATIONS: Record<string, string> = {
+  "충북": "43",
+  "충남": "44",
+  "전북": "45",
+  "전남": "46",
+  "경북": "47",
+  "경남": "48",
+};
+
 export const GUGUN_CODES = {
   // 서울특별시 (11xx)
   "1111": "서울 종로구",
@@ -388,6 +398,39 @@ export function extractSidoCode(code?: string, defaultSido: string = '11'): stri
   return code.length === 4 ? code.substring(0, 2) : code;
 }
 
+/**
+ * 장르명 → 장르 코드 (KOPIS 응답의 genrenm / 박스오피스 cate)
+ * 예: "뮤지컬" → "GGGA", "클래식" → "CCCA"
+ */
+export function findGenreCodeByName(name?: string): keyof typeof GENRE_CODES | null {
+  if (!name) return null;
+
+  const entries = Object.entries(GENRE_CODES) as Array<[keyof typeof GENRE_CODES, string]>;
+  const exact = entries.find(([, genreName]) => genreName === name);
+  if (exact) return exact[0];
+
+  // "서양음악(클래식)" ↔ "클래식"처럼 괄호 안 이름으로 오는 경우
+  const partial = entries.find(([, genreName]) => genreName.includes(name) || name.includes(genreName));
+  return partial ? partial[0] : null;
+}
+
+/**
+ * 지역명 → 시/도 코드 (KOPIS 응답의 area)
+ * 예: "서울특별시" → "11", "전북특별자치도" → "45"
+ */
+export function findSidoCodeByName(name?: string): keyof typeof SIDO_CODES | null {
+  if (!name) return null;
+
+  for (const code of Object.keys(SIDO_CODES) as Array<keyof typeof SIDO_CODES>) {
+    if (name.startsWith(SIDO_CODES[code]) || name.startsWith(getSidoNameShort(code))) {
+      return code;
+    }
+  }
+
+  const abbreviation = Object.keys(SIDO_ABBREVIATIONS).find(short => name.startsWith(short));
+  return abbreviation ? (SIDO_ABBREVIATIONS[abbreviation] as keyof typeof SIDO_CODES) : null;
+}
+
 // =============================================================================
 // AI용 예시 데이터
 // =============================================================================
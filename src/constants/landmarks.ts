@@ -0,0 +1,90 @@
+// 거리 검색 기준점 (랜드마크/시·도 중심 좌표, WGS84)
+
+export interface Landmark {
+  name: string;
+  aliases: string[];
+  latitude: number;
+  longitude: number;
+  gugunCode: string; // 랜드마크가 속한 구/군 (후보 공연 조회 범위)
+}
+
+// 공연 밀집 지역/역/공연장 (좌표는 대표 지점 기준 근삿값)
+export const LANDMARKS: Landmark[] = [
+  // 서울특별시
+  { name: "혜화역", aliases: ["대학로", "혜화", "마로니에공원"], latitude: 37.5822, longitude: 127.0019, gugunCode: "1111" },
+  { name: "광화문", aliases: ["광화문역", "광화문광장"], latitude: 37.5759, longitude: 126.9768, gugunCode: "1111" },
+  { name: "세종문화회관", aliases: [], latitude: 37.5725, longitude: 126.976, gugunCode: "1111" },
+  { name: "명동역", aliases: ["명동"], latitude: 37.5609, longitude: 126.9863, gugunCode: "1114" },
+  { name: "충무로역", aliases: ["충무로", "충무아트센터"], latitude: 37.5612, longitude: 126.9942, gugunCode: "1114" },
+  { name: "이태원역", aliases: ["이태원"], latitude: 37.5345, longitude: 126.9946, gugunCode: "1117" },
+  { name: "블루스퀘어", aliases: ["한남", "한강진역"], latitude: 37.5408, longitude: 127.0026, gugunCode: "1117" },
+  { name: "성수역", aliases: ["성수"], latitude: 37.5446, longitude: 127.0559, gugunCode: "1120" },
+  { name: "건대입구역", aliases: ["건대", "건대입구"], latitude: 37.5404, longitude: 127.0692, gugunCode: "1121" },
+  { name: "신촌역", aliases: ["신촌"], latitude: 37.5551, longitude: 126.9368, gugunCode: "1141" },
+  { name: "홍대입구역", aliases: ["홍대", "홍대입구"], latitude: 37.5572, longitude: 126.9245, gugunCode: "1144" },
+  { name: "합정역", aliases: ["합정"], latitude: 37.5496, longitude: 126.9139, gugunCode: "1144" },
+  { name: "디지털미디어시티역", aliases: ["상암", "DMC"], latitude: 37.577, longitude: 126.8996, gugunCode: "1144" },
+  { name: "목동역", aliases: ["목동"], latitude: 37.5262, longitude: 126.8645, gugunCode: "1147" },
+  { name: "여의도역", aliases: ["여의도"], latitude: 37.5216, longitude: 126.9243, gugunCode: "1156" },
+  { name: "노량진역", aliases: ["노량진"], latitude: 37.5131, longitude: 126.9426, gugunCode: "1159" },
+  { name: "예술의전당", aliases: ["예전", "남부터미널역"], latitude: 37.4786, longitude: 127.0111, gugunCode: "1165" },
+  { name: "강남역", aliases: ["강남"], latitude: 37.4979, longitude: 127.0276, gugunCode: "1168" },
+  { name: "코엑스", aliases: ["삼성역", "삼성동"], latitude: 37.5116, longitude: 127.0593, gugunCode: "1168" },
+  { name: "압구정역", aliases: ["압구정", "신사동"], latitude: 37.5271, longitude: 127.0285, gugunCode: "1168" },
+  { name: "잠실역", aliases: ["잠실"], latitude: 37.5133, longitude: 127.1001, gugunCode: "1171" },
+  { name: "롯데콘서트홀", aliases: [], latitude: 37.5138, longitude: 127.1043, gugunCode: "1171" },
+  // 부산광역시
+  { name: "서면역", aliases: ["서면"], latitude: 35.1578, longitude: 129.0592, gugunCode: "2623" },
+  { name: "해운대역", aliases: ["해운대"], latitude: 35.1631, longitude: 129.1586, gugunCode: "2635" },
+  { name: "광안역", aliases: ["광안리"], latitude: 35.1576, longitude: 129.1133, gugunCode: "2650" },
+];
+
+// 시/도 중심 (시청/도청 기준) - 좌표만 주어졌을 때 후보 공연을 조회할 시/도 결정
+export const SIDO_CENTERS: Record<string, { latitude: number; longitude: number }> = {
+  "11": { latitude: 37.5663, longitude: 126.9779 },
+  "26": { latitude: 35.1798, longitude: 129.075 },
+  "27": { latitude: 35.8714, longitude: 128.6014 },
+  "28": { latitude: 37.4563, longitude: 126.7052 },
+  "29": { latitude: 35.1601, longitude: 126.8514 },
+  "30": { latitude: 36.3504, longitude: 127.3845 },
+  "31": { latitude: 35.5396, longitude: 129.3115 },
+  "36": { latitude: 36.48, longitude: 127.289 },
+  "41": { latitude: 37.2893, longitude: 127.0535 },
+  "51": { latitude: 37.8854, longitude: 127.7298 },
+  "43": { latitude: 36.6357, longitude: 127.4912 },
+  "44": { latitude: 36.6588, longitude: 126.6728 },
+  "45": { latitude: 35.8203, longitude: 127.1088 },
+  "46": { latitude: 34.8161, longitude: 126.4629 },
+  "47": { latitude: 36.576, longitude: 128.5056 },
+  "48": { latitude: 35.2377, longitude: 128.6919 },
+  "50": { latitude: 33.489, longitude: 126.4983 },
+};
+
+/**
+ * 랜드마크 이름 → 좌표 (공백 무시, "역" 유무 무시)
+ * 예: "홍대입구역", "홍대 입구", "대학로" → 해당 랜드마크
+ */
+export function findLandmark(name?: string): Landmark | null {
+  if (!name) return null;
+
+  const normalize = (value: string) => value.replace(/\s+/g, "").replace(/역$/, "").toLowerCase();
+  const target = normalize(name);
+  if (!target) return null;
+
+  return (
+    LANDMARKS.find((landmark) =>
+      [landmark.name, ...landmark.aliases].some((alias) => normalize(alias) === target)
+    ) || null
+  );
+}
+
+export const LANDMARK_EXAMPLES = [
+  "홍대입구역",
+  "대학로",
+  "광화문",
+  "강남역",
+  "잠실역",
+  "예술의전당",
+  "서면역",
+  "해운대역",
+].join(", ");
@@ -0,0 +1,317 @@
+// 도구별 outputSchema (structuredContent 형식, src/types/output.types.ts와 일치)
+
+const nullableString = { type: ['string', 'null'] };
+const nullableNumber = { type: ['number', 'null'] };
+
+const PRICE_SCHEMA = {
+  type: 'object',
+  description: '관람료 범위 (원)',
+  properties: {
+    min: nullableNumber,
+    max: nullableNumber,
+    isFree: { type: 'boolean' },
+    isDonation: { type: 'boolean', description: '자율 기부/후원 관람' },
+    tiers: {
+      type: 'array',
+      description: '좌석 등급별 가격',
+      items: {
+        type: 'object',
+        properties: { label: nullableString, amount: { type: 'number' } },
+        required: ['label', 'amount'],
+      },
+    },
+    discounts: { type: 'array', items: { type: 'string' }, description: '할인 안내' },
+    text: { ...nullableString, description: 'KOPIS 관람료 원문' },
+  },
+  required: ['min', 'max', 'isFree', 'isDonation', 'tiers', 'discounts', 'text'],
+};
+
+const SCORE_SCHEMA = {
+  type: 'object',
+  description: '스마트 검색 점수 상세 (0-100, total은 우선순위 가중 합)',
+  properties: {
+    total: { type: 'number' },
+    price: { type: 'number' },
+    date: { type: 'number' },
+    genre: { type: 'number' },
+    location: { type: 'number' },
+    popularity: { type: 'number' },
+    award: { type: 'number' },
+    schedule: { type: 'number' },
+  },
+  required: ['total', 'price', 'date', 'genre', 'location', 'popularity', 'award', 'schedule'],
+};
+
+const SHOWTIMES_SCHEMA = {
+  type: 'object',
+  description: '요일별 공연 시작 시각 (day: mon~sun, times: HH:MM)',
+  properties: {
+    slots: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          day: { type: 'string', enum: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] },
+          times: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['day', 'times'],
+      },
+    },
+    holidayTimes: { type: 'array', items: { type: 'string' } },
+    notes: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['slots', 'holidayTimes', 'notes'],
+};
+
+const EVENT_PROPERTIES = {
+  id: { type: 'string', description: '공연 ID (mt20id)' },
+  title: { type: 'string' },
+  venue: { ...nullableString, description: '공연장 이름' },
+  period: {
+    type: 'object',
+    properties: {
+      start: { ...nullableString, description: 'YYYY-MM-DD' },
+      end: { ...nullableString, description: 'YYYY-MM-DD' },
+    },
+    required: ['start', 'end'],
+  },
+  state: { ...nullableString, description: '공연예정 / 공연중 / 공연완료' },
+  poster: nullableString,
+  price: PRICE_SCHEMA,
+  genre: nullableString,
+  area: nullableString,
+  awards: { type: 'array', items: { type: 'string' } },
+  distanceKm: { type: 'number', description: '검색 중심에서 공연장까지 거리 (km, 거리 검색만)' },
+  ranking: {
+    type: 'object',
+    description: '박스오피스 순위 (인기 공연만)',
+    properties: {
+      rank: { type: 'number' },
+      previousRank: nullableNumber,
+      change: nullableString,
+      rankDate: nullableString,
+    },
+    required: ['rank', 'previousRank', 'change', 'rankDate'],
+  },
+  daysUntilEnd: { type: 'number', description: '공연 종료까지 남은 일수 (마감 임박 공연만, 오늘 종료면 0)' },
+  countdown: { type: 'string', description: '마감 카운트다운 ("D-3", "D-Day")' },
+  credits: {
+    type: 'array',
+    description: '검색한 인물의 역할 (인물 검색만)',
+    items: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        role: { type: 'string', enum: ['cast', 'crew'], description: 'cast: 출연, crew: 제작진' },
+        roleDetail: { ...nullableString, description: '배역 또는 직책 (예: "지킬", "연출")' },
+      },
+      required: ['name', 'role', 'roleDetail'],
+    },
+  },
+  runtime: { ...nullableString, description: '러닝타임 (상세 정보를 채운 목록만)' },
+  age: { ...nullableString, description: '관람 연령 (상세 정보를 채운 목록만)' },
+  cast: { type: 'array', items: { type: 'string' }, description: '출연진 (상세 정보를 채운 목록만)' },
+  showtimes: SHOWTIMES_SCHEMA,
+  ageLimit: {
+    type: 'object',
+    description: '관람 연령 해석 (개월, 전체 관람가는 minMonths 0, 해석 못 하면 null)',
+    properties: {
+      minMonths: nullableNumber,
+      maxMonths: nullableNumber,
+      allAges: { type: 'boolean' },
+    },
+    required: ['minMonths', 'maxMonths', 'allAges'],
+  },
+  runningTime: {
+    type: 'object',
+    description: '러닝타임 해석 (분, 인터미션 포함 전체 시간, 해석 못 하면 null)',
+    properties: {
+      minutes: nullableNumber,
+      intermissionMinutes: { ...nullableNumber, description: '인터미션 (분, 없음이면 0, 언급이 없으면 null)' },
+    },
+    required: ['minutes', 'intermissionMinutes'],
+  },
+  score: SCORE_SCHEMA,
+};
+
+const EVENT_REQUIRED = ['id', 'title', 'venue', 'period', 'state', 'poster', 'price', 'genre', 'area', 'awards'];
+
+const EVENT_SCHEMA = {
+  type: 'object',
+  properties: EVENT_PROPERTIES,
+  required: EVENT_REQUIRED,
+};
+
+// 지역 후보 (src/types/location.types.ts의 LocationCandidate)
+const LOCATION_CANDIDATE_SCHEMA = {
+  type: 'object',
+  properties: {
+    sidoCode: { type: 'string', description: '시도 코드 2자리' },
+    gugunCode: { ...nullableString, description: '구군 코드 4자리 (시/도 자체면 null)' },
+    name: { type: 'string' },
+    score: { type: 'number', description: '일치 점수 (0-100)' },
+    matchedBy: { type: 'string', enum: ['code', 'name', 'abbreviation', 'landmark', 'partial', 'typo'] },
+    matchedAlias: { type: 'string', description: '일치한 표기' },
+  },
+  required: ['sidoCode', 'gugunCode', 'name', 'score', 'matchedBy', 'matchedAlias'],
+};
+
+export const EVENT_LIST_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    message: { type: 'string' },
+    count: { type: 'number' },
+    events: { type: 'array', items: EVENT_SCHEMA },
+    level: { ...nullableNumber, description: '스마트 검색 완화 단계 (1~7, 실패 0, 일반 조회 null)' },
+    relaxedConditions: { type: 'array', items: { type: 'string' } },
+    offset: { type: 'number' },
+    nextCursor: { ...nullableString, description: '다음 페이지 cursor (없으면 null)' },
+    timedOut: { type: 'boolean' },
+    freeCount: { type: 'number' },
+    paidCount: { type: 'number' },
+    interpretation: {
+      type: 'object',
+      description: '자연어 질의 해석 (ask_performances)',
+      properties: {
+        query: { type: 'string' },
+        toolName: { type: 'string' },
+        args: { type: 'object' },
+        lines: { type: 'array', items: { type: 'string' } },
+        locationCandidates: {
+          type: 'array',
+          items: LOCATION_CANDIDATE_SCHEMA,
+          description: '지역 이름이 여러 곳이라 지역 없이 검색한 경우의 후보',
+        },
+      },
+      required: ['query', 'toolName', 'args', 'lines'],
+    },
+    venue: {
+      type: 'object',
+      description: '조회한 공연장 (get_events_at_venue)',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+      },
+      required: ['id', 'name'],
+    },
+  },
+  required: ['message', 'count', 'events', 'level', 'relaxedConditions', 'offset', 'nextCursor'],
+};
+
+export const EVENT_DETAIL_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    event: {
+      type: ['object', 'null'],
+      properties: {
+        ...EVENT_PROPERTIES,
+        venueId: { ...nullableString, description: '공연장 ID (mt10id)' },
+        runtime: nullableString,
+        age: nullableString,
+        cast: { type: 'array', items: { type: 'string' } },
+        crew: { type: 'array', items: { type: 'string' } },
+        synopsis: nullableString,
+        schedule: { ...nullableString, description: '공연 시간 안내 원문 (dtguidance)' },
+        showtimes: SHOWTIMES_SCHEMA,
+        ticketLinks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { name: { type: 'string' }, url: { type: 'string' } },
+            required: ['name', 'url'],
+          },
+        },
+      },
+      required: [...EVENT_REQUIRED, 'venueId', 'runtime', 'age', 'cast', 'crew', 'synopsis', 'schedule', 'showtimes', 'ticketLinks'],
+    },
+  },
+  required: ['event'],
+};
+
+export const GENRE_LIST_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    genres: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { code: { type: 'string' }, name: { type: 'string' } },
+        required: ['code', 'name'],
+      },
+    },
+  },
+  required: ['genres'],
+};
+
+export const VENUE_LIST_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    message: { type: 'string' },
+    count: { type: 'number' },
+    venues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: '공연장 ID (mt10id)' },
+          name: { type: 'string' },
+          sido: nullableString,
+          gugun: nullableString,
+          hallCount: nullableNumber,
+          characteristic: nullableString,
+          openYear: nullableString,
+        },
+        required: ['id', 'name', 'sido', 'gugun', 'hallCount', 'characteristic', 'openYear'],
+      },
+    },
+  },
+  required: ['message', 'count', 'venues'],
+};
+
+export const VENUE_DETAIL_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    venue: {
+      type: ['object', 'null'],
+      properties: {
+        mt10id: { type: 'string' },
+        fcltynm: { type: 'string' },
+        address: nullableString,
+        latitude: nullableNumber,
+        longitude: nullableNumber,
+        seatCount: nullableNumber,
+        hallCount: { type: 'number' },
+        halls: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { id: { type: 'string' }, name: { type: 'string' }, seatCount: nullableNumber },
+            required: ['id', 'name', 'seatCount'],
+          },
+        },
+        hasParking: { type: 'boolean' },
+        hasRestaurant: { type: 'boolean' },
+        hasCafe: { type: 'boolean' },
+        hasStore: { type: 'boolean' },
+        telno: { type: 'string' },
+        relateurl: { type: 'string' },
+        opende: { type: 'string' },
+        fcltychartr: { type: 'string' },
+      },
+      required: ['mt10id', 'fcltynm', 'address', 'latitude', 'longitude', 'seatCount', 'hallCount', 'halls'],
+    },
+  },
+  required: ['venue'],
+};
+
+// src/types/location.types.ts의 LocationResolution
+export const LOCATION_RESOLUTION_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    query: { type: 'string' },
+    resolved: { ...LOCATION_CANDIDATE_SCHEMA, type: ['object', 'null'] },
+    candidates: { type: 'array', items: LOCATION_CANDIDATE_SCHEMA },
+    ambiguous: { type: 'boolean', description: '같은 점수의 후보가 여러 개 (시/도를 함께 지정해야 함)' },
+  },
+  required: ['query', 'resolved', 'candidates', 'ambiguous'],
+};
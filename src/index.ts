@@ -9,11 +9,62 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { KopisService } from './services/kopis.service.js';
 import { SmartSearchService } from './services/smart-search.service.js';
+import { CacheService } from './services/cache.service.js';
+import { PersonIndexService } from './services/person-index.service.js';
+import { PersonIndexCrawler } from './services/person-crawler.service.js';
+import { PersonSearchService } from './services/person-search.service.js';
+import { MemoryLruCacheStore, FileCacheStore } from './utils/cache-stores.js';
+import { GenreSimilarityGraph } from './utils/genre-similarity.js';
 import { config } from './config/index.js';
 import { GENRE_EXAMPLES, SIDO_EXAMPLES, GUGUN_EXAMPLES } from './constants/kopis-codes.js';
+import { LANDMARK_EXAMPLES } from './constants/landmarks.js';
+import {
+  EVENT_LIST_OUTPUT_SCHEMA,
+  EVENT_DETAIL_OUTPUT_SCHEMA,
+  GENRE_LIST_OUTPUT_SCHEMA,
+  VENUE_LIST_OUTPUT_SCHEMA,
+  VENUE_DETAIL_OUTPUT_SCHEMA,
+  LOCATION_RESOLUTION_OUTPUT_SCHEMA,
+} from './constants/output-schemas.js';
+import {
+  toStructuredEventList,
+  toStructuredEventDetail,
+  toStructuredVenue,
+} from './utils/structured-output.js';
+import { resolveLocation, resolveLocationArgs } from './utils/location-resolver.js';
+import { Performance } from './types/performance.types.js';
+import { PersonRole } from './types/person.types.js';
 
 const app = express();
 
+// KOPIS 응답 캐시 (요청마다 새로 만드는 KopisService 간에 공유)
+const cacheService = new CacheService(
+  config.cacheStore === 'file'
+    ? new FileCacheStore(config.cacheDir)
+    : new MemoryLruCacheStore(config.cacheMaxEntries)
+);
+
+// 장르 유사도 그래프 (시작 시 1회 로드, 설정 오류면 서버 시작 실패)
+const genreGraph = config.genreSimilarityFile
+  ? GenreSimilarityGraph.fromFile(config.genreSimilarityFile)
+  : new GenreSimilarityGraph();
+
+// 출연진·제작진 색인 (디스크에 저장, 현재/예정 공연 상세를 백그라운드로 수집)
+const personIndex = new PersonIndexService(config.personIndexFile);
+const personCrawler = new PersonIndexCrawler(
+  new KopisService(config.kopisApiKey, {
+    pageConcurrency: config.kopisPageConcurrency,
+    maxPages: config.kopisMaxPages,
+    cache: cacheService,
+  }),
+  personIndex,
+  {
+    intervalMs: config.personCrawlIntervalMinutes * 60 * 1000,
+    days: config.personCrawlDays,
+    concurrency: config.kopisPageConcurrency,
+  }
+);
+
 // Middleware
 app.use(cors({
   origin: config.corsOrigin,
@@ -22,12 +73,14 @@ app.use(cors({
 app.use(express.json());
 
 // Health check endpoint
-app.get('/health', (_req: Request, res: Response) => {
+app.get('/health', async (_req: Request, res: Response) => {
   res.json({
     status: 'healthy',
     serverType: 'stateless-smart-search',
     transport: 'streamableHttp',
     uptime: process.uptime(),
+    cache: await cacheService.getStats(),
+    personIndex: { ...personIndex.getStats(), lastCrawl: personCrawler.getStatus() },
     timestamp: new Date().toISOString(),
   });
 });
@@ -55,44 +108,862 @@ const tools: Tool[] = [
       properties: {},
       additionalProperties: false,
     },
+    outputSchema: GENRE_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'resolve_location',
+    description: `📍 지역 이름을 KOPIS 시도/구군 코드로 바꿉니다. 예: "강남" → 1168, "해운대" → 2635, "부산 중구" → 2611
+
+• 정식 이름(서울특별시, 강남구), 줄임말(강남, 충북), 주요 장소(대학로, 홍대), 오타(서올, 강넘구)를 인식
+• "중구", "고성"처럼 같은 이름이 여러 곳이면 후보 목록을 반환 (sidoCode로 좁히기)
+• 다른 도구의 sidoCode/gugunCode에도 이름을 바로 넣을 수 있으므로, 후보를 확인할 때 사용하세요`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: '지역 이름 (예: "강남", "해운대구", "부산 중구", "경기도 광주시")',
+        },
+        sidoCode: {
+          type: 'string',
+          description: `같은 이름의 구/군이 여러 곳일 때 우선할 시도 (코드 또는 이름) [선택]. 예시: ${SIDO_EXAMPLES}`,
+        },
+      },
+      required: ['query'],
+      additionalProperties: false,
+    },
+    outputSchema: LOCATION_RESOLUTION_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'ask_performances',
+    description: `💬 자연어 질문 그대로 공연을 찾습니다. 예: "이번 주말 대학로에서 3만원 이하 연극 5개", "다음 달 초 강남 뮤지컬"
+
+문장에서 자동으로 해석하는 조건:
+• 날짜: 오늘/내일, 이번 주(말), 다음 주(말), 이번/다음 달 초·중순·말, N월 첫째·마지막 주, N월 N일, 크리스마스, 연말
+• 장르: 연극, 뮤지컬, 클래식, 국악, 콘서트, 발레, 서커스 등
+• 지역: 시/도, 구/군(강남, 마포구, 오타 "강넘구"), 공연 밀집 지역(대학로, 홍대, 예술의전당, 잠실). "중구"처럼 여러 곳에 있는 이름은 지역 없이 검색하고 후보를 안내 ("부산 중구"처럼 시/도를 함께 말하면 좁힘)
+• 가격: 무료, "3만원 이하", "2만원대"
+• 개수: "5개", "세 편"
+• 아이/가족: "7살 아이랑", "36개월", "가족" → 가족 공연 검색 (아이 나이에 맞는 관람 연령만)
+• 러닝타임: "1시간 정도", "90분 이내", "짧은 공연", "9시 전에 끝나는"
+• 수상작/축제/개막/인기 키워드가 있으면 해당 검색으로 연결 (예: "다음 달 개막하는 뮤지컬")
+• "종로구에서만"처럼 지역 뒤에 "만"을 붙이면 지역은 넓히지 않음
+
+응답에 해석 결과가 함께 표시되므로 잘못 이해한 부분은 구조화된 검색 도구로 다시 검색하세요.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: '한국어 자연어 질문 (예: "이번 주에 연극이나 볼래?")',
+        },
+        cursor: {
+          type: 'string',
+          description: '이전 검색 결과의 "더 보기" cursor. 이 값만 넘기면 같은 질문의 다음 결과를 반환합니다.',
+        },
+      },
+      anyOf: [{ required: ['query'] }, { required: ['cursor'] }],
+    },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'search_events_by_location',
+    description: `🎯 스마트 검색 지원! 특정 지역과 기간의 공연을 검색합니다.
+    
+우선순위 기반 지능형 완화 전략 (최대 7단계):
+• Level 1: 요청 조건 100% 일치
+• 우선순위가 낮은 조건부터 한 단계씩 완화 (예: 유사 장르 → 인접 구/군 → 시/도 전체)
+• 기간은 요청 기간을 기준으로 넓힘 (앞뒤 3일 → 같은 주 → 같은 달, 오늘 이전 제외)
+• 마지막 단계: 모든 장르 + 같은 달
+• strictness/allowRelax로 완화할 조건 제한 (예: allowRelax ["genre", "date"] → "종로구에서만")
+
+우선순위 자동 분석:
+• "다음주" 등 특정 기간 → 날짜 우선
+• minPrice/maxPrice 지정 → 가격 우선 (예산 조건은 완화하지 않음)
+• daysOfWeek/timeOfDay 지정 → 공연 시간표(dtguidance)로 "평일 저녁" 등 필터 (완화하지 않음)
+• minRuntimeMinutes/maxRuntimeMinutes/endsBefore 지정 → 러닝타임(prfruntime)과 시간표로 "1시간 30분 이내", "9시 전에 끝나는" 공연만 (완화하지 않음)
+• latitude/longitude 또는 landmark 지정 → 공연장까지 거리로 검색, 위치 완화는 반경 확장 (3km → 6km → 12km)
+• 장르/위치는 유사한 것으로 점진적 확장`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        genreCode: {
+          type: 'string',
+          description: `장르 코드. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
+        },
+        startDate: {
+          type: 'string',
+          description: '공연 시작일 (YYYYMMDD 형식)',
+          pattern: '^\\d{8}$',
+        },
+        endDate: {
+          type: 'string',
+          description: '공연 종료일 (YYYYMMDD 형식)',
+          pattern: '^\\d{8}$',
+        },
+        sidoCode: {
+          type: 'string',
+          description: `시도 코드 [선택]. 예시: ${SIDO_EXAMPLES}. 지역 이름도 가능 (예: "서울", "부산광역시")`,
+        },
+        gugunCode: {
+          type: 'string',
+          description: `구군 코드 4자리 [선택]. 예시: ${GUGUN_EXAMPLES}. 강남구는 1168, 종로구는 1111입니다. 지역 이름도 가능 (예: "강남", "해운대구", "부산 중구")`,
+        },
+        limit: {
+          type: 'number',
+          description: '최소 결과 개수 (기본: 3, 최대: 50). 스마트 검색이 이 개수를 달성하려고 자동 완화합니다.',
+          default: 3,
+          minimum: 1,
+          maximum: 50,
+        },
+        includeDetails: {
+          type: 'boolean',
+          description: '상세 정보 포함 [선택]. true면 결과마다 관람료·러닝타임·관람 연령·출연진·공연 시간을 채워서 반환 (공연당 상세 조회로 느려질 수 있음, 기본: false)',
+          default: false,
+        },
+        minPrice: {
+          type: 'number',
+          description: '최소 관람료 (원) [선택]. 가장 비싼 좌석이 이 금액 이상인 공연만 포함',
+          minimum: 0,
+        },
+        maxPrice: {
+          type: 'number',
+          description: '최대 관람료 (원) [선택]. 가장 싼 좌석이 이 금액 이하인 공연만 포함 (예: 30000 → "3만원 이하")',
+          minimum: 0,
+        },
+        daysOfWeek: {
+          type: 'array',
+          description: '공연 요일 [선택]. 해당 요일에 회차가 있는 공연만 포함 (예: ["sat", "sun"] → 주말, 월~금 → 평일)',
+          items: { type: 'string', enum: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] },
+        },
+        timeOfDay: {
+          type: 'string',
+          description: '관람 시간대 [선택]. matinee: 17시 이전 낮 공연, evening: 17시 이후 저녁 공연',
+          enum: ['matinee', 'evening'],
+        },
+        minRuntimeMinutes: {
+          type: 'number',
+          description: '최소 러닝타임 (분, 인터미션 포함) [선택]. 러닝타임(prfruntime)이 이 시간 이상인 공연만 포함',
+          minimum: 0,
+        },
+        maxRuntimeMinutes: {
+          type: 'number',
+          description: '최대 러닝타임 (분, 인터미션 포함) [선택]. 예: 90 → "1시간 30분 이내"',
+          minimum: 0,
+        },
+        endsBefore: {
+          type: 'string',
+          description: '끝나는 시각 (HH:MM) [선택]. 시작 시각 + 러닝타임이 이 시각 이전인 회차가 있는 공연만 포함 (예: "21:00" → 9시 전에 끝나는 공연, daysOfWeek와 함께 쓰면 해당 요일 회차 기준)',
+          pattern: '^\\d{2}:\\d{2}$',
+        },
+        childAge: {
+          type: 'number',
+          description: '함께 볼 아이 나이 [선택]. 만 나이(세), 영유아는 소수 가능 (예: 7, 2.5 → 30개월). 관람 연령(prfage)이 맞는 공연만 포함',
+          minimum: 0,
+          maximum: 18,
+        },
+        familyFriendly: {
+          type: 'boolean',
+          description: '아동 공연만 [선택]. true면 KOPIS 아동 공연(kidstate)으로 등록된 공연만 검색',
+        },
+        latitude: {
+          type: 'number',
+          description: '검색 중심 위도 [선택]. longitude와 함께 지정하면 공연장까지 거리로 검색 (예: 37.5572)',
+          minimum: -90,
+          maximum: 90,
+        },
+        longitude: {
+          type: 'number',
+          description: '검색 중심 경도 [선택]. latitude와 함께 지정 (예: 126.9245)',
+          minimum: -180,
+          maximum: 180,
+        },
+        landmark: {
+          type: 'string',
+          description: `검색 중심 랜드마크 [선택]. 좌표 대신 사용 가능. 예시: ${LANDMARK_EXAMPLES}`,
+        },
+        radiusKm: {
+          type: 'number',
+          description: '검색 반경 (km, 기본: 3, 최대: 30). 결과가 없으면 2배, 4배로 확장',
+          minimum: 0.5,
+          maximum: 30,
+        },
+        strictness: {
+          type: 'string',
+          enum: ['strict', 'normal', 'loose'],
+          description: '조건 완화 정도 [선택]. strict: 요청 조건 그대로만 검색, normal: 장르/위치/기간 완화 (기본), loose: 예산 상한(maxPrice)도 1.5배까지 완화',
+          default: 'normal',
+        },
+        allowRelax: {
+          type: 'array',
+          description: '완화를 허용할 조건 [선택]. 지정하면 strictness보다 우선 (예: ["genre", "date"] → 지역은 넓히지 않음, "종로구에서만")',
+          items: { type: 'string', enum: ['genre', 'location', 'date', 'price'] },
+        },
+        cursor: {
+          type: 'string',
+          description: '이전 검색 결과의 "더 보기" cursor. 이 값만 넘기면 같은 조건의 다음 결과를 반환합니다 (다른 파라미터는 무시).',
+        },
+      },
+      anyOf: [{ required: ['genreCode', 'startDate', 'endDate'] }, { required: ['cursor'] }],
+    },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'filter_free_events',
+    description: `💰 가격 우선 스마트 검색! 무료 공연을 최우선으로 검색합니다 (항상 오늘부터 30일 이내).
+    
+우선순위:
+1. 가격 (40%) - 무료 > 저렴한 순
+2. 날짜 (30%) - 오늘~30일 고정
+3. 장르 (20%)
+4. 위치 (10%)
+
+💵 minPrice/maxPrice로 관람료 범위를 지정하면 범위 안의 공연만 추천합니다.
+⚠️ startDate/endDate는 무시되며 항상 오늘~30일 범위로 고정됩니다.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        genreCode: {
+          type: 'string',
+          description: `장르 코드. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
+        },
+        startDate: {
+          type: 'string',
+          description: '공연 시작일 (무시됨 - 항상 오늘 날짜 사용)',
+        },
+        endDate: {
+          type: 'string',
+          description: '공연 종료일 (무시됨 - 항상 오늘+30일 사용)',
+        },
+        sidoCode: {
+          type: 'string',
+          description: `시도 코드 [선택]. 예시: ${SIDO_EXAMPLES}. 지역 이름도 가능 (예: "서울", "부산광역시")`,
+        },
+        limit: {
+          type: 'number',
+          description: '결과 개수 (기본: 20, 최대: 50)',
+          default: 20,
+          minimum: 1,
+          maximum: 50,
+        },
+        minPrice: {
+          type: 'number',
+          description: '최소 관람료 (원) [선택]. 가장 비싼 좌석이 이 금액 이상인 공연만 포함',
+          minimum: 0,
+        },
+        maxPrice: {
+          type: 'number',
+          description: '최대 관람료 (원) [선택]. 가장 싼 좌석이 이 금액 이하인 공연만 포함 (예: 30000 → "3만원 이하")',
+          minimum: 0,
+        },
+        daysOfWeek: {
+          type: 'array',
+          description: '공연 요일 [선택]. 해당 요일에 회차가 있는 공연만 포함 (예: ["sat", "sun"] → 주말, 월~금 → 평일)',
+          items: { type: 'string', enum: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] },
+        },
+        timeOfDay: {
+          type: 'string',
+          description: '관람 시간대 [선택]. matinee: 17시 이전 낮 공연, evening: 17시 이후 저녁 공연',
+          enum: ['matinee', 'evening'],
+        },
+        minRuntimeMinutes: {
+          type: 'number',
+          description: '최소 러닝타임 (분, 인터미션 포함) [선택]. 러닝타임(prfruntime)이 이 시간 이상인 공연만 포함',
+          minimum: 0,
+        },
+        maxRuntimeMinutes: {
+          type: 'number',
+          description: '최대 러닝타임 (분, 인터미션 포함) [선택]. 예: 90 → "1시간 30분 이내"',
+          minimum: 0,
+        },
+        endsBefore: {
+          type: 'string',
+          description: '끝나는 시각 (HH:MM) [선택]. 시작 시각 + 러닝타임이 이 시각 이전인 회차가 있는 공연만 포함 (예: "21:00" → 9시 전에 끝나는 공연, daysOfWeek와 함께 쓰면 해당 요일 회차 기준)',
+          pattern: '^\\d{2}:\\d{2}$',
+        },
+        childAge: {
+          type: 'number',
+          description: '함께 볼 아이 나이 [선택]. 만 나이(세), 영유아는 소수 가능 (예: 7, 2.5 → 30개월). 관람 연령(prfage)이 맞는 공연만 포함',
+          minimum: 0,
+          maximum: 18,
+        },
+        familyFriendly: {
+          type: 'boolean',
+          description: '아동 공연만 [선택]. true면 KOPIS 아동 공연(kidstate)으로 등록된 공연만 검색',
+        },
+        strictness: {
+          type: 'string',
+          enum: ['strict', 'normal', 'loose'],
+          description: '조건 완화 정도 [선택]. strict: 요청 조건 그대로만 검색, normal: 장르/위치 완화 (기본, 기간은 오늘~30일 고정)',
+          default: 'normal',
+        },
+        allowRelax: {
+          type: 'array',
+          description: '완화를 허용할 조건 [선택]. 지정하면 strictness보다 우선 (예: ["genre"] → 지역은 넓히지 않음)',
+          items: { type: 'string', enum: ['genre', 'location', 'date', 'price'] },
+        },
+        cursor: {
+          type: 'string',
+          description: '이전 검색 결과의 "더 보기" cursor. 이 값만 넘기면 같은 조건의 다음 결과를 반환합니다 (다른 파라미터는 무시).',
+        },
+      },
+      anyOf: [{ required: ['genreCode'] }, { required: ['cursor'] }],
+    },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_event_detail',
+    description: '공연 ID를 사용하여 상세 정보를 조회합니다. 시놉시스, 출연진, 관람료, 공연 시간, 연령 제한, 포스터 이미지, 예매 링크 등을 제공합니다.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        eventId: {
+          type: 'string',
+          description: '공연 ID (mt20id)',
+        },
+      },
+      required: ['eventId'],
+    },
+    outputSchema: EVENT_DETAIL_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'search_by_person',
+    description: `👤 배우·연출가 등 인물 이름으로 공연을 찾습니다. 예: "조승우 나오는 공연 있어?"
+
+현재 공연중이거나 공연예정인 공연의 출연진·제작진 색인에서 찾고, 인물의 역할(출연/제작진, 배역·직책)을 함께 보여줍니다.
+이름 일부("승우"), 띄어쓰기가 다른 이름("조 승우"), 초성("ㅈㅅㅇ")으로도 검색할 수 있습니다.
+색인은 백그라운드로 주기적으로 갱신되므로 막 등록된 공연은 아직 없을 수 있습니다.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: '인물 이름 (부분 일치, 예: "조승우", "승우", "ㅈㅅㅇ")',
+        },
+        role: {
+          type: 'string',
+          enum: ['cast', 'crew'],
+          description: '역할 [선택]. cast: 출연진만, crew: 제작진(연출·작곡 등)만. 생략 시 모두',
+        },
+        limit: {
+          type: 'number',
+          description: '결과 개수 (기본: 10, 최대: 30)',
+          default: 10,
+          minimum: 1,
+          maximum: 30,
+        },
+      },
+      required: ['name'],
+      additionalProperties: false,
+    },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'search_by_title',
+    description: `🔎 공연명(또는 공연장 이름)으로 공연을 찾습니다. 예: "레미제라블 언제 해?", "예술의전당에서 하는 공연"
+
+장르를 몰라도 제목만으로 검색하고, 같은 작품의 공연장·기간별 공연을 모두 보여줍니다 (공연중 → 공연예정 → 공연완료 순).
+띄어쓰기가 다른 제목("레미 제라블"), 일부("레미제"), 초성("ㄹㅁㅈㄹㅂ")으로도 찾을 수 있습니다.
+기간을 생략하면 1년 전부터 1년 후까지의 공연에서 찾습니다.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        title: {
+          type: 'string',
+          description: '공연명 (부분 일치, 예: "레미제라블", "레미 제라블", "ㄹㅁㅈㄹㅂ")',
+        },
+        venueName: {
+          type: 'string',
+          description: '공연시설명 [선택] (부분 일치, 예: "예술의전당", "블루스퀘어"). title 없이 공연장 이름만으로도 검색 가능',
+        },
+        genreCode: {
+          type: 'string',
+          description: `장르 코드 [선택]. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
+        },
+        sidoCode: {
+          type: 'string',
+          description: `시도 코드 [선택]. 예시: ${SIDO_EXAMPLES}. 지역 이름도 가능 (예: "서울", "부산광역시")`,
+        },
+        startDate: {
+          type: 'string',
+          description: '검색 시작일 (YYYYMMDD 형식) [선택]. 생략 시 1년 전',
+          pattern: '^\\d{8}$',
+        },
+        endDate: {
+          type: 'string',
+          description: '검색 종료일 (YYYYMMDD 형식) [선택]. 생략 시 1년 후',
+          pattern: '^\\d{8}$',
+        },
+        limit: {
+          type: 'number',
+          description: '결과 개수 (기본: 20, 최대: 50)',
+          default: 20,
+          minimum: 1,
+          maximum: 50,
+        },
+        includeDetails: {
+          type: 'boolean',
+          description: '상세 정보 포함 [선택]. true면 결과마다 관람료·러닝타임·관람 연령·출연진·공연 시간을 채워서 반환 (기본: false)',
+          default: false,
+        },
+      },
+      anyOf: [{ required: ['title'] }, { required: ['venueName'] }],
+      additionalProperties: false,
+    },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_trending_performances',
+    description: `🔥 인기도 우선 스마트 검색! KOPIS 박스오피스 예매 순위 기반 인기 공연을 추천합니다.
+    
+우선순위:
+1. 인기도 (40%) - 박스오피스 순위 (직전 기간 대비 순위 변동 포함)
+2. 개수 (30%) - 요청 개수 달성
+3. 장르 (20%)
+4. 날짜 (10%)
+
+박스오피스 집계가 비어 있으면 오픈런·마감임박 기반 추정 인기도로 대체합니다.
+해당 장르에 결과가 없으면 전체 장르로 자동 확장합니다.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        genreCode: {
+          type: 'string',
+          description: `장르 코드 [선택 - 전체 조회 시 생략]. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
+        },
+        sidoCode: {
+          type: 'string',
+          description: `시도 코드 [선택 - 전국 조회 시 생략]. 예시: ${SIDO_EXAMPLES}. 지역 이름도 가능 (예: "서울", "부산광역시")`,
+        },
+        period: {
+          type: 'string',
+          enum: ['day', 'week', 'month'],
+          description: '박스오피스 집계 기간 (day: 일간, week: 주간, month: 월간, 기본: week)',
+          default: 'week',
+        },
+        limit: {
+          type: 'number',
+          description: '결과 개수 (기본: 20, 최대: 50)',
+          default: 20,
+          minimum: 1,
+          maximum: 50,
+        },
+        includeDetails: {
+          type: 'boolean',
+          description: '상세 정보 포함 [선택]. true면 결과마다 관람료·러닝타임·관람 연령·출연진·공연 시간을 채워서 반환 (공연당 상세 조회로 느려질 수 있음, 기본: false)',
+          default: false,
+        },
+        strictness: {
+          type: 'string',
+          enum: ['strict', 'normal', 'loose'],
+          description: '조건 완화 정도 [선택]. strict: 요청 장르만, normal: 유사 장르 → 전체 장르로 완화 (기본)',
+          default: 'normal',
+        },
+        allowRelax: {
+          type: 'array',
+          description: '완화를 허용할 조건 [선택]. 인기 공연은 genre만 완화 (빈 배열이면 완화 안 함)',
+          items: { type: 'string', enum: ['genre', 'location', 'date', 'price'] },
+        },
+        cursor: {
+          type: 'string',
+          description: '이전 검색 결과의 "더 보기" cursor. 이 값만 넘기면 같은 조건의 다음 결과를 반환합니다 (다른 파라미터는 무시).',
+        },
+      },
+      additionalProperties: false,
+    },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_upcoming_openings',
+    description: `🎬 개막 예정 공연 스마트 검색! 기간 안에 막을 올리는 공연예정 공연을 개막일 순으로 찾습니다. 예: "다음 달 개막하는 뮤지컬"
+
+결과는 개막일 순으로 정렬하고 개막 주(월~일) 단위로 묶어서 보여줍니다.
+결과가 부족하면 공연 검색과 동일한 우선순위 기반 완화 전략(장르 → 위치 → 기간)으로 자동 확장합니다.
+기간을 생략하면 오늘부터 30일 안에 개막하는 공연을 찾습니다.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        genreCode: {
+          type: 'string',
+          description: `장르 코드 [선택 - 전체 조회 시 생략]. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
+        },
+        startDate: {
+          type: 'string',
+          description: '개막일 범위 시작 (YYYYMMDD 형식, 기본: 오늘)',
+          pattern: '^\\d{8}$',
+        },
+        endDate: {
+          type: 'string',
+          description: '개막일 범위 끝 (YYYYMMDD 형식, 기본: 오늘부터 30일)',
+          pattern: '^\\d{8}$',
+        },
+        sidoCode: {
+          type: 'string',
+          description: `시도 코드 [선택 - 전국 조회 시 생략]. 예시: ${SIDO_EXAMPLES}. 지역 이름도 가능 (예: "서울", "부산광역시")`,
+        },
+        gugunCode: {
+          type: 'string',
+          description: `구군 코드 4자리 [선택]. 예시: ${GUGUN_EXAMPLES}. 지역 이름도 가능 (예: "강남", "해운대구", "부산 중구")`,
+        },
+        limit: {
+          type: 'number',
+          description: '최소 결과 개수 (기본: 3, 최대: 50). 스마트 검색이 이 개수를 달성하려고 자동 완화합니다.',
+          default: 3,
+          minimum: 1,
+          maximum: 50,
+        },
+        includeDetails: {
+          type: 'boolean',
+          description: '상세 정보 포함 [선택]. true면 결과마다 관람료·러닝타임·관람 연령·출연진·공연 시간을 채워서 반환 (공연당 상세 조회로 느려질 수 있음, 기본: false)',
+          default: false,
+        },
+        strictness: {
+          type: 'string',
+          enum: ['strict', 'normal', 'loose'],
+          description: '조건 완화 정도 [선택]. strict: 요청 조건 그대로만 검색, normal/loose: 장르/위치/기간 완화 (기본 normal)',
+          default: 'normal',
+        },
+        allowRelax: {
+          type: 'array',
+          description: '완화를 허용할 조건 [선택]. 지정하면 strictness보다 우선 (예: ["genre"] → 지역·기간은 넓히지 않음)',
+          items: { type: 'string', enum: ['genre', 'location', 'date'] },
+        },
+        cursor: {
+          type: 'string',
+          description: '이전 검색 결과의 "더 보기" cursor. 이 값만 넘기면 같은 조건의 다음 결과를 반환합니다 (다른 파라미터는 무시).',
+        },
+      },
+      additionalProperties: false,
+    },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_closing_soon',
+    description: `⏰ 마감 임박 공연! 오늘부터 N일 안에 막을 내리는 공연을 찾습니다.
+
+정렬 기준:
+1. 마감 임박도 (60%) - 종료일이 가까울수록 높음
+2. 인기도 (40%) - KOPIS 주간 박스오피스 예매 순위
+
+각 공연에 "D-3" 같은 카운트다운을 표시하며, 종료일이 없는 오픈런 공연은 제외합니다.
+"이번 주에 끝나는 공연", "곧 내려가는 뮤지컬" 같은 질문에 사용하세요.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        genreCode: {
+          type: 'string',
+          description: `장르 코드 [선택 - 전체 조회 시 생략]. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
+        },
+        sidoCode: {
+          type: 'string',
+          description: `시도 코드 [선택 - 전국 조회 시 생략]. 예시: ${SIDO_EXAMPLES}. 지역 이름도 가능 (예: "서울", "부산광역시")`,
+        },
+        gugunCode: {
+          type: 'string',
+          description: `구군 코드 4자리 [선택]. 예시: ${GUGUN_EXAMPLES}. 지역 이름도 가능 (예: "강남", "해운대구", "부산 중구")`,
+        },
+        days: {
+          type: 'number',
+          description: '오늘부터 며칠 안에 끝나는 공연을 찾을지 (기본: 14, 최대: 60)',
+          default: 14,
+          minimum: 1,
+          maximum: 60,
+        },
+        limit: {
+          type: 'number',
+          description: '결과 개수 (기본: 10, 최대: 50)',
+          default: 10,
+          minimum: 1,
+          maximum: 50,
+        },
+        includeDetails: {
+          type: 'boolean',
+          description: '상세 정보 포함 [선택]. true면 결과마다 관람료·러닝타임·관람 연령·출연진·공연 시간을 채워서 반환 (공연당 상세 조회로 느려질 수 있음, 기본: false)',
+          default: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_family_performances',
+    description: `👨‍👩‍👧 가족 공연 스마트 검색! 아이와 함께 볼 수 있는 공연을 찾습니다. 예: "7살 아이랑 볼 수 있는 공연"
+
+• KOPIS 아동 공연(kidstate)을 먼저 찾고, 관람 연령(prfage)을 해석해 아이 나이에 맞는 공연만 보여줍니다.
+• 결과가 부족하면 가족 공연 전용 완화 경로로 확장합니다:
+  아동 공연 → 일반 공연 중 관람 가능 (아이 나이가 없으면 전체 관람가) → 유사 장르 → 인접 구/군 → 시/도 → 기간
+• 아이 나이 조건은 어느 단계에서도 완화하지 않습니다 ("만 7세 이상" 공연은 5살 아이 결과에 나오지 않음).
+• 결과마다 관람 연령·러닝타임·관람료를 함께 표시합니다.
+
+기간을 생략하면 오늘부터 30일 안의 공연을 찾습니다.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        childAge: {
+          type: 'number',
+          description: '함께 볼 아이 나이 [선택]. 만 나이(세), 영유아는 소수 가능 (예: 7, 2.5 → 30개월)',
+          minimum: 0,
+          maximum: 18,
+        },
+        genreCode: {
+          type: 'string',
+          description: `장르 코드 [선택 - 전체 조회 시 생략]. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
+        },
+        startDate: {
+          type: 'string',
+          description: '공연 시작일 (YYYYMMDD 형식, 기본: 오늘)',
+          pattern: '^\\d{8}$',
+        },
+        endDate: {
+          type: 'string',
+          description: '공연 종료일 (YYYYMMDD 형식, 기본: 오늘부터 30일)',
+          pattern: '^\\d{8}$',
+        },
+        sidoCode: {
+          type: 'string',
+          description: `시도 코드 [선택 - 전국 조회 시 생략]. 예시: ${SIDO_EXAMPLES}. 지역 이름도 가능 (예: "서울", "부산광역시")`,
+        },
+        gugunCode: {
+          type: 'string',
+          description: `구군 코드 4자리 [선택]. 예시: ${GUGUN_EXAMPLES}. 지역 이름도 가능 (예: "강남", "해운대구", "부산 중구")`,
+        },
+        limit: {
+          type: 'number',
+          description: '최소 결과 개수 (기본: 3, 최대: 50). 스마트 검색이 이 개수를 달성하려고 자동 완화합니다.',
+          default: 3,
+          minimum: 1,
+          maximum: 50,
+        },
+        maxPrice: {
+          type: 'number',
+          description: '최대 관람료 (원) [선택]. 가장 싼 좌석이 이 금액 이하인 공연만 포함',
+          minimum: 0,
+        },
+        daysOfWeek: {
+          type: 'array',
+          description: '공연 요일 [선택]. 해당 요일에 회차가 있는 공연만 포함 (예: ["sat", "sun"] → 주말)',
+          items: { type: 'string', enum: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] },
+        },
+        timeOfDay: {
+          type: 'string',
+          description: '관람 시간대 [선택]. matinee: 17시 이전 낮 공연, evening: 17시 이후 저녁 공연',
+          enum: ['matinee', 'evening'],
+        },
+        minRuntimeMinutes: {
+          type: 'number',
+          description: '최소 러닝타임 (분, 인터미션 포함) [선택]. 러닝타임(prfruntime)이 이 시간 이상인 공연만 포함',
+          minimum: 0,
+        },
+        maxRuntimeMinutes: {
+          type: 'number',
+          description: '최대 러닝타임 (분, 인터미션 포함) [선택]. 예: 90 → "1시간 30분 이내"',
+          minimum: 0,
+        },
+        endsBefore: {
+          type: 'string',
+          description: '끝나는 시각 (HH:MM) [선택]. 시작 시각 + 러닝타임이 이 시각 이전인 회차가 있는 공연만 포함 (예: "21:00" → 9시 전에 끝나는 공연, daysOfWeek와 함께 쓰면 해당 요일 회차 기준)',
+          pattern: '^\\d{2}:\\d{2}$',
+        },
+        latitude: {
+          type: 'number',
+          description: '검색 중심 위도 [선택]. longitude와 함께 지정하면 가까운 공연부터 반경 단위로 검색',
+          minimum: -90,
+          maximum: 90,
+        },
+        longitude: {
+          type: 'number',
+          description: '검색 중심 경도 [선택]. latitude와 함께 지정',
+          minimum: -180,
+          maximum: 180,
+        },
+        landmark: {
+          type: 'string',
+          description: `검색 중심 랜드마크 [선택]. 좌표 대신 사용 가능. 예시: ${LANDMARK_EXAMPLES}`,
+        },
+        radiusKm: {
+          type: 'number',
+          description: '검색 반경 (km, 기본: 3, 최대: 30)',
+          minimum: 0.5,
+          maximum: 30,
+        },
+        strictness: {
+          type: 'string',
+          enum: ['strict', 'normal', 'loose'],
+          description: '조건 완화 정도 [선택]. strict: 아동 공연·요청 조건 그대로만, normal: 일반 공연/장르/위치/기간 완화 (기본), loose: 예산 상한도 1.5배까지 완화',
+          default: 'normal',
+        },
+        allowRelax: {
+          type: 'array',
+          description: '완화를 허용할 조건 [선택]. audience: 아동 공연 → 일반 공연 (예: ["audience", "genre"] → 지역·기간은 넓히지 않음)',
+          items: { type: 'string', enum: ['audience', 'genre', 'location', 'date', 'price'] },
+        },
+        cursor: {
+          type: 'string',
+          description: '이전 검색 결과의 "더 보기" cursor. 이 값만 넘기면 같은 조건의 다음 결과를 반환합니다 (다른 파라미터는 무시).',
+        },
+      },
+      additionalProperties: false,
+    },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'search_festivals',
+    description: `🎉 스마트 검색 지원! 특정 지역과 기간에 열리는 축제를 검색합니다. 예: "이번 달 음악 페스티벌"
+
+검색 결과는 축제명 기준으로 참여 공연을 묶어서 보여줍니다.
+결과가 부족하면 공연 검색과 동일한 우선순위 기반 완화 전략(장르 → 위치 → 기간)으로 자동 확장합니다.
+📍 latitude/longitude 또는 landmark를 지정하면 가까운 축제부터 반경 단위로 검색합니다.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        genreCode: {
+          type: 'string',
+          description: `장르 코드. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
+        },
+        startDate: {
+          type: 'string',
+          description: '축제 시작일 (YYYYMMDD 형식)',
+          pattern: '^\\d{8}$',
+        },
+        endDate: {
+          type: 'string',
+          description: '축제 종료일 (YYYYMMDD 형식)',
+          pattern: '^\\d{8}$',
+        },
+        sidoCode: {
+          type: 'string',
+          description: `시도 코드 [선택]. 예시: ${SIDO_EXAMPLES}. 지역 이름도 가능 (예: "서울", "부산광역시")`,
+        },
+        gugunCode: {
+          type: 'string',
+          description: `구군 코드 4자리 [선택]. 예시: ${GUGUN_EXAMPLES}. 지역 이름도 가능 (예: "강남", "해운대구", "부산 중구")`,
+        },
+        limit: {
+          type: 'number',
+          description: '최소 결과 개수 (기본: 3, 최대: 50). 스마트 검색이 이 개수를 달성하려고 자동 완화합니다.',
+          default: 3,
+          minimum: 1,
+          maximum: 50,
+        },
+        includeDetails: {
+          type: 'boolean',
+          description: '상세 정보 포함 [선택]. true면 결과마다 관람료·러닝타임·관람 연령·출연진·공연 시간을 채워서 반환 (공연당 상세 조회로 느려질 수 있음, 기본: false)',
+          default: false,
+        },
+        daysOfWeek: {
+          type: 'array',
+          description: '공연 요일 [선택]. 해당 요일에 회차가 있는 공연만 포함 (예: ["sat", "sun"] → 주말, 월~금 → 평일)',
+          items: { type: 'string', enum: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] },
+        },
+        timeOfDay: {
+          type: 'string',
+          description: '관람 시간대 [선택]. matinee: 17시 이전 낮 공연, evening: 17시 이후 저녁 공연',
+          enum: ['matinee', 'evening'],
+        },
+        minRuntimeMinutes: {
+          type: 'number',
+          description: '최소 러닝타임 (분, 인터미션 포함) [선택]. 러닝타임(prfruntime)이 이 시간 이상인 공연만 포함',
+          minimum: 0,
+        },
+        maxRuntimeMinutes: {
+          type: 'number',
+          description: '최대 러닝타임 (분, 인터미션 포함) [선택]. 예: 90 → "1시간 30분 이내"',
+          minimum: 0,
+        },
+        endsBefore: {
+          type: 'string',
+          description: '끝나는 시각 (HH:MM) [선택]. 시작 시각 + 러닝타임이 이 시각 이전인 회차가 있는 공연만 포함 (예: "21:00" → 9시 전에 끝나는 공연, daysOfWeek와 함께 쓰면 해당 요일 회차 기준)',
+          pattern: '^\\d{2}:\\d{2}$',
+        },
+        childAge: {
+          type: 'number',
+          description: '함께 볼 아이 나이 [선택]. 만 나이(세), 영유아는 소수 가능 (예: 7, 2.5 → 30개월). 관람 연령(prfage)이 맞는 공연만 포함',
+          minimum: 0,
+          maximum: 18,
+        },
+        familyFriendly: {
+          type: 'boolean',
+          description: '아동 공연만 [선택]. true면 KOPIS 아동 공연(kidstate)으로 등록된 공연만 검색',
+        },
+        latitude: {
+          type: 'number',
+          description: '검색 중심 위도 [선택]. longitude와 함께 지정하면 공연장까지 거리로 검색 (예: 37.5572)',
+          minimum: -90,
+          maximum: 90,
+        },
+        longitude: {
+          type: 'number',
+          description: '검색 중심 경도 [선택]. latitude와 함께 지정 (예: 126.9245)',
+          minimum: -180,
+          maximum: 180,
+        },
+        landmark: {
+          type: 'string',
+          description: `검색 중심 랜드마크 [선택]. 좌표 대신 사용 가능. 예시: ${LANDMARK_EXAMPLES}`,
+        },
+        radiusKm: {
+          type: 'number',
+          description: '검색 반경 (km, 기본: 3, 최대: 30). 결과가 없으면 2배, 4배로 확장',
+          minimum: 0.5,
+          maximum: 30,
+        },
+        strictness: {
+          type: 'string',
+          enum: ['strict', 'normal', 'loose'],
+          description: '조건 완화 정도 [선택]. strict: 요청 조건 그대로만 검색, normal: 장르/위치/기간 완화 (기본), loose: 예산 상한(maxPrice)도 1.5배까지 완화',
+          default: 'normal',
+        },
+        allowRelax: {
+          type: 'array',
+          description: '완화를 허용할 조건 [선택]. 지정하면 strictness보다 우선 (예: ["genre", "date"] → 지역은 넓히지 않음, "종로구에서만")',
+          items: { type: 'string', enum: ['genre', 'location', 'date', 'price'] },
+        },
+        cursor: {
+          type: 'string',
+          description: '이전 검색 결과의 "더 보기" cursor. 이 값만 넘기면 같은 조건의 다음 결과를 반환합니다 (다른 파라미터는 무시).',
+        },
+      },
+      anyOf: [{ required: ['genreCode', 'startDate', 'endDate'] }, { required: ['cursor'] }],
+    },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
   },
   {
-    name: 'search_events_by_location',
-    description: `🎯 스마트 검색 지원! 특정 지역과 기간의 공연을 검색합니다. 
-    
-4단계 지능형 완화 전략:
-• Level 1: 요청 조건 100% 일치
-• Level 2: 장르 OR 위치 중 하나만 완화
-• Level 3: 장르 + 위치 동시 완화
-• Level 4: 기간까지 확장 (이번달 전체)
+    name: 'get_awarded_performances',
+    description: `🏆 수상작 스마트 검색! KOPIS 수상작 목록에서 관람 가능한 공연을 추천합니다. 예: "수상작 위주로 추천해줘"
 
-우선순위 자동 분석:
-• "다음주" 등 특정 기간 → 날짜 우선
-• 장르/위치는 유사한 것으로 점진적 확장`,
+우선순위:
+1. 날짜 (40%) - 관람 가능 기간
+2. 수상 (30%) - 수상 내역이 많을수록 우선
+3. 장르 (20%)
+4. 위치 (10%)
+
+기간을 생략하면 오늘부터 90일 이내 공연을 검색합니다.
+📍 latitude/longitude 또는 landmark를 지정하면 가까운 수상작부터 반경 단위로 검색합니다.`,
     inputSchema: {
       type: 'object',
       properties: {
         genreCode: {
           type: 'string',
-          description: `장르 코드. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
+          description: `장르 코드 [선택 - 전체 조회 시 생략]. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
         },
         startDate: {
           type: 'string',
-          description: '공연 시작일 (YYYYMMDD 형식)',
+          description: '공연 시작일 (YYYYMMDD 형식, 기본: 오늘)',
           pattern: '^\\d{8}$',
         },
         endDate: {
           type: 'string',
-          description: '공연 종료일 (YYYYMMDD 형식)',
+          description: '공연 종료일 (YYYYMMDD 형식, 기본: 오늘+90일)',
           pattern: '^\\d{8}$',
         },
         sidoCode: {
           type: 'string',
-          description: `시도 코드 [선택]. 예시: ${SIDO_EXAMPLES}`,
+          description: `시도 코드 [선택]. 예시: ${SIDO_EXAMPLES}. 지역 이름도 가능 (예: "서울", "부산광역시")`,
         },
         gugunCode: {
           type: 'string',
-          description: `구군 코드 4자리 [선택]. 예시: ${GUGUN_EXAMPLES}. 강남구는 1168, 종로구는 1111입니다.`,
+          description: `구군 코드 4자리 [선택]. 예시: ${GUGUN_EXAMPLES}. 지역 이름도 가능 (예: "강남", "해운대구", "부산 중구")`,
         },
         limit: {
           type: 'number',
@@ -101,39 +972,105 @@ const tools: Tool[] = [
           minimum: 1,
           maximum: 50,
         },
+        includeDetails: {
+          type: 'boolean',
+          description: '상세 정보 포함 [선택]. true면 결과마다 관람료·러닝타임·관람 연령·출연진·공연 시간을 채워서 반환 (공연당 상세 조회로 느려질 수 있음, 기본: false)',
+          default: false,
+        },
+        daysOfWeek: {
+          type: 'array',
+          description: '공연 요일 [선택]. 해당 요일에 회차가 있는 공연만 포함 (예: ["sat", "sun"] → 주말, 월~금 → 평일)',
+          items: { type: 'string', enum: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] },
+        },
+        timeOfDay: {
+          type: 'string',
+          description: '관람 시간대 [선택]. matinee: 17시 이전 낮 공연, evening: 17시 이후 저녁 공연',
+          enum: ['matinee', 'evening'],
+        },
+        minRuntimeMinutes: {
+          type: 'number',
+          description: '최소 러닝타임 (분, 인터미션 포함) [선택]. 러닝타임(prfruntime)이 이 시간 이상인 공연만 포함',
+          minimum: 0,
+        },
+        maxRuntimeMinutes: {
+          type: 'number',
+          description: '최대 러닝타임 (분, 인터미션 포함) [선택]. 예: 90 → "1시간 30분 이내"',
+          minimum: 0,
+        },
+        endsBefore: {
+          type: 'string',
+          description: '끝나는 시각 (HH:MM) [선택]. 시작 시각 + 러닝타임이 이 시각 이전인 회차가 있는 공연만 포함 (예: "21:00" → 9시 전에 끝나는 공연, daysOfWeek와 함께 쓰면 해당 요일 회차 기준)',
+          pattern: '^\\d{2}:\\d{2}$',
+        },
+        childAge: {
+          type: 'number',
+          description: '함께 볼 아이 나이 [선택]. 만 나이(세), 영유아는 소수 가능 (예: 7, 2.5 → 30개월). 관람 연령(prfage)이 맞는 공연만 포함',
+          minimum: 0,
+          maximum: 18,
+        },
+        familyFriendly: {
+          type: 'boolean',
+          description: '아동 공연만 [선택]. true면 KOPIS 아동 공연(kidstate)으로 등록된 공연만 검색',
+        },
+        latitude: {
+          type: 'number',
+          description: '검색 중심 위도 [선택]. longitude와 함께 지정하면 공연장까지 거리로 검색 (예: 37.5572)',
+          minimum: -90,
+          maximum: 90,
+        },
+        longitude: {
+          type: 'number',
+          description: '검색 중심 경도 [선택]. latitude와 함께 지정 (예: 126.9245)',
+          minimum: -180,
+          maximum: 180,
+        },
+        landmark: {
+          type: 'string',
+          description: `검색 중심 랜드마크 [선택]. 좌표 대신 사용 가능. 예시: ${LANDMARK_EXAMPLES}`,
+        },
+        radiusKm: {
+          type: 'number',
+          description: '검색 반경 (km, 기본: 3, 최대: 30). 결과가 없으면 2배, 4배로 확장',
+          minimum: 0.5,
+          maximum: 30,
+        },
+        strictness: {
+          type: 'string',
+          enum: ['strict', 'normal', 'loose'],
+          description: '조건 완화 정도 [선택]. strict: 요청 조건 그대로만 검색, normal: 장르/위치/기간 완화 (기본), loose: 예산 상한(maxPrice)도 1.5배까지 완화',
+          default: 'normal',
+        },
+        allowRelax: {
+          type: 'array',
+          description: '완화를 허용할 조건 [선택]. 지정하면 strictness보다 우선 (예: ["genre", "date"] → 지역은 넓히지 않음, "종로구에서만")',
+          items: { type: 'string', enum: ['genre', 'location', 'date', 'price'] },
+        },
+        cursor: {
+          type: 'string',
+          description: '이전 검색 결과의 "더 보기" cursor. 이 값만 넘기면 같은 조건의 다음 결과를 반환합니다 (다른 파라미터는 무시).',
+        },
       },
-      required: ['genreCode', 'startDate', 'endDate'],
+      additionalProperties: false,
     },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
   },
   {
-    name: 'filter_free_events',
-    description: `💰 가격 우선 스마트 검색! 무료 공연을 최우선으로 검색합니다 (항상 오늘부터 30일 이내).
-    
-우선순위:
-1. 가격 (40%) - 무료 > 저렴한 순
-2. 날짜 (30%) - 오늘~30일 고정
-3. 장르 (20%)
-4. 위치 (10%)
-
-⚠️ startDate/endDate는 무시되며 항상 오늘~30일 범위로 고정됩니다.`,
+    name: 'search_venues',
+    description: '공연장(공연시설)을 이름이나 지역으로 검색합니다. 예: "예술의전당", "블루스퀘어". 결과의 공연장ID로 상세정보와 공연 목록을 조회할 수 있습니다.',
     inputSchema: {
       type: 'object',
       properties: {
-        genreCode: {
-          type: 'string',
-          description: `장르 코드. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
-        },
-        startDate: {
+        venueName: {
           type: 'string',
-          description: '공연 시작일 (무시됨 - 항상 오늘 날짜 사용)',
+          description: '공연장 이름 (일부만 입력해도 검색됨) [선택]',
         },
-        endDate: {
+        sidoCode: {
           type: 'string',
-          description: '공연 종료일 (무시됨 - 항상 오늘+30일 사용)',
+          description: `시도 코드 [선택]. 예시: ${SIDO_EXAMPLES}. 지역 이름도 가능 (예: "서울", "부산광역시")`,
         },
-        sidoCode: {
+        gugunCode: {
           type: 'string',
-          description: `시도 코드 [선택]. 예시: ${SIDO_EXAMPLES}`,
+          description: `구군 코드 4자리 [선택]. 예시: ${GUGUN_EXAMPLES}. 지역 이름도 가능 (예: "강남", "해운대구", "부산 중구")`,
         },
         limit: {
           type: 'number',
@@ -143,40 +1080,50 @@ const tools: Tool[] = [
           maximum: 50,
         },
       },
-      required: ['genreCode'],
+      additionalProperties: false,
     },
+    outputSchema: VENUE_LIST_OUTPUT_SCHEMA,
   },
   {
-    name: 'get_event_detail',
-    description: '공연 ID를 사용하여 상세 정보를 조회합니다. 시놉시스, 출연진, 관람료, 공연 시간, 연령 제한, 포스터 이미지, 예매 링크 등을 제공합니다.',
+    name: 'get_venue_detail',
+    description: '공연장ID(mt10id)로 공연장 상세정보를 조회합니다. 주소, 좌표, 객석 수, 공연장(홀) 목록, 주차장·레스토랑 등 편의시설 정보를 제공합니다.',
     inputSchema: {
       type: 'object',
       properties: {
-        eventId: {
+        venueId: {
           type: 'string',
-          description: '공연 ID (mt20id)',
+          description: '공연장 ID (mt10id, 예: FC000001)',
         },
       },
-      required: ['eventId'],
+      required: ['venueId'],
     },
+    outputSchema: VENUE_DETAIL_OUTPUT_SCHEMA,
   },
   {
-    name: 'get_trending_performances',
-    description: `🔥 인기도 우선 스마트 검색! KOPIS 박스오피스 기반 인기 공연을 추천합니다.
-    
-우선순위:
-1. 인기도 (40%) - 오픈런(+30), 공연중(+10), 14일내 종료(+20)
-2. 개수 (30%) - 요청 개수 달성
-3. 장르 (20%)
-4. 날짜 (10%)
-
-해당 장르에 결과가 없으면 전체 장르로 자동 확장합니다.`,
+    name: 'get_events_at_venue',
+    description: `특정 공연장에서 열리는 공연 목록을 조회합니다. 예: "예술의전당에서 뭐 해?"
+venueId를 모르면 해당 공연장의 공연 ID(eventId)를 주면 상세정보의 공연장ID를 사용합니다.
+기간을 생략하면 오늘부터 90일 이내 공연을 조회합니다.`,
     inputSchema: {
       type: 'object',
       properties: {
-        genreCode: {
+        venueId: {
           type: 'string',
-          description: `장르 코드 [선택 - 전체 조회 시 생략]. 사용 가능한 코드: ${GENRE_EXAMPLES}`,
+          description: '공연장 ID (mt10id) [venueId 또는 eventId 중 하나 필수]',
+        },
+        eventId: {
+          type: 'string',
+          description: '해당 공연장에서 열리는 공연 ID (mt20id) [venueId 또는 eventId 중 하나 필수]',
+        },
+        startDate: {
+          type: 'string',
+          description: '조회 시작일 (YYYYMMDD 형식, 기본: 오늘)',
+          pattern: '^\\d{8}$',
+        },
+        endDate: {
+          type: 'string',
+          description: '조회 종료일 (YYYYMMDD 형식, 기본: 오늘+90일)',
+          pattern: '^\\d{8}$',
         },
         limit: {
           type: 'number',
@@ -185,9 +1132,14 @@ const tools: Tool[] = [
           minimum: 1,
           maximum: 50,
         },
+        cursor: {
+          type: 'string',
+          description: '이전 검색 결과의 "더 보기" cursor. 이 값만 넘기면 같은 공연장의 다음 결과를 반환합니다 (다른 파라미터는 무시).',
+        },
       },
       additionalProperties: false,
     },
+    outputSchema: EVENT_LIST_OUTPUT_SCHEMA,
   },
 ];
 
@@ -198,16 +1150,30 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
 
 // Call tool handler
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+  const { name, arguments: rawArgs } = request.params;
 
   try {
+    // sidoCode/gugunCode에 지역 이름("강남", "부산 중구")이 오면 코드로 변환
+    const acceptsGugun = Boolean(tools.find(tool => tool.name === name)?.inputSchema.properties?.gugunCode);
+    const args = rawArgs && resolveLocationArgs(rawArgs, { acceptsGugun });
+
     const apiKey = config.kopisApiKey;
     if (!apiKey) {
       throw new Error('KOPIS API key is required. Please set KOPIS_API_KEY environment variable.');
     }
     
-    const kopisService = new KopisService(apiKey);
-    const smartSearch = new SmartSearchService(kopisService);
+    const kopisService = new KopisService(apiKey, {
+      pageConcurrency: config.kopisPageConcurrency,
+      maxPages: config.kopisMaxPages,
+      cache: cacheService,
+      hydrationBudgetMs: config.hydrationBudgetMs,
+    });
+    const smartSearch = new SmartSearchService(kopisService, {
+      concurrency: config.searchConcurrency,
+      budgetMs: config.searchBudgetMs,
+      genreGraph,
+    });
+    const personSearch = new PersonSearchService(kopisService, personIndex, config.searchConcurrency);
 
     let result: any;
 
@@ -222,6 +1188,77 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: markdown,
             },
           ],
+          structuredContent: { genres: result },
+        };
+      }
+
+      case 'resolve_location': {
+        if (!args || !args.query) {
+          throw new Error('query is required for resolve_location');
+        }
+        result = resolveLocation(args.query as string, args.sidoCode as string | undefined);
+        const markdown = kopisService.formatLocationResolutionMarkdown(result);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+
+      case 'ask_performances': {
+        if (!args || (!args.query && !args.cursor)) {
+          throw new Error('query is required for ask_performances');
+        }
+
+        // 💬 자연어 질의 → 알맞은 검색 도구로 스마트 검색
+        result = await smartSearch.ask(args);
+        const parsedQuery = result.parsedQuery;
+        const listData = {
+          events: result.events,
+          message: result.message,
+          offset: result.offset,
+          nextCursor: result.nextCursor,
+        };
+
+        let listMarkdown: string;
+        if (parsedQuery.toolName === 'get_trending_performances') {
+          listMarkdown = kopisService.formatTrendingMarkdown({
+            performances: result.events,
+            count: result.events.length,
+            message: result.message,
+            scoreInfo: '스마트 검색으로 최적화된 결과입니다.',
+            nextCursor: result.nextCursor,
+          });
+        } else if (parsedQuery.toolName === 'search_festivals') {
+          listMarkdown = kopisService.formatFestivalsMarkdown(listData);
+        } else if (parsedQuery.toolName === 'get_upcoming_openings') {
+          listMarkdown = kopisService.formatUpcomingOpeningsMarkdown(listData);
+        } else if (parsedQuery.toolName === 'get_family_performances') {
+          listMarkdown = kopisService.formatEventsMarkdown({ ...listData, title: '👨‍👩‍👧 가족 공연 추천' });
+        } else {
+          listMarkdown = kopisService.formatEventsMarkdown(listData);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: kopisService.formatQueryInterpretationMarkdown(parsedQuery) + listMarkdown,
+            },
+          ],
+          structuredContent: toStructuredEventList(result, {
+            interpretation: {
+              query: parsedQuery.query,
+              toolName: parsedQuery.toolName,
+              args: parsedQuery.args,
+              lines: parsedQuery.interpretation,
+              locationCandidates: parsedQuery.locationCandidates,
+            },
+          }),
         };
       }
 
@@ -235,6 +1272,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const markdown = kopisService.formatEventsMarkdown({
           events: result.events,
           message: result.message,
+          offset: result.offset,
+          nextCursor: result.nextCursor,
         });
         
         return {
@@ -244,6 +1283,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: markdown,
             },
           ],
+          structuredContent: toStructuredEventList(result),
         };
       }
 
@@ -256,11 +1296,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result = await smartSearch.search(name, args);
         
         // 무료/유료 분리
-        const freeEvents = result.events.filter((e: any) =>
-          e.pcseguidance?.toLowerCase().includes('무료') ||
-          e.pcseguidance === '0' ||
-          e.pcseguidance === '0원'
-        );
+        const freeEvents = result.events.filter((e: Performance) => e.price.isFree);
         
         const markdown = kopisService.formatFreeEventsMarkdown({
           events: result.events,
@@ -268,6 +1304,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           paidCount: result.events.length - freeEvents.length,
           message: result.message,
           dateRange: '오늘 ~ 30일 후',
+          offset: result.offset,
+          nextCursor: result.nextCursor,
         });
         
         return {
@@ -277,6 +1315,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: markdown,
             },
           ],
+          structuredContent: toStructuredEventList(result, {
+            freeCount: freeEvents.length,
+            paidCount: result.events.length - freeEvents.length,
+          }),
         };
       }
 
@@ -285,6 +1327,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error('eventId is required for get_event_detail');
         }
         result = await kopisService.getEventDetail(args.eventId as string);
+        // 조회한 상세의 출연진·제작진도 색인 (다음 수집 때 저장)
+        if (result) {
+          personIndex.add(result);
+        }
         const markdown = kopisService.formatEventDetailMarkdown(result);
         return {
           content: [
@@ -293,6 +1339,56 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: markdown,
             },
           ],
+          structuredContent: { event: result ? toStructuredEventDetail(result) : null },
+        };
+      }
+
+      case 'search_by_person': {
+        if (!args || !args.name) {
+          throw new Error('name is required for search_by_person');
+        }
+        // 👤 출연진·제작진 색인 검색
+        result = await personSearch.search({
+          name: String(args.name),
+          role: args.role as PersonRole | undefined,
+          limit: args.limit as number | undefined,
+        });
+        const markdown = kopisService.formatPersonSearchMarkdown(result);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: toStructuredEventList(result),
+        };
+      }
+
+      case 'search_by_title': {
+        if (!args || (!args.title && !args.venueName)) {
+          throw new Error('title or venueName is required for search_by_title');
+        }
+        // 🔎 공연명·공연장 이름 검색 (KOPIS shprfnm / shprfnmfct)
+        result = await kopisService.searchByTitle({
+          title: args.title as string | undefined,
+          venueName: args.venueName as string | undefined,
+          genreCode: args.genreCode as string | undefined,
+          sidoCode: args.sidoCode as string | undefined,
+          startDate: args.startDate as string | undefined,
+          endDate: args.endDate as string | undefined,
+          limit: args.limit as number | undefined,
+          includeDetails: args.includeDetails as boolean | undefined,
+        });
+        const markdown = kopisService.formatTitleSearchMarkdown(result);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: toStructuredEventList(result),
         };
       }
 
@@ -304,6 +1400,169 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           count: result.events.length,
           message: result.message,
           scoreInfo: '스마트 검색으로 최적화된 결과입니다.',
+          nextCursor: result.nextCursor,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: toStructuredEventList(result),
+        };
+      }
+
+      case 'get_upcoming_openings': {
+        // 🎬 개막 예정 공연 스마트 검색 (개막일 순)
+        result = await smartSearch.search(name, args || {});
+        const markdown = kopisService.formatUpcomingOpeningsMarkdown({
+          events: result.events,
+          message: result.message,
+          offset: result.offset,
+          nextCursor: result.nextCursor,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: toStructuredEventList(result),
+        };
+      }
+
+      case 'get_closing_soon': {
+        // ⏰ 마감 임박 공연 (종료일 + 박스오피스 순위)
+        result = await kopisService.getClosingSoon(args || {});
+        const markdown = kopisService.formatClosingSoonMarkdown(result);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: toStructuredEventList({
+            events: result.performances,
+            message: result.message,
+          }),
+        };
+      }
+
+      case 'get_family_performances': {
+        // 👨‍👩‍👧 가족 공연 스마트 검색 (아동 공연 → 관람 연령이 맞는 일반 공연)
+        result = await smartSearch.search(name, args || {});
+        const markdown = kopisService.formatEventsMarkdown({
+          title: '👨‍👩‍👧 가족 공연 추천',
+          events: result.events,
+          message: result.message,
+          offset: result.offset,
+          nextCursor: result.nextCursor,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: toStructuredEventList(result),
+        };
+      }
+
+      case 'search_festivals': {
+        if (!args) {
+          throw new Error('Arguments are required for search_festivals');
+        }
+
+        // 🎉 축제 스마트 검색
+        result = await smartSearch.search(name, args);
+        const markdown = kopisService.formatFestivalsMarkdown({
+          events: result.events,
+          message: result.message,
+          offset: result.offset,
+          nextCursor: result.nextCursor,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: toStructuredEventList(result),
+        };
+      }
+
+      case 'get_awarded_performances': {
+        // 🏆 수상작 스마트 검색
+        result = await smartSearch.search(name, args || {});
+        const markdown = kopisService.formatEventsMarkdown({
+          events: result.events,
+          message: result.message,
+          offset: result.offset,
+          nextCursor: result.nextCursor,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: toStructuredEventList(result),
+        };
+      }
+
+      case 'search_venues': {
+        result = await kopisService.searchVenues(args || {});
+        const markdown = kopisService.formatVenuesMarkdown(result);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: {
+            message: result.message,
+            count: result.venues.length,
+            venues: result.venues.map(toStructuredVenue),
+          },
+        };
+      }
+
+      case 'get_venue_detail': {
+        if (!args || !args.venueId) {
+          throw new Error('venueId is required for get_venue_detail');
+        }
+        result = await kopisService.getVenueDetail(args.venueId as string);
+        const markdown = kopisService.formatVenueDetailMarkdown(result);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: markdown,
+            },
+          ],
+          structuredContent: { venue: result },
+        };
+      }
+
+      case 'get_events_at_venue': {
+        if (!args || (!args.venueId && !args.eventId && !args.cursor)) {
+          throw new Error('venueId or eventId is required for get_events_at_venue');
+        }
+        result = await kopisService.getEventsAtVenue(args);
+        const markdown = kopisService.formatEventsMarkdown({
+          events: result.events,
+          message: result.message,
+          offset: result.offset,
+          nextCursor: result.nextCursor,
         });
         return {
           content: [
@@ -312,6 +1571,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: markdown,
             },
           ],
+          structuredContent: toStructuredEventList(
+            result,
+            result.venue ? { venue: { id: result.venue.mt10id, name: result.venue.fcltynm } } : {}
+          ),
         };
       }
 
@@ -354,14 +1617,28 @@ const httpServer = app.listen(PORT, () => {
   console.log(`[Transport] Streamable HTTP (Stateless)`);
   console.log(`[Endpoint] POST http://localhost:${PORT}/mcp`);
   console.log(`[Health] GET http://localhost:${PORT}/health`);
+
+  // 저장된 인물 색인을 불러온 뒤 백그라운드 수집 시작
+  personIndex
+    .load()
+    .then(() => {
+      console.log(`[PersonIndex] Loaded ${personIndex.getStats().events} performances from ${config.personIndexFile}`);
+    })
+    .catch((error) => console.error('Failed to load person index, starting empty:', error))
+    .finally(() => personCrawler.start());
 });
 
 // Graceful shutdown
 const shutdown = () => {
   console.log('[Server] Shutting down gracefully...');
+  personCrawler.stop();
   httpServer.close(() => {
     console.log('[Server] HTTP server closed.');
-    process.exit(0);
+    // 상세 조회로 추가된 인물 색인 저장
+    personIndex
+      .save()
+      .catch((error) => console.error(error))
+      .finally(() => process.exit(0));
   });
 
   setTimeout(() => {
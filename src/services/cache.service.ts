@@ -0,0 +1,139 @@
+import { CacheStats, CacheStore, CacheTtlClass } from '../types/cache.types.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// 엔드포인트 종류별 TTL (ms)
+export const CACHE_TTLS: Record<CacheTtlClass, number> = {
+  list: 10 * MINUTE,      // 공연/축제/수상작/공연시설 목록
+  detail: 6 * HOUR,       // 공연·공연시설 상세
+  boxoffice: 30 * MINUTE, // 박스오피스 (하루 단위 집계)
+};
+
+/**
+ * KOPIS 응답 캐시
+ * - 저장소(CacheStore)는 메모리 LRU / 파일 중 선택
+ * - 같은 키의 동시 요청은 진행 중인 요청 하나를 공유 (공유한 요청은 적중으로 집계)
+ */
+export class CacheService {
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+  private errors = 0;
+  private byEndpoint: Record<string, { hits: number; misses: number }> = {};
+  private inflight = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private store: CacheStore,
+    private ttls: Record<CacheTtlClass, number> = CACHE_TTLS
+  ) {}
+
+  /**
+   * 캐시에 있으면 반환, 없으면 loader 결과를 저장 후 반환
+   */
+  async getOrLoad<T>(
+    endpoint: string,
+    key: string,
+    ttlClass: CacheTtlClass,
+    loader: () => Promise<T>
+  ): Promise<T> {
+    const cached = await this.read(key);
+    if (cached !== undefined) {
+      this.record(endpoint, true);
+      return cached as T;
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.record(endpoint, true);
+      return pending as Promise<T>;
+    }
+
+    this.record(endpoint, false);
+
+    const promise = loader()
+      .then(async (value) => {
+        await this.write(key, value, ttlClass);
+        return value;
+      })
+      .finally(() => {
+        this.inflight.delete(key);
+      });
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const total = this.hits + this.misses;
+    let entries = 0;
+    try {
+      entries = await this.store.size();
+    } catch {
+      this.errors++;
+    }
+
+    return {
+      store: this.store.name,
+      entries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? Math.round((this.hits / total) * 1000) / 1000 : 0,
+      writes: this.writes,
+      errors: this.errors,
+      byEndpoint: { ...this.byEndpoint },
+    };
+  }
+
+  private async read(key: string): Promise<unknown | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        await this.store.delete(key);
+        return undefined;
+      }
+
+      return entry.value;
+    } catch {
+      // 캐시 장애는 조회 실패로만 취급하고 API 호출로 진행
+      this.errors++;
+      return undefined;
+    }
+  }
+
+  private async write(key: string, value: unknown, ttlClass: CacheTtlClass): Promise<void> {
+    const ttl = this.ttls[ttlClass];
+
+    try {
+      await this.store.set(key, {
+        value,
+        expiresAt: Number.isFinite(ttl) ? Date.now() + ttl : null,
+      });
+      this.writes++;
+    } catch {
+      this.errors++;
+    }
+  }
+
+  private record(endpoint: string, hit: boolean): void {
+    if (hit) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+
+    const stats = this.byEndpoint[endpoint] || { hits: 0, misses: 0 };
+    if (hit) {
+      stats.hits++;
+    } else {
+      stats.misses++;
+    }
+    this.byEndpoint[endpoint] = stats;
+  }
+}
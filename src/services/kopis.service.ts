@@ -1,17 +1,105 @@
 import axios from "axios";
 import { XMLParser } from "fast-xml-parser";
-import { GENRE_CODES, getGenreName, getAreaName } from "../constants/kopis-codes.js";
+import { GENRE_CODES, getGenreName, getAreaName, extractSidoCode } from "../constants/kopis-codes.js";
+import { CacheService } from "./cache.service.js";
+import { CacheTtlClass } from "../types/cache.types.js";
+import { ParsedQuery } from "../types/search.types.js";
+import {
+  ClosingSoonPerformance,
+  DayOfWeek,
+  GeoPoint,
+  Performance,
+  PerformanceDetail,
+  PerformanceState,
+  PersonSearchPerformance,
+  TimeOfDay,
+  TrendingPerformance,
+} from "../types/performance.types.js";
+import { PersonCredit } from "../types/person.types.js";
+import { LocationMatchType, LocationResolution } from "../types/location.types.js";
+import {
+  formatKopisDate,
+  toBoxOfficePerformance,
+  toPerformanceDetail,
+  toPerformances,
+  toYmd,
+} from "../utils/performance-mapper.js";
+import { matchesPriceRange } from "../utils/price-parser.js";
+import { childAgeToMonths, formatChildAge, isSuitableForAge } from "../utils/age-parser.js";
+import { formatMinutes, latestStartTime, matchesRuntimeRange } from "../utils/runtime-parser.js";
+import {
+  DAYS_OF_WEEK,
+  DAY_NAMES,
+  TIME_OF_DAY_LABELS,
+  formatSchedule,
+  matchesSchedule,
+} from "../utils/schedule-parser.js";
+import { mapWithConcurrency, runUntilDeadline } from "../utils/concurrency.js";
+import { encodeCursor, decodeCursor } from "../utils/cursor.js";
+import { MIN_TITLE_MATCH_SCORE, scoreTitleMatch, titleSearchTerms, titleWorkKey } from "../utils/title-matcher.js";
+import {
+  DEFAULT_RADIUS_KM,
+  MAX_RADIUS_KM,
+  SearchCenter,
+  formatDistance,
+  haversineKm,
+  resolveSearchCenter,
+} from "../utils/geo.js";
+
+// 공연 목록 엔드포인트 (일반 공연 / 축제 / 수상작)
+type EventListEndpoint = "pblprfr" | "prffest" | "prfawad";
+
+// 상세 정보가 있어야 판단할 수 있는 조건 (관람료, 공연 시간, 관람 연령, 러닝타임)
+// - familyFriendly는 목록 조회 단계에서 KOPIS 아동 공연(kidstate=Y)으로 거름
+export interface DetailFilters {
+  minPrice?: number; // 원
+  maxPrice?: number; // 원
+  daysOfWeek?: DayOfWeek[];
+  timeOfDay?: TimeOfDay;
+  childAge?: number; // 함께 볼 아이 나이 (만 나이, 세) - 관람 연령이 맞는 공연만
+  familyFriendly?: boolean;
+  minRuntimeMinutes?: number; // 러닝타임 (분, 인터미션 포함)
+  maxRuntimeMinutes?: number;
+  endsBefore?: string; // "HH:MM" - 시작 시각 + 러닝타임이 이 시각 이전인 회차가 있는 공연만
+}
 
-interface SearchParams {
-  genreCode: string;
+// 거리 검색 조건 (좌표 또는 랜드마크 중심 반경)
+export interface GeoFilter {
+  latitude?: number;
+  longitude?: number;
+  landmark?: string; // 예: "홍대입구역" (좌표가 있으면 안내용 이름으로만 사용)
+  radiusKm?: number;
+}
+
+interface SearchParams extends DetailFilters, GeoFilter {
+  genreCode?: string;
   startDate: string;
   endDate: string;
   sidoCode?: string;
   gugunCode?: string;
   limit?: number;
+  expandArea?: boolean; // false면 요청 지역(구/군, 시/도, 반경)을 넓히지 않음 (기본 true)
+  includeDetails?: boolean; // 상세 정보(관람료·러닝타임·관람 연령·출연진·공연 시간)를 채워서 반환
+}
+
+// 가족 공연 (기간 생략 시 오늘부터 30일)
+interface FamilyParams extends Omit<SearchParams, "startDate" | "endDate"> {
+  startDate?: string;
+  endDate?: string;
+}
+
+interface AwardedParams extends DetailFilters, GeoFilter {
+  genreCode?: string;
+  startDate?: string;
+  endDate?: string;
+  sidoCode?: string;
+  gugunCode?: string;
+  limit?: number;
+  expandArea?: boolean;
+  includeDetails?: boolean;
 }
 
-interface FreeEventsParams {
+interface FreeEventsParams extends DetailFilters {
   genreCode: string;
   startDate?: string;
   endDate?: string;
@@ -21,18 +109,214 @@ interface FreeEventsParams {
 
 interface TrendingParams {
   genreCode?: string;
+  sidoCode?: string;
+  period?: BoxOfficePeriod;
+  limit?: number;
+  includeDetails?: boolean;
+}
+
+interface UpcomingOpeningsParams {
+  genreCode?: string;
+  startDate?: string; // 개막일 범위 (생략 시 오늘부터 30일)
+  endDate?: string;
+  sidoCode?: string;
+  gugunCode?: string;
+  limit?: number;
+  expandArea?: boolean; // false면 요청 지역을 넓히지 않음 (기본 true)
+  includeDetails?: boolean;
+}
+
+interface ClosingSoonParams {
+  genreCode?: string;
+  sidoCode?: string;
+  gugunCode?: string;
+  days?: number;  // 오늘부터 며칠 안에 끝나는 공연 (기본 14)
+  limit?: number;
+  includeDetails?: boolean;
+}
+
+export type BoxOfficePeriod = "day" | "week" | "month";
+
+interface BoxOfficeParams {
+  period?: BoxOfficePeriod;
+  genreCode?: string;
+  sidoCode?: string;
+  date?: string; // 집계 기준일 (YYYYMMDD, 기본: 어제)
+}
+
+// 박스오피스 항목 (ranking 필수)
+type BoxOfficeEntry = Performance & Required<Pick<Performance, "ranking">>;
+
+interface BoxOfficeResult {
+  entries: BoxOfficeEntry[];
+  period: BoxOfficePeriod;
+  rankDate: string;
+}
+
+interface VenueSearchParams {
+  venueName?: string;
+  sidoCode?: string;
+  gugunCode?: string;
+  limit?: number;
+}
+
+interface VenueEventsParams {
+  venueId?: string;
+  eventId?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  cursor?: string; // 이전 응답의 "더 보기" cursor (다른 파라미터는 무시)
+}
+
+// 공연명·공연시설명 검색 (기간 생략 시 1년 전 ~ 1년 후)
+interface TitleSearchParams {
+  title?: string;     // 공연명 (shprfnm, 띄어쓰기·초성 허용)
+  venueName?: string; // 공연시설명 (shprfnmfct)
+  genreCode?: string;
+  sidoCode?: string;
+  startDate?: string;
+  endDate?: string;
   limit?: number;
+  includeDetails?: boolean;
+}
+
+interface TitleSearchResult {
+  events: Performance[]; // 작품별로 묶인 순서 (공연장·기간별 공연)
+  count: number;
+  works: number;         // 찾은 작품 수 (지역·회차 표기를 뺀 제목 기준)
+  total: number;         // 일치한 공연 수 (limit 적용 전)
+  message: string;
+}
+
+interface VenueHall {
+  id: string;
+  name: string;
+  seatCount: number | null;
+}
+
+interface VenueDetail {
+  mt10id: string;
+  fcltynm: string;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  seatCount: number | null;
+  hallCount: number;
+  halls: VenueHall[];
+  hasParking: boolean;
+  hasRestaurant: boolean;
+  hasCafe: boolean;
+  hasStore: boolean;
+  telno?: string;
+  relateurl?: string;
+  opende?: string;
+  fcltychartr?: string;
+}
+
+interface KopisServiceOptions {
+  pageConcurrency?: number; // 페이지 동시 요청 수
+  maxPages?: number;        // 요청당 최대 페이지 수
+  cache?: CacheService;     // 응답 캐시 (요청 간 공유)
+  hydrationBudgetMs?: number; // 목록 결과에 상세 정보를 채우는 시간 예산 (ms)
+}
+
+// 상세 정보 채우기 옵션
+interface HydrationOptions {
+  center?: GeoPoint; // 있으면 공연장 좌표로 검색 중심까지 거리도 계산
+  limit?: number;    // 상세를 조회할 최대 공연 수 (기본 MAX_DETAIL_CANDIDATES, 나머지는 목록 정보 그대로)
+  deadline?: number; // 나눠서 채울 때 함께 쓰는 마감 시각 (기본 지금 + hydrationBudgetMs)
+}
+
+interface PagedFetchOptions {
+  targetCount: number;
+  maxPages?: number;
+  startPage?: number; // 이 cpage부터 조회 (기본 1)
+}
+
+// 출연진 색인 수집용 공연 목록 (nextPage: 다음 수집을 시작할 cpage, 끝까지 읽었으면 1)
+interface CrawlListing {
+  events: Performance[];
+  nextPage: number;
 }
 
 interface TrendingResult {
-  performances: any[];
+  performances: TrendingPerformance[];
   count: number;
   message: string;
   scoreInfo: string;
 }
 
+interface ClosingSoonResult {
+  performances: ClosingSoonPerformance[];
+  count: number;
+  days: number;
+  message: string;
+  scoreInfo: string;
+}
+
 const MAX_RESPONSE_SIZE = 24000;
 
+// KOPIS 목록 API 페이지당 최대 행 수
+const MAX_ROWS_PER_PAGE = 100;
+
+// 상세 정보를 채울 최대 공연 수 (공연당 상세 조회 1회)
+const MAX_DETAIL_CANDIDATES = 100;
+
+// 목록에 표시할 출연진 수 (나머지는 "외 N명")
+const MAX_CAST_IN_LIST = 5;
+
+// 공연명 검색 기본 기간 (오늘 기준 앞뒤 일수)
+const TITLE_SEARCH_PAST_DAYS = 365;
+const TITLE_SEARCH_FUTURE_DAYS = 365;
+
+// 공연명 검색에 보낼 KOPIS 검색어 수 (입력 그대로, 공백 제거, 단어별)
+const MAX_TITLE_SEARCH_TERMS = 4;
+
+// 같은 작품의 공연은 공연중 → 공연예정 → 공연완료 순
+const RUN_STATE_ORDER: Record<PerformanceState, number> = {
+  "공연중": 0,
+  "공연예정": 1,
+  "공연완료": 2,
+};
+
+// 지역 이름 일치 방식 표시
+const LOCATION_MATCH_LABELS: Record<LocationMatchType, string> = {
+  code: "코드",
+  name: "이름",
+  abbreviation: "줄임말",
+  landmark: "주요 장소",
+  partial: "일부 일치",
+  typo: "오타 보정",
+};
+
+// 거리 검색 반경 확장 단계 (요청 반경의 배수)
+const RADIUS_STEPS = [1, 2, 4];
+
+// 박스오피스 집계 기간 (일 단위)
+const BOX_OFFICE_PERIOD_DAYS: Record<BoxOfficePeriod, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+const BOX_OFFICE_PERIOD_LABELS: Record<BoxOfficePeriod, string> = {
+  day: "일간",
+  week: "주간",
+  month: "월간",
+};
+
+// 마감 임박 공연 조회 기간 (일)
+const DEFAULT_CLOSING_DAYS = 14;
+const MAX_CLOSING_DAYS = 60;
+
+// 마감 임박 점수 가중치 (마감 임박도 / 박스오피스 인기도)
+const CLOSING_URGENCY_WEIGHT = 0.6;
+const CLOSING_POPULARITY_WEIGHT = 0.4;
+
+// 주간 박스오피스 순위 밖 공연의 인기도
+const UNRANKED_POPULARITY = 30;
+
 export class KopisService {
   private readonly baseUrl = "http://www.kopis.or.kr/openApi/restful";
   private readonly parser = new XMLParser({
@@ -40,7 +324,17 @@ export class KopisService {
     attributeNamePrefix: "@_",
   });
 
-  constructor(private apiKey: string) {}
+  private readonly pageConcurrency: number;
+  private readonly maxPages: number;
+  private readonly cache?: CacheService;
+  private readonly hydrationBudgetMs: number;
+
+  constructor(private apiKey: string, options: KopisServiceOptions = {}) {
+    this.pageConcurrency = Math.max(options.pageConcurrency ?? 3, 1);
+    this.maxPages = Math.max(options.maxPages ?? 5, 1);
+    this.cache = options.cache;
+    this.hydrationBudgetMs = Math.max(options.hydrationBudgetMs ?? 4000, 0);
+  }
 
   getGenreList() {
     // GENRE_CODES는 이미 import되어 있지 않으므로, 여기서는 수정 불필요
@@ -63,10 +357,71 @@ export class KopisService {
     return this.truncateIfNeeded(markdown);
   }
 
+  /**
+   * 지역 이름 해석 결과 (resolve_location)
+   */
+  formatLocationResolutionMarkdown(resolution: LocationResolution): string {
+    let markdown = `# 📍 "${resolution.query}" 지역 코드\n\n`;
+
+    if (resolution.resolved) {
+      const location = resolution.resolved;
+      markdown += `**${location.name}**\n`;
+      markdown += `- 시도 코드(sidoCode): ${location.sidoCode}\n`;
+      if (location.gugunCode) {
+        markdown += `- 구군 코드(gugunCode): ${location.gugunCode}\n`;
+      }
+      if (location.matchedBy !== "code" && location.matchedBy !== "name") {
+        markdown += `- "${location.matchedAlias}"(으)로 찾음 (${LOCATION_MATCH_LABELS[location.matchedBy]})\n`;
+      }
+    } else if (resolution.candidates.length === 0) {
+      markdown += "일치하는 지역을 찾지 못했습니다. 시/도나 구/군 이름으로 다시 입력해주세요 (예: \"서울\", \"강남구\").\n";
+      return markdown;
+    } else {
+      markdown += resolution.ambiguous
+        ? "같은 이름의 지역이 여러 곳입니다. 시/도를 함께 지정해주세요 (예: \"부산 중구\").\n"
+        : "정확히 일치하는 지역이 없습니다. 아래 후보를 확인해주세요.\n";
+    }
+
+    const others = resolution.candidates.filter((candidate) => candidate !== resolution.resolved);
+    if (others.length > 0) {
+      markdown += `\n**${resolution.resolved ? "다른 후보" : "후보"}**\n`;
+      others.forEach((candidate) => {
+        const codes = candidate.gugunCode
+          ? `sidoCode ${candidate.sidoCode}, gugunCode ${candidate.gugunCode}`
+          : `sidoCode ${candidate.sidoCode}`;
+        markdown += `- ${candidate.name} (${codes}) - ${LOCATION_MATCH_LABELS[candidate.matchedBy]}\n`;
+      });
+    }
+
+    markdown += "\n> 다른 도구의 sidoCode/gugunCode에는 코드 대신 지역 이름을 바로 넣어도 됩니다.\n";
+
+    return this.truncateIfNeeded(markdown);
+  }
+
+  /**
+   * 자연어 질의 해석 결과 (ask_performances 응답 머리말)
+   */
+  formatQueryInterpretationMarkdown(parsedQuery: ParsedQuery): string {
+    let markdown = `# 💬 "${parsedQuery.query}"\n\n`;
+    markdown += `**이렇게 이해했어요**\n`;
+
+    if (parsedQuery.interpretation.length === 0) {
+      markdown += `- 조건을 찾지 못해 오늘부터 30일 이내 전체 공연을 검색했습니다.\n`;
+    } else {
+      parsedQuery.interpretation.forEach((line) => {
+        markdown += `- ${line}\n`;
+      });
+    }
+
+    markdown += `- 검색 도구: \`${parsedQuery.toolName}\`\n\n---\n\n`;
+    return markdown;
+  }
+
   formatEventsMarkdown(data: any): string {
-    const { events, message } = data;
+    const { message, offset = 0, nextCursor, title = "🎪 공연 검색 결과" } = data;
+    const events: Performance[] = data.events;
 
-    let markdown = `# 🎪 공연 검색 결과\n\n`;
+    let markdown = `# ${title}\n\n`;
     markdown += `> ${message}\n\n`;
 
     if (events.length === 0) {
@@ -79,30 +434,37 @@ export class KopisService {
 
     for (let index = 0; index < events.length; index++) {
       const event = events[index];
-      markdown += `## ${index + 1}. ${event.prfnm || "제목 없음"}\n\n`;
+      markdown += `## ${offset + index + 1}. ${event.title}\n\n`;
 
       if (event.poster) {
         markdown += `![포스터](${event.poster})\n\n`;
       }
 
-      markdown += `- 📅 **공연기간**: ${event.prfpdfrom || ""} ~ ${
-        event.prfpdto || ""
-      }\n`;
-      markdown += `- 🏛️ **공연장**: ${event.fcltynm || "정보 없음"}\n`;
-      markdown += `- 🎭 **장르**: ${event.genrenm || "정보 없음"}\n`;
-      markdown += `- 📍 **지역**: ${event.area || "정보 없음"}\n`;
+      markdown += `- 📅 **공연기간**: ${this.formatPeriod(event)}\n`;
+      markdown += `- 🏛️ **공연장**: ${event.venueName || "정보 없음"}\n`;
+      markdown += `- 🎭 **장르**: ${event.genre.name || "정보 없음"}\n`;
+      markdown += `- 📍 **지역**: ${event.area.name || "정보 없음"}\n`;
+
+      if (event.distanceKm !== undefined) {
+        markdown += `- 📏 **거리**: ${formatDistance(event.distanceKm)}\n`;
+      }
 
-      if (event.prfstate) {
+      if (event.state) {
         const stateEmoji =
-          event.prfstate === "공연중"
+          event.state === "공연중"
             ? "🟢"
-            : event.prfstate === "공연예정"
+            : event.state === "공연예정"
             ? "🔵"
             : "⚫";
-        markdown += `- ${stateEmoji} **상태**: ${event.prfstate}\n`;
+        markdown += `- ${stateEmoji} **상태**: ${event.state}\n`;
+      }
+
+      if (event.awards.length > 0) {
+        markdown += `- 🏆 **수상**: ${event.awards.join(" / ")}\n`;
       }
 
-      markdown += `- 🔗 **공연ID**: \`${event.mt20id}\` (상세정보 조회 시 사용)\n`;
+      markdown += this.formatDetailLines(event);
+      markdown += `- 🔗 **공연ID**: \`${event.id}\` (상세정보 조회 시 사용)\n`;
       markdown += `\n---\n\n`;
 
       if (markdown.length > MAX_RESPONSE_SIZE * 0.8) {
@@ -113,11 +475,72 @@ export class KopisService {
       }
     }
 
-    return this.truncateIfNeeded(markdown);
+    return this.truncateIfNeeded(markdown) + this.formatCursorFooter(nextCursor);
+  }
+
+  formatFestivalsMarkdown(data: any): string {
+    const { message, nextCursor } = data;
+    const events: Performance[] = data.events;
+
+    let markdown = `# 🎉 축제 검색 결과\n\n`;
+    markdown += `> ${message}\n\n`;
+
+    if (events.length === 0) {
+      markdown += "검색 결과가 없습니다.\n";
+      return markdown;
+    }
+
+    // 축제명 기준으로 소속 공연 묶기 (입력 순서 유지)
+    const festivals = new Map<string, Performance[]>();
+    events.forEach((event) => {
+      const name = this.extractFestivalName(event.title);
+      if (!festivals.has(name)) {
+        festivals.set(name, []);
+      }
+      festivals.get(name)!.push(event);
+    });
+
+    markdown += `**총 ${festivals.size}개 축제 · ${events.length}개의 공연**\n\n`;
+    markdown += `---\n\n`;
+
+    let index = 0;
+    for (const [name, performances] of festivals) {
+      index++;
+      const starts = performances.map((p) => formatKopisDate(p.period.start)).filter(Boolean).sort();
+      const ends = performances.map((p) => formatKopisDate(p.period.end)).filter(Boolean).sort();
+      const venues = [...new Set(performances.map((p) => p.venueName).filter(Boolean))];
+
+      markdown += `## ${index}. 🎉 ${name || "축제명 없음"}\n\n`;
+
+      if (performances[0].poster) {
+        markdown += `![포스터](${performances[0].poster})\n\n`;
+      }
+
+      markdown += `- 📅 **축제기간**: ${starts[0] || ""} ~ ${ends[ends.length - 1] || ""}\n`;
+      markdown += `- 🏛️ **공연장**: ${venues.join(", ") || "정보 없음"}\n`;
+      markdown += `- 📍 **지역**: ${performances[0].area.name || "정보 없음"}\n`;
+      markdown += `\n**참여 공연 ${performances.length}개**\n\n`;
+
+      performances.forEach((perf) => {
+        markdown += `- ${perf.title} (${perf.genre.name || "장르 정보 없음"}, ${this.formatPeriod(
+          perf
+        )}) - \`${perf.id}\`\n`;
+      });
+
+      markdown += `\n---\n\n`;
+
+      if (markdown.length > MAX_RESPONSE_SIZE * 0.8) {
+        markdown += `\n> ⚠️ 결과가 너무 많아 ${index}개 축제까지만 표시합니다.\n`;
+        break;
+      }
+    }
+
+    return this.truncateIfNeeded(markdown) + this.formatCursorFooter(nextCursor);
   }
 
   formatFreeEventsMarkdown(data: any): string {
-    const { events, freeCount, paidCount, message, dateRange } = data;
+    const { freeCount, paidCount, message, dateRange, offset = 0, nextCursor } = data;
+    const events: Performance[] = data.events;
 
     let markdown = `# 🎁 무료/저렴한 공연 추천\n\n`;
     markdown += `> ${message}\n`;
@@ -133,26 +556,21 @@ export class KopisService {
 
     for (let index = 0; index < events.length; index++) {
       const event = events[index];
-      const isFree =
-        event.pcseguidance?.toLowerCase().includes("무료") ||
-        event.pcseguidance === "0" ||
-        event.pcseguidance === "0원";
 
-      markdown += `## ${index + 1}. ${isFree ? "🎁 [무료]" : "💰"} ${
-        event.prfnm || "제목 없음"
+      markdown += `## ${offset + index + 1}. ${event.price.isFree ? "🎁 [무료]" : "💰"} ${
+        event.title
       }\n\n`;
 
       if (event.poster) {
         markdown += `![포스터](${event.poster})\n\n`;
       }
 
-      markdown += `- 📅 **공연기간**: ${event.prfpdfrom || ""} ~ ${
-        event.prfpdto || ""
-      }\n`;
-      markdown += `- 🏛️ **공연장**: ${event.fcltynm || "정보 없음"}\n`;
-      markdown += `- 💵 **관람료**: ${event.pcseguidance || "정보 없음"}\n`;
-      markdown += `- 🎭 **장르**: ${event.genrenm || "정보 없음"}\n`;
-      markdown += `- 🔗 **공연ID**: \`${event.mt20id}\`\n`;
+      markdown += `- 📅 **공연기간**: ${this.formatPeriod(event)}\n`;
+      markdown += `- 🏛️ **공연장**: ${event.venueName || "정보 없음"}\n`;
+      markdown += `- 💵 **관람료**: ${event.price.text || "정보 없음"}\n`;
+      markdown += `- 🎭 **장르**: ${event.genre.name || "정보 없음"}\n`;
+      markdown += this.formatDetailLines(event, false);
+      markdown += `- 🔗 **공연ID**: \`${event.id}\`\n`;
       markdown += `\n---\n\n`;
 
       if (markdown.length > MAX_RESPONSE_SIZE * 0.8) {
@@ -163,91 +581,192 @@ export class KopisService {
       }
     }
 
-    return this.truncateIfNeeded(markdown);
+    return this.truncateIfNeeded(markdown) + this.formatCursorFooter(nextCursor);
   }
 
-  formatEventDetailMarkdown(detail: any): string {
+  formatEventDetailMarkdown(detail: PerformanceDetail | null): string {
     if (!detail) {
       return "# ❌ 공연 정보를 찾을 수 없습니다.\n";
     }
 
-    let markdown = `# 🎭 ${detail.prfnm || "공연 상세정보"}\n\n`;
+    let markdown = `# 🎭 ${detail.title}\n\n`;
 
     if (detail.poster) {
       markdown += `![공연 포스터](${detail.poster})\n\n`;
     }
 
     markdown += `## 📋 기본 정보\n\n`;
-    markdown += `- 🎭 **장르**: ${detail.genrenm || "정보 없음"}\n`;
-    markdown += `- 📅 **공연기간**: ${detail.prfpdfrom || ""} ~ ${
-      detail.prfpdto || ""
+    markdown += `- 🎭 **장르**: ${detail.genre.name || "정보 없음"}\n`;
+    markdown += `- 📅 **공연기간**: ${this.formatPeriod(detail)}\n`;
+    markdown += `- 🏛️ **공연장**: ${detail.venueName || "정보 없음"}${
+      detail.venueId ? ` (공연장ID: \`${detail.venueId}\`)` : ""
     }\n`;
-    markdown += `- 🏛️ **공연장**: ${detail.fcltynm || "정보 없음"}\n`;
-    markdown += `- ⏱️ **공연시간**: ${detail.prfruntime || "정보 없음"}\n`;
-    markdown += `- 🔞 **관람연령**: ${detail.prfage || "정보 없음"}\n`;
+    markdown += `- ⏱️ **공연시간**: ${detail.runtime || "정보 없음"}\n`;
+    markdown += `- 🔞 **관람연령**: ${detail.age || "정보 없음"}\n`;
 
-    if (detail.prfstate) {
+    if (detail.state) {
       const stateEmoji =
-        detail.prfstate === "공연중"
+        detail.state === "공연중"
           ? "🟢"
-          : detail.prfstate === "공연예정"
+          : detail.state === "공연예정"
           ? "🔵"
           : "⚫";
-      markdown += `- ${stateEmoji} **공연상태**: ${detail.prfstate}\n`;
+      markdown += `- ${stateEmoji} **공연상태**: ${detail.state}\n`;
     }
 
     markdown += `\n## 💰 관람료\n\n`;
-    if (detail.pcseguidance) {
-      const prices = detail.pcseguidance
-        .split(",")
-        .map((p: string) => p.trim());
-      prices.forEach((price: string) => {
-        markdown += `- ${price}\n`;
+    if (detail.price.tiers.length > 0) {
+      detail.price.tiers.forEach((tier) => {
+        const amount = tier.amount === 0 ? "무료" : `${tier.amount.toLocaleString()}원`;
+        markdown += `- ${tier.label ? `${tier.label} ` : ""}${amount}\n`;
       });
+    } else if (detail.price.text) {
+      markdown += `- ${detail.price.text}\n`;
     } else {
       markdown += "정보 없음\n";
     }
 
-    if (detail.prfcast) {
+    if (detail.awards.length > 0) {
+      markdown += `\n## 🏆 수상 내역\n\n`;
+      detail.awards.forEach((award) => {
+        markdown += `- ${award}\n`;
+      });
+    }
+
+    if (detail.cast.length > 0) {
       markdown += `\n## 🎬 출연진\n\n`;
-      markdown += `${detail.prfcast}\n`;
+      markdown += `${detail.cast.join(", ")}\n`;
     }
 
-    if (detail.sty && detail.sty.length > 100) {
+    if (detail.synopsis && detail.synopsis.length > 100) {
       markdown += `\n## 📖 시놉시스\n\n`;
-      const synopsis = this.cleanHtml(detail.sty);
-      markdown += `${synopsis.substring(0, 1000)}${
-        synopsis.length > 1000 ? "..." : ""
+      markdown += `${detail.synopsis.substring(0, 1000)}${
+        detail.synopsis.length > 1000 ? "..." : ""
       }\n`;
     }
 
-    if (detail.dtguidance) {
+    if (detail.schedule.text) {
       markdown += `\n## 📅 공연 시간 안내\n\n`;
-      markdown += `${detail.dtguidance}\n`;
+      if (detail.schedule.slots.length > 0) {
+        markdown += `- 🕒 **요일별 시작 시각**: ${formatSchedule(detail.schedule)}\n`;
+        detail.schedule.notes.forEach((note) => {
+          markdown += `- ℹ️ ${note}\n`;
+        });
+        markdown += `\n> 원문: ${detail.schedule.text}\n`;
+      } else {
+        markdown += `${detail.schedule.text}\n`;
+      }
     }
 
     markdown += `\n## 🔗 예매 정보\n\n`;
-    if (detail.relates?.relate) {
-      const relates = Array.isArray(detail.relates.relate)
-        ? detail.relates.relate
-        : [detail.relates.relate];
-      relates.forEach((relate: any) => {
-        if (relate.relatenm && relate.relateurl) {
-          markdown += `- [${relate.relatenm}](${relate.relateurl})\n`;
-        }
+    if (detail.relates.length > 0) {
+      detail.relates.forEach((relate) => {
+        markdown += `- [${relate.name}](${relate.url})\n`;
       });
     } else {
       markdown += "예매 링크 정보가 없습니다.\n";
     }
 
     markdown += `\n---\n`;
-    markdown += `\n> 공연 ID: \`${detail.mt20id}\`\n`;
+    markdown += `\n> 공연 ID: \`${detail.id}\`\n`;
+
+    return this.truncateIfNeeded(markdown);
+  }
+
+  formatVenuesMarkdown(data: any): string {
+    const { venues, message } = data;
+
+    let markdown = `# 🏛️ 공연장 검색 결과\n\n`;
+    markdown += `> ${message}\n\n`;
+
+    if (venues.length === 0) {
+      markdown += "검색 결과가 없습니다.\n";
+      return markdown;
+    }
+
+    markdown += `**총 ${venues.length}개의 공연장**\n\n`;
+    markdown += `---\n\n`;
+
+    for (let index = 0; index < venues.length; index++) {
+      const venue = venues[index];
+      markdown += `## ${index + 1}. ${venue.fcltynm || "이름 없음"}\n\n`;
+      markdown += `- 📍 **지역**: ${[venue.sidonm, venue.gugunnm]
+        .filter(Boolean)
+        .join(" ") || "정보 없음"}\n`;
+      markdown += `- 🎭 **공연장 수**: ${venue.mt13cnt ?? "정보 없음"}개\n`;
+      if (venue.fcltychartr) {
+        markdown += `- 🏷️ **시설특성**: ${venue.fcltychartr}\n`;
+      }
+      markdown += `- 🔗 **공연장ID**: \`${venue.mt10id}\` (상세정보·공연 조회 시 사용)\n`;
+      markdown += `\n---\n\n`;
+
+      if (markdown.length > MAX_RESPONSE_SIZE * 0.8) {
+        markdown += `\n> ⚠️ 결과가 너무 많아 ${
+          index + 1
+        }개까지만 표시합니다.\n`;
+        break;
+      }
+    }
+
+    return this.truncateIfNeeded(markdown);
+  }
+
+  formatVenueDetailMarkdown(venue: VenueDetail | null): string {
+    if (!venue) {
+      return "# ❌ 공연장 정보를 찾을 수 없습니다.\n";
+    }
+
+    const yesNo = (value: boolean) => (value ? "✅ 있음" : "❌ 없음");
+
+    let markdown = `# 🏛️ ${venue.fcltynm || "공연장 상세정보"}\n\n`;
+
+    markdown += `## 📋 기본 정보\n\n`;
+    markdown += `- 📍 **주소**: ${venue.address || "정보 없음"}\n`;
+    if (venue.latitude !== null && venue.longitude !== null) {
+      markdown += `- 🧭 **좌표**: ${venue.latitude}, ${venue.longitude}\n`;
+    }
+    markdown += `- 💺 **총 객석 수**: ${
+      venue.seatCount !== null ? `${venue.seatCount.toLocaleString()}석` : "정보 없음"
+    }\n`;
+    if (venue.fcltychartr) {
+      markdown += `- 🏷️ **시설특성**: ${venue.fcltychartr}\n`;
+    }
+    if (venue.opende) {
+      markdown += `- 🗓️ **개관연도**: ${venue.opende}\n`;
+    }
+    if (venue.telno) {
+      markdown += `- ☎️ **전화번호**: ${venue.telno}\n`;
+    }
+    if (venue.relateurl) {
+      markdown += `- 🌐 **홈페이지**: ${venue.relateurl}\n`;
+    }
+
+    markdown += `\n## 🎭 공연장 (${venue.hallCount}개)\n\n`;
+    if (venue.halls.length > 0) {
+      venue.halls.forEach((hall) => {
+        markdown += `- ${hall.name}${
+          hall.seatCount !== null ? ` (${hall.seatCount.toLocaleString()}석)` : ""
+        }\n`;
+      });
+    } else {
+      markdown += "정보 없음\n";
+    }
+
+    markdown += `\n## 🅿️ 편의시설\n\n`;
+    markdown += `- **주차장**: ${yesNo(venue.hasParking)}\n`;
+    markdown += `- **레스토랑**: ${yesNo(venue.hasRestaurant)}\n`;
+    markdown += `- **카페**: ${yesNo(venue.hasCafe)}\n`;
+    markdown += `- **편의점**: ${yesNo(venue.hasStore)}\n`;
+
+    markdown += `\n---\n`;
+    markdown += `\n> 공연장 ID: \`${venue.mt10id}\` (get_events_at_venue로 공연 목록 조회 가능)\n`;
 
     return this.truncateIfNeeded(markdown);
   }
 
   formatTrendingMarkdown(data: any): string {
-    const { performances, count, message, scoreInfo } = data;
+    const { count, message, scoreInfo, nextCursor } = data;
+    const performances: TrendingPerformance[] = data.performances;
     
     let markdown = `# 🔥 인기 공연 추천\n\n`;
     markdown += `> ${message}\n`;
@@ -263,25 +782,30 @@ export class KopisService {
 
     for (let index = 0; index < performances.length; index++) {
         const perf = performances[index];
-        markdown += `## ${perf.rank}위. ${perf.indicators} ${
-        perf.prfnm || "제목 없음"
-        }\n\n`;
+        markdown += `## ${perf.ranking.rank}위. ${perf.indicators} ${perf.title}\n\n`;
         
         if (perf.poster) {
         markdown += `![포스터](${perf.poster})\n\n`;
         }
         
+        if (perf.rankChange) {
+        markdown += `- 🏆 **예매 순위**: ${perf.rankChange}${
+            perf.ranking.rankDate ? ` (집계: ${perf.ranking.rankDate})` : ""
+        }\n`;
+        } else {
         markdown += `- 🏆 **인기도**: ${perf.popularityScore}점\n`;
-        markdown += `- 📅 **공연기간**: ${perf.prfpdfrom || ""} ~ ${perf.prfpdto || ""}\n`;
+        }
+        markdown += `- 📅 **공연기간**: ${this.formatPeriod(perf)}\n`;
         
         if (perf.daysUntilEnd <= 14) {
         markdown += `- ⏰ **마감까지**: ${perf.daysUntilEnd}일 남음\n`;
         }
         
-        markdown += `- 🏛️ **공연장**: ${perf.fcltynm || "정보 없음"}\n`;
-        markdown += `- 🎭 **장르**: ${perf.genrenm || "정보 없음"}\n`;
-        markdown += `- 📍 **지역**: ${perf.area || "정보 없음"}\n`;
-        markdown += `- 🔗 **공연ID**: \`${perf.mt20id}\`\n`;
+        markdown += `- 🏛️ **공연장**: ${perf.venueName || "정보 없음"}\n`;
+        markdown += `- 🎭 **장르**: ${perf.genre.name || "정보 없음"}\n`;
+        markdown += `- 📍 **지역**: ${perf.area.name || "정보 없음"}\n`;
+        markdown += this.formatDetailLines(perf);
+        markdown += `- 🔗 **공연ID**: \`${perf.id}\`\n`;
         markdown += `\n---\n\n`;
 
         if (markdown.length > MAX_RESPONSE_SIZE * 0.8) {
@@ -292,110 +816,392 @@ export class KopisService {
         }
     }
 
-    return this.truncateIfNeeded(markdown);
+    return this.truncateIfNeeded(markdown) + this.formatCursorFooter(nextCursor);
   }
 
-  async searchEventsByLocation(params: SearchParams) {
-    const {
-      genreCode,
-      startDate,
-      endDate,
-      sidoCode,
-      gugunCode,
-      limit = 20,
-    } = params;
+  formatUpcomingOpeningsMarkdown(data: any): string {
+    const { message, offset = 0, nextCursor } = data;
+    const events: Performance[] = [...data.events].sort(
+      (a, b) => (a.period.start?.getTime() ?? Infinity) - (b.period.start?.getTime() ?? Infinity)
+    );
 
-    const validLimit = Math.min(Math.max(limit, 1), 50);
+    let markdown = `# 🎬 개막 예정 공연\n\n`;
+    markdown += `> ${message}\n\n`;
 
-    // Level 1: 구/군 단위 검색 (4자리 코드)
-    if (gugunCode) {
-      const results = await this.fetchEvents({
-        genreCode,
-        startDate,
-        endDate,
-        signguCode: gugunCode,
-        limit: validLimit,
-      });
-      if (results.length > 0) {
-        return {
-          events: results,
-          searchLevel: "gugun",
-          // ✅ 유틸리티 함수 사용
-          message: `${getAreaName(gugunCode)} 지역에서 ${results.length}개의 공연을 찾았습니다.`,
-        };
-      }
+    if (events.length === 0) {
+      markdown += "검색 결과가 없습니다.\n";
+      return markdown;
     }
 
-    // Level 2: 시/도 단위 검색 (2자리 코드)
-    if (sidoCode) {
-      const results = await this.fetchEvents({
-        genreCode,
-        startDate,
-        endDate,
-        signguCode: sidoCode,
-        limit: validLimit,
-      });
-      if (results.length > 0) {
-        return {
-          events: results,
-          searchLevel: "sido",
-          // ✅ 유틸리티 함수 사용
-          message: `구/군 검색 결과가 없어 ${getAreaName(sidoCode)} 전체로 확장했습니다. ${results.length}개의 공연을 찾았습니다.`,
-        };
+    // 개막일이 속한 주(월~일) 단위로 묶기
+    const weeks = new Map<string, Performance[]>();
+    events.forEach((event) => {
+      const label = this.formatOpeningWeek(event.period.start);
+      if (!weeks.has(label)) {
+        weeks.set(label, []);
       }
-    }
-
-    // Level 3: 전국 검색
-    const results = await this.fetchEvents({
-      genreCode,
-      startDate,
-      endDate,
-      limit: validLimit,
+      weeks.get(label)!.push(event);
     });
-    return {
-      events: results,
-      searchLevel: "nationwide",
-      message: `지역 검색 결과가 없어 전국 범위로 확장했습니다. ${results.length}개의 공연을 찾았습니다.`,
-    };
-  }
 
-  async filterFreeEvents(params: FreeEventsParams) {
-    const { genreCode, sidoCode, limit = 20 } = params;
+    markdown += `**총 ${events.length}개의 개막 예정 공연**\n\n`;
 
-    const validLimit = Math.min(Math.max(limit, 1), 50);
+    let index = 0;
+    for (const [label, performances] of weeks) {
+      markdown += `## 📆 ${label}\n\n`;
 
-    const today = new Date();
-    const endDate = new Date(today);
-    endDate.setDate(today.getDate() + 30);
+      for (const perf of performances) {
+        index++;
+        const daysUntilOpen = this.calculateDaysUntil(perf.period.start);
+        markdown += `### ${offset + index}. ${perf.title}\n\n`;
 
-    const startDate = this.formatDate(today);
-    const endDateStr = this.formatDate(endDate);
+        if (perf.poster) {
+          markdown += `![포스터](${perf.poster})\n\n`;
+        }
+
+        markdown += `- 🎬 **개막**: ${this.formatDayWithWeekday(perf.period.start)} · ${
+          daysUntilOpen === 0 ? "오늘 개막" : `D-${daysUntilOpen}`
+        }\n`;
+        markdown += `- 📅 **공연기간**: ${this.formatPeriod(perf)}\n`;
+        markdown += `- 🏛️ **공연장**: ${perf.venueName || "정보 없음"}\n`;
+        markdown += `- 🎭 **장르**: ${perf.genre.name || "정보 없음"}\n`;
+        markdown += `- 📍 **지역**: ${perf.area.name || "정보 없음"}\n`;
+        markdown += this.formatDetailLines(perf);
+        markdown += `- 🔗 **공연ID**: \`${perf.id}\`\n\n`;
+      }
+
+      markdown += `---\n\n`;
+
+      if (markdown.length > MAX_RESPONSE_SIZE * 0.8) {
+        markdown += `\n> ⚠️ 결과가 너무 많아 ${index}개까지만 표시합니다.\n`;
+        break;
+      }
+    }
+
+    return this.truncateIfNeeded(markdown) + this.formatCursorFooter(nextCursor);
+  }
+
+  formatTitleSearchMarkdown(data: any): string {
+    const { message } = data;
+    const events: Performance[] = data.events;
+
+    let markdown = `# 🔎 공연명 검색 결과\n\n`;
+    markdown += `> ${message}\n\n`;
+
+    if (events.length === 0) {
+      markdown += "검색 결과가 없습니다.\n";
+      return markdown;
+    }
+
+    // 같은 작품의 공연장·기간별 공연을 묶어서 표시 (결과는 작품별로 정렬되어 있음)
+    const works = new Map<string, Performance[]>();
+    events.forEach((event) => {
+      const key = titleWorkKey(event.title);
+      if (!works.has(key)) {
+        works.set(key, []);
+      }
+      works.get(key)!.push(event);
+    });
+
+    let index = 0;
+    for (const runs of works.values()) {
+      markdown += `## 🎭 ${runs[0].title} (${runs.length}개 공연)\n\n`;
+
+      if (runs[0].poster) {
+        markdown += `![포스터](${runs[0].poster})\n\n`;
+      }
+
+      for (const run of runs) {
+        index++;
+        markdown += `### ${index}. ${run.venueName || "공연장 정보 없음"}\n\n`;
+        markdown += `- 📅 **공연기간**: ${this.formatPeriod(run)}${run.state ? ` (${run.state})` : ""}\n`;
+        markdown += `- 🎭 **장르**: ${run.genre.name || "정보 없음"}\n`;
+        markdown += `- 📍 **지역**: ${run.area.name || "정보 없음"}\n`;
+        markdown += this.formatDetailLines(run);
+        markdown += `- 🔗 **공연ID**: \`${run.id}\`\n\n`;
+      }
+
+      markdown += `---\n\n`;
+
+      if (markdown.length > MAX_RESPONSE_SIZE * 0.8) {
+        markdown += `\n> ⚠️ 결과가 너무 많아 ${index}개까지만 표시합니다.\n`;
+        break;
+      }
+    }
+
+    return this.truncateIfNeeded(markdown);
+  }
+
+  formatPersonSearchMarkdown(data: any): string {
+    const { message } = data;
+    const events: PersonSearchPerformance[] = data.events;
 
-    const events = await this.fetchEvents({
+    let markdown = `# 👤 인물 검색 결과\n\n`;
+    markdown += `> ${message}\n\n`;
+
+    if (events.length === 0) {
+      markdown += "검색 결과가 없습니다.\n";
+      return markdown;
+    }
+
+    markdown += `**총 ${events.length}개의 공연**\n\n`;
+    markdown += `---\n\n`;
+
+    for (let index = 0; index < events.length; index++) {
+      const event = events[index];
+      markdown += `## ${index + 1}. ${event.title}\n\n`;
+
+      if (event.poster) {
+        markdown += `![포스터](${event.poster})\n\n`;
+      }
+
+      event.credits.forEach((credit) => {
+        markdown += `- 👤 **${credit.name}**: ${this.formatCreditRole(credit)}\n`;
+      });
+      markdown += `- 📅 **공연기간**: ${this.formatPeriod(event)}${event.state ? ` (${event.state})` : ""}\n`;
+      markdown += `- 🏛️ **공연장**: ${event.venueName || "정보 없음"}\n`;
+      markdown += `- 🎭 **장르**: ${event.genre.name || "정보 없음"}\n`;
+      markdown += `- 📍 **지역**: ${event.area.name || "정보 없음"}\n`;
+      markdown += `- 🔗 **공연ID**: \`${event.id}\`\n`;
+      markdown += `\n---\n\n`;
+
+      if (markdown.length > MAX_RESPONSE_SIZE * 0.8) {
+        markdown += `\n> ⚠️ 결과가 너무 많아 ${index + 1}개까지만 표시합니다.\n`;
+        break;
+      }
+    }
+
+    return this.truncateIfNeeded(markdown);
+  }
+
+  formatClosingSoonMarkdown(data: ClosingSoonResult): string {
+    const { performances, count, message, scoreInfo } = data;
+
+    let markdown = `# ⏰ 마감 임박 공연\n\n`;
+    markdown += `> ${message}\n`;
+    markdown += `> ${scoreInfo}\n\n`;
+
+    if (performances.length === 0) {
+      markdown += "기간 안에 막을 내리는 공연이 없습니다.\n";
+      return markdown;
+    }
+
+    markdown += `**총 ${count}개의 마감 임박 공연**\n\n`;
+    markdown += `---\n\n`;
+
+    for (let index = 0; index < performances.length; index++) {
+      const perf = performances[index];
+      const urgencyEmoji = perf.daysUntilEnd <= 3 ? "🔥" : "⏳";
+      markdown += `## ${index + 1}. [${perf.countdown}] ${urgencyEmoji} ${perf.title}\n\n`;
+
+      if (perf.poster) {
+        markdown += `![포스터](${perf.poster})\n\n`;
+      }
+
+      markdown += `- ⏰ **마감**: ${perf.countdown} (${formatKopisDate(perf.period.end)} 종료)\n`;
+      markdown += `- 📅 **공연기간**: ${this.formatPeriod(perf)}\n`;
+      if (perf.ranking) {
+        markdown += `- 🏆 **주간 예매 순위**: ${perf.ranking.rank}위\n`;
+      }
+      markdown += `- 🏛️ **공연장**: ${perf.venueName || "정보 없음"}\n`;
+      markdown += `- 🎭 **장르**: ${perf.genre.name || "정보 없음"}\n`;
+      markdown += `- 📍 **지역**: ${perf.area.name || "정보 없음"}\n`;
+      markdown += this.formatDetailLines(perf);
+      markdown += `- 🔗 **공연ID**: \`${perf.id}\`\n`;
+      markdown += `\n---\n\n`;
+
+      if (markdown.length > MAX_RESPONSE_SIZE * 0.8) {
+        markdown += `\n> ⚠️ 결과가 너무 많아 ${index + 1}개까지만 표시합니다.\n`;
+        break;
+      }
+    }
+
+    return this.truncateIfNeeded(markdown);
+  }
+
+  async searchEventsByLocation(
+    params: SearchParams,
+    endpoint: EventListEndpoint = "pblprfr"
+  ) {
+    const {
       genreCode,
       startDate,
-      endDate: endDateStr,
-      signguCode: sidoCode,
-      limit: 100,
-    });
+      endDate,
+      sidoCode,
+      gugunCode,
+      limit = 20,
+      latitude,
+      longitude,
+      landmark,
+      radiusKm,
+      expandArea = true,
+      includeDetails = false,
+      ...filters
+    } = params;
+
+    const validLimit = Math.min(Math.max(limit, 1), 50);
+
+    // 좌표/랜드마크가 있으면 행정구역 대신 반경 단위로 확장 (거리 계산에 상세 정보를 함께 채움)
+    const center = resolveSearchCenter({ latitude, longitude, landmark });
+    if (center) {
+      return this.searchEventsNearby(
+        { endpoint, genreCode, startDate, endDate, sidoCode, gugunCode },
+        center,
+        radiusKm,
+        validLimit,
+        filters,
+        expandArea
+      );
+    }
+
+    // Level 1: 구/군 단위 검색 (4자리 코드)
+    if (gugunCode) {
+      const results = await this.fetchEventsMatching({
+        endpoint,
+        genreCode,
+        startDate,
+        endDate,
+        signguCode: gugunCode,
+        limit: validLimit,
+      }, filters, includeDetails);
+      if (results.length > 0 || !expandArea) {
+        return {
+          events: results,
+          searchLevel: "gugun",
+          // ✅ 유틸리티 함수 사용
+          message: `${getAreaName(gugunCode)} 지역에서 ${results.length}개의 공연을 찾았습니다.`,
+        };
+      }
+    }
+
+    // Level 2: 시/도 단위 검색 (2자리 코드)
+    if (sidoCode) {
+      const results = await this.fetchEventsMatching({
+        endpoint,
+        genreCode,
+        startDate,
+        endDate,
+        signguCode: sidoCode,
+        limit: validLimit,
+      }, filters, includeDetails);
+      if (results.length > 0 || !expandArea) {
+        return {
+          events: results,
+          searchLevel: "sido",
+          // ✅ 유틸리티 함수 사용
+          message: `구/군 검색 결과가 없어 ${getAreaName(sidoCode)} 전체로 확장했습니다. ${results.length}개의 공연을 찾았습니다.`,
+        };
+      }
+    }
 
-    const freeEvents = events.filter(
-      (e: any) =>
-        e.pcseguidance?.toLowerCase().includes("무료") ||
-        e.pcseguidance === "0" ||
-        e.pcseguidance === "0원"
+    // Level 3: 전국 검색
+    const results = await this.fetchEventsMatching({
+      endpoint,
+      genreCode,
+      startDate,
+      endDate,
+      limit: validLimit,
+    }, filters, includeDetails);
+    return {
+      events: results,
+      searchLevel: "nationwide",
+      message: `지역 검색 결과가 없어 전국 범위로 확장했습니다. ${results.length}개의 공연을 찾았습니다.`,
+    };
+  }
+
+  /**
+   * 수상작 검색 (KOPIS 수상작 목록 /prfawad)
+   * - 기간을 생략하면 오늘부터 90일 이내 관람 가능한 수상작
+   */
+  async getAwardedPerformances(params: AwardedParams) {
+    const today = new Date();
+    return this.searchEventsByLocation(
+      {
+        ...params,
+        startDate: params.startDate || this.formatDate(today),
+        endDate: params.endDate || this.formatDate(this.addDays(today, 90)),
+      },
+      "prfawad"
     );
+  }
+
+  /**
+   * 축제 검색 (KOPIS 축제 목록 /prffest)
+   * - 지역 단계 확장은 searchEventsByLocation과 동일
+   */
+  async searchFestivals(params: SearchParams) {
+    return this.searchEventsByLocation(params, "prffest");
+  }
 
-    const paidEvents = events
-      .filter((e: any) => !freeEvents.includes(e))
-      .sort((a: any, b: any) => {
-        const priceA = this.extractMinPrice(a.pcseguidance);
-        const priceB = this.extractMinPrice(b.pcseguidance);
-        return priceA - priceB;
+  /**
+   * 가족 공연 검색 (KOPIS 아동 공연 + 아이 나이로 관람 연령 확인)
+   * - 기간을 생략하면 오늘부터 30일, 관람 연령을 보여주기 위해 상세 정보를 기본으로 채움
+   * - familyFriendly: false면 일반 공연에서 관람 연령만으로 찾음 (스마트 검색 완화 단계)
+   */
+  async getFamilyPerformances(params: FamilyParams) {
+    const today = new Date();
+    const search: SearchParams = {
+      ...params,
+      familyFriendly: params.familyFriendly ?? true,
+      includeDetails: params.includeDetails ?? true,
+      startDate: params.startDate || this.formatDate(today),
+      endDate: params.endDate || this.formatDate(this.addDays(today, 30)),
+    };
+
+    const result = await this.searchEventsByLocation(search);
+    const filterLabel = this.formatDetailFilters(search);
+    return filterLabel ? { ...result, message: `${result.message} (${filterLabel})` } : result;
+  }
+
+  async filterFreeEvents(params: FreeEventsParams) {
+    const { genreCode, sidoCode, limit = 20, ...filters } = params;
+
+    const validLimit = Math.min(Math.max(limit, 1), 50);
+    const hasFilters = this.hasDetailFilters(filters);
+
+    const today = new Date();
+    const endDate = new Date(today);
+    endDate.setDate(today.getDate() + 30);
+
+    const startDate = this.formatDate(today);
+    const endDateStr = this.formatDate(endDate);
+
+    // 목록에는 관람료가 없으므로 상세 정보를 채운 뒤 무료 여부 판단 (가격·시간 조건도 여기서 적용)
+    // - 무료 공연은 뒤쪽 페이지에 있는 경우가 많아, 한 페이지씩 채우며 무료 공연이 충분하거나 시간 예산이 끝날 때까지 순회
+    // - 상세를 채우지 못한 공연은 관람료를 알 수 없으므로 후보에서 제외
+    const deadline = Date.now() + this.hydrationBudgetMs;
+    const candidates: Performance[] = [];
+    let unchecked = 0;
+
+    for (let page = 1; page <= this.maxPages && (page === 1 || Date.now() < deadline); page++) {
+      const pageEvents = await this.fetchEvents({
+        genreCode,
+        startDate,
+        endDate: endDateStr,
+        signguCode: sidoCode,
+        ...this.listFilterParams(filters),
+        page,
+        limit: MAX_ROWS_PER_PAGE,
       });
 
-    let result = [];
+      const hydrated = await this.hydrateEvents(pageEvents, { limit: MAX_ROWS_PER_PAGE, deadline });
+      const checked = hydrated.filter((e) => e.runtime !== undefined);
+      unchecked += hydrated.length - checked.length;
+      candidates.push(...(hasFilters ? checked.filter((e) => this.matchesDetailFilters(e, filters)) : checked));
+
+      const freeCount = candidates.filter((e) => e.price.isFree).length;
+      if (freeCount >= validLimit || pageEvents.length < MAX_ROWS_PER_PAGE) break;
+    }
+
+    const freeEvents = candidates.filter((e) => e.price.isFree);
+
+    const paidEvents = candidates
+      .filter((e) => !e.price.isFree)
+      .sort((a, b) => (a.price.min ?? Infinity) - (b.price.min ?? Infinity));
+
+    let result: Performance[] = [];
     let message = "";
+    const filterLabel =
+      hasFilters || filters.familyFriendly ? ` (${this.formatDetailFilters(filters)})` : "";
 
     if (freeEvents.length >= 10) {
       result = freeEvents.slice(0, validLimit);
@@ -403,28 +1209,29 @@ export class KopisService {
     } else if (freeEvents.length > 0) {
       const needed = Math.min(10, validLimit) - freeEvents.length;
       result = [...freeEvents, ...paidEvents.slice(0, needed)];
-      message = `${freeEvents.length}개의 무료 공연과 ${needed}개의 저렴한 유료 공연을 찾았습니다.`;
+      message = `${freeEvents.length}개의 무료 공연과 ${result.length - freeEvents.length}개의 저렴한 유료 공연을 찾았습니다.`;
     } else {
       result = paidEvents.slice(0, Math.min(10, validLimit));
       message = `무료 공연이 없어 가장 저렴한 ${result.length}개의 유료 공연을 추천합니다.`;
     }
+    message += filterLabel;
+    if (unchecked > 0) {
+      message += ` (시간 안에 관람료를 확인하지 못한 공연 ${unchecked}개는 제외했습니다)`;
+    }
 
     return {
       events: result,
       freeCount: freeEvents.length,
-      paidCount: result.length - freeEvents.length,
+      paidCount: result.filter((e) => !e.price.isFree).length,
       message,
       dateRange: `${startDate} ~ ${endDateStr}`,
     };
   }
 
-  async getEventDetail(eventId: string) {
+  async getEventDetail(eventId: string): Promise<PerformanceDetail | null> {
     try {
-      const url = `${this.baseUrl}/pblprfr/${eventId}?service=${this.apiKey}`;
-      const response = await axios.get(url);
-      const parsed = this.parser.parse(response.data);
-
-      return parsed.dbs?.db || null;
+      const parsed = await this.request(`pblprfr/${eventId}`);
+      return parsed.dbs?.db ? toPerformanceDetail(parsed.dbs.db) : null;
     } catch (error) {
       throw new Error(
         `Failed to fetch event detail: ${
@@ -434,155 +1241,651 @@ export class KopisService {
     }
   }
 
-  async getTrendingPerformances(params: TrendingParams): Promise<TrendingResult> {
-    const { genreCode, limit = 20 } = params;
+  async searchVenues(params: VenueSearchParams) {
+    const { venueName, sidoCode, gugunCode, limit = 20 } = params;
     const validLimit = Math.min(Math.max(limit, 1), 50);
 
     try {
-      const today = new Date();
-      const startDate = new Date(today);
-      startDate.setDate(today.getDate() - 30);
-
-      const queryParams = new URLSearchParams({
-        service: this.apiKey,
-        stdate: this.formatDate(startDate),
-        eddate: this.formatDate(today),
+      const parsed = await this.request("prfplc", {
         cpage: "1",
-        rows: "100",
+        rows: String(validLimit),
+        shprfnmfct: venueName,
+        signgucode: sidoCode || gugunCode?.substring(0, 2),
+        signgucodesub: gugunCode,
       });
 
-      if (genreCode) {
-        queryParams.append("shcate", genreCode);
+      const venues = this.toArray(parsed.dbs?.db);
+      const scope = gugunCode
+        ? getAreaName(gugunCode)
+        : sidoCode
+        ? getAreaName(sidoCode)
+        : "전국";
+
+      return {
+        venues,
+        message: venueName
+          ? `${scope}에서 "${venueName}"(으)로 ${venues.length}개의 공연장을 찾았습니다.`
+          : `${scope}에서 ${venues.length}개의 공연장을 찾았습니다.`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to search venues: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  async getVenueDetail(venueId: string): Promise<VenueDetail | null> {
+    try {
+      const parsed = await this.request(`prfplc/${venueId}`);
+      const db = parsed.dbs?.db;
+      if (!db) return null;
+
+      const toNumber = (value: any): number | null => {
+        const num = Number(String(value ?? "").replace(/,/g, ""));
+        return value === undefined || value === "" || isNaN(num) ? null : num;
+      };
+
+      const halls: VenueHall[] = this.toArray(db.mt13s?.mt13).map(
+        (hall: any) => ({
+          id: hall.mt13id,
+          name: hall.prfplcnm,
+          seatCount: toNumber(hall.seatscale),
+        })
+      );
+
+      return {
+        mt10id: db.mt10id,
+        fcltynm: db.fcltynm,
+        address: db.adres || null,
+        latitude: toNumber(db.la),
+        longitude: toNumber(db.lo),
+        seatCount: toNumber(db.seatscale),
+        hallCount: toNumber(db.mt13cnt) ?? halls.length,
+        halls,
+        hasParking: db.parkinglot === "Y",
+        hasRestaurant: db.restaurant === "Y",
+        hasCafe: db.cafe === "Y",
+        hasStore: db.store === "Y",
+        telno: db.telno || undefined,
+        relateurl: db.relateurl || undefined,
+        opende: db.opende ? String(db.opende) : undefined,
+        fcltychartr: db.fcltychartr || undefined,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch venue detail: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * 공연시설의 공연 목록 조회
+   * - venueId가 없으면 eventId의 상세정보에서 공연시설 ID(mt10id)를 찾아 사용
+   * - cursor가 있으면 원래 공연시설·기간으로 다음 페이지(cpage)를 조회
+   */
+  async getEventsAtVenue(params: VenueEventsParams) {
+    const cursor = params.cursor ? decodeCursor(params.cursor, "get_events_at_venue") : null;
+    if (cursor) {
+      params = cursor.args as VenueEventsParams;
+    }
+    const offset = cursor?.offset || 0;
+    const { eventId, limit = 20 } = params;
+    const validLimit = Math.min(Math.max(limit, 1), 50);
+
+    let venueId = params.venueId;
+    if (!venueId && eventId) {
+      const detail = await this.getEventDetail(eventId);
+      venueId = detail?.venueId ?? undefined;
+    }
+
+    if (!venueId) {
+      throw new Error("venueId 또는 공연시설 정보가 있는 eventId가 필요합니다.");
+    }
+
+    const today = new Date();
+    const startDate = params.startDate || this.formatDate(today);
+    const endDate =
+      params.endDate || this.formatDate(this.addDays(today, 90));
+
+    try {
+      const [venue, parsed] = await Promise.all([
+        this.getVenueDetail(venueId),
+        this.request("pblprfr", {
+          stdate: startDate,
+          eddate: endDate,
+          cpage: String(Math.floor(offset / validLimit) + 1),
+          rows: String(validLimit),
+          prfplccd: venueId,
+        }),
+      ]);
+
+      const events = toPerformances(this.toArray(parsed.dbs?.db));
+      const venueName = venue?.fcltynm || venueId;
+
+      // 한 페이지를 꽉 채웠으면 다음 페이지가 있을 수 있으므로 cursor 발급
+      const nextCursor =
+        events.length >= validLimit
+          ? encodeCursor({
+              toolName: "get_events_at_venue",
+              args: { venueId, startDate, endDate, limit: validLimit },
+              offset: offset + validLimit,
+            })
+          : undefined;
+
+      return {
+        venue,
+        events,
+        offset,
+        nextCursor,
+        message: `${venueName}에서 ${startDate} ~ ${endDate} 기간에 ${events.length}개의 공연을 찾았습니다.`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch events at venue: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * 공연명·공연시설명 검색 (KOPIS shprfnm / shprfnmfct, 장르는 선택)
+   * - 띄어쓰기를 뺀 검색어·단어별로도 조회한 뒤 정규화한 제목 일치 점수로 다시 거르고 정렬
+   * - 초성 검색어이거나 KOPIS 검색에 걸리지 않으면 오늘 이후 공연 목록에서 직접 찾음
+   * - 같은 작품의 공연장·기간별 공연을 모두 반환 (작품 안에서는 공연중 → 공연예정 → 공연완료, 개막일 순)
+   */
+  async searchByTitle(params: TitleSearchParams): Promise<TitleSearchResult> {
+    const title = params.title?.trim() || "";
+    const venueName = params.venueName?.trim() || "";
+    if (!title && !venueName) {
+      throw new Error("title 또는 venueName이 필요합니다.");
+    }
+
+    const { genreCode, sidoCode, limit = 20, includeDetails = false } = params;
+    const validLimit = Math.min(Math.max(limit, 1), 50);
+
+    const today = new Date();
+    const startDate = params.startDate || this.formatDate(this.addDays(today, -TITLE_SEARCH_PAST_DAYS));
+    const endDate = params.endDate || this.formatDate(this.addDays(today, TITLE_SEARCH_FUTURE_DAYS));
+    const base = { startDate, endDate, genreCode, signguCode: sidoCode };
+
+    try {
+      const titleTerms: Array<string | undefined> = title ? titleSearchTerms(title, MAX_TITLE_SEARCH_TERMS) : [undefined];
+      const venueTerms: Array<string | undefined> = venueName ? titleSearchTerms(venueName, 2) : [undefined];
+      const queries = titleTerms
+        .flatMap((term) => venueTerms.map((venue) => ({ title: term, venueName: venue })))
+        .slice(0, MAX_TITLE_SEARCH_TERMS);
+
+      const lists = await Promise.all(
+        queries.map((query) => this.fetchEventsPaged({ ...base, ...query }, { targetCount: MAX_ROWS_PER_PAGE }))
+      );
+      let matched = this.matchTitle(lists.flat(), title, venueName);
+
+      // 초성·띄어쓰기 차이로 KOPIS 검색에 걸리지 않으면 목록에서 직접 찾음
+      let scanFrom: string | null = null;
+      if (matched.length === 0) {
+        scanFrom = startDate > this.formatDate(today) ? startDate : this.formatDate(today);
+        const listed = await this.fetchEventsPaged(
+          { ...base, startDate: scanFrom },
+          { targetCount: MAX_ROWS_PER_PAGE * this.maxPages }
+        );
+        matched = this.matchTitle(listed, title, venueName);
       }
 
-      const url = `${this.baseUrl}/pblprfr?${queryParams.toString()}`;
-      const response = await axios.get(url);
-      const parsed = this.parser.parse(response.data);
+      let events = matched.slice(0, validLimit);
+      if (includeDetails) {
+        events = await this.hydrateEvents(events);
+      }
 
-      let events = parsed.dbs?.db || [];
-      if (!Array.isArray(events)) {
-        events = events ? [events] : [];
+      const works = new Set(matched.map((event) => titleWorkKey(event.title))).size;
+      const label = [title && `"${title}"`, venueName && `공연장 "${venueName}"`].filter(Boolean).join(" · ");
+      let message =
+        matched.length === 0
+          ? `${label} 검색 결과가 없습니다. (${startDate} ~ ${endDate})`
+          : `${label} 검색 결과 ${works}개 작품, ${matched.length}개 공연(공연장·기간별)을 찾았습니다.`;
+      if (events.length < matched.length) {
+        message += ` ${events.length}개를 보여드립니다.`;
+      }
+      if (scanFrom) {
+        message += ` (KOPIS 제목 검색에 없어 ${scanFrom} 이후 공연 목록에서 찾았습니다)`;
       }
 
-      const activeEvents = events.filter(
-        (e: any) => e.prfstate === "공연중" || e.prfstate === "공연예정"
+      return { events, count: events.length, works, total: matched.length, message };
+    } catch (error) {
+      throw new Error(
+        `Failed to search by title: ${
+          error instanceof Error ? error.message : String(error)
+        }`
       );
+    }
+  }
 
-      const rankedEvents = activeEvents.map((event: any) => {
-        let score = 50;
-
-        if (event.openrun === "Y") {
-          score += 30;
-        }
+  async getTrendingPerformances(params: TrendingParams): Promise<TrendingResult> {
+    const trending = await this.fetchTrending(params);
+    return params.includeDetails
+      ? { ...trending, performances: await this.hydrateEvents(trending.performances) }
+      : trending;
+  }
 
-        if (event.prfstate === "공연중") {
-          score += 10;
-        }
+  /**
+   * 박스오피스 순위 (집계가 비어 있으면 휴리스틱 인기도)
+   */
+  private async fetchTrending(params: TrendingParams): Promise<TrendingResult> {
+    const { genreCode, sidoCode, period = "week", limit = 20 } = params;
+    const validLimit = Math.min(Math.max(limit, 1), 50);
 
-        const endDateStr = event.prfpdto?.replace(/\./g, "");
-        const daysUntilEnd = endDateStr
-          ? this.calculateDaysUntil(endDateStr)
-          : 999;
+    try {
+      const boxOffice = await this.getBoxOffice({ period, genreCode, sidoCode });
 
-        if (daysUntilEnd <= 14 && daysUntilEnd > 0) {
-          score += 20;
-        }
+      // 박스오피스 집계가 비어 있을 때만 휴리스틱 인기도로 대체
+      if (boxOffice.entries.length === 0) {
+        return await this.getHeuristicTrending({ genreCode, sidoCode, limit });
+      }
 
-        if (daysUntilEnd <= 7 && daysUntilEnd > 0) {
-          score += 10;
-        }
+      const result = boxOffice.entries.slice(0, validLimit).map((entry): TrendingPerformance => {
+        const { rank, previousRank } = entry.ranking;
+        const daysUntilEnd = this.calculateDaysUntil(entry.period.end);
 
-        const popularityEmoji = score >= 80 ? "⭐" : "";
+        const isRising = previousRank !== null && previousRank > rank;
+        const topEmoji = rank <= 3 ? "⭐" : "";
+        const risingEmoji = isRising ? "📈" : "";
         const urgencyEmoji = daysUntilEnd <= 7 ? "🔥" : "";
 
         return {
-          ...event,
-          popularityScore: score,
+          ...entry,
+          popularityScore: this.rankToPopularity(rank),
           daysUntilEnd,
-          indicators: `${popularityEmoji}${urgencyEmoji}`.trim() || "-",
-          rank: 0,
+          rankChange: this.formatRankChange(rank, previousRank),
+          indicators: `${topEmoji}${risingEmoji}${urgencyEmoji}` || "-",
         };
       });
 
-      rankedEvents.sort(
-        (a: any, b: any) => b.popularityScore - a.popularityScore
+      const periodLabel = BOX_OFFICE_PERIOD_LABELS[boxOffice.period];
+      const scope = [
+        sidoCode ? getAreaName(sidoCode) : "",
+        genreCode ? `${getGenreName(genreCode)} 장르` : "전체 장르",
+      ]
+        .filter(Boolean)
+        .join(" ");
+
+      return {
+        performances: result,
+        count: result.length,
+        message: `${scope}의 ${periodLabel} 박스오피스 상위 ${result.length}개 공연입니다.`,
+        scoreInfo: `평가기준: KOPIS ${periodLabel} 예매 순위 (집계: ${boxOffice.rankDate})`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch trending performances: ${
+          error instanceof Error ? error.message : String(error)
+        }`
       );
+    }
+  }
 
-      rankedEvents.forEach((event: any, index: number) => {
-        event.rank = index + 1;
-      });
+  /**
+   * 오늘부터 N일 안에 볼 수 있는 공연중·공연예정 공연 목록 (startPage부터 페이지 예산만큼)
+   * - 출연진 색인 수집용: 수집마다 nextPage부터 이어 읽어 전체 목록을 차례로 훑음
+   * - startPage가 목록 끝을 넘었으면 처음부터 다시 조회
+   */
+  async listCurrentAndUpcoming(days: number, startPage = 1): Promise<CrawlListing> {
+    const today = new Date();
+    const targetCount = MAX_ROWS_PER_PAGE * this.maxPages;
+    const events = await this.fetchEventsPaged(
+      {
+        startDate: this.formatDate(today),
+        endDate: this.formatDate(this.addDays(today, days)),
+      },
+      { targetCount, startPage }
+    );
+
+    if (events.length === 0 && startPage > 1) {
+      return this.listCurrentAndUpcoming(days, 1);
+    }
+
+    return {
+      events: events.filter((event) => event.state !== "공연완료"),
+      nextPage: events.length < targetCount ? 1 : startPage + this.maxPages,
+    };
+  }
+
+  /**
+   * 개막 예정 공연 (공연예정 상태이고 개막일이 기간 안인 공연, 개막일 순)
+   * - 결과가 없으면 구/군 → 시/도 → 전국 순으로 확장 (expandArea가 false면 확장 안 함)
+   */
+  async getUpcomingOpenings(params: UpcomingOpeningsParams) {
+    const { genreCode, sidoCode, gugunCode, limit = 20, expandArea = true, includeDetails = false } = params;
+    const validLimit = Math.min(Math.max(limit, 1), 50);
 
-      const result = rankedEvents.slice(0, validLimit);
+    const today = new Date();
+    const startDate = params.startDate || this.formatDate(today);
+    const endDate = params.endDate || this.formatDate(this.addDays(today, 30));
+
+    const requested = [gugunCode, sidoCode].filter((code): code is string => Boolean(code));
+    const areas: Array<string | undefined> = expandArea ? [...requested, undefined] : [requested[0]];
+
+    try {
+      const fetchArea = (area?: string) =>
+        this.fetchOpenings({ genreCode, startDate, endDate, signguCode: area }, validLimit);
+
+      let level = 0;
+      let events = await fetchArea(areas[0]);
+      while (events.length === 0 && level < areas.length - 1) {
+        level++;
+        events = await fetchArea(areas[level]);
+      }
 
-      if (result.length === 0 && genreCode) {
-        return await this.getTrendingPerformances({ limit });
+      if (includeDetails) {
+        events = await this.hydrateEvents(events);
       }
 
+      const area = areas[level];
+      return {
+        events,
+        searchLevel: !area ? "nationwide" : area.length === 4 ? "gugun" : "sido",
+        message:
+          level === 0
+            ? `${area ? `${getAreaName(area)} 지역` : "전국"}에서 ${startDate} ~ ${endDate}에 개막하는 공연 ${events.length}개를 찾았습니다.`
+            : `요청 지역에 개막 예정 공연이 없어 ${area ? `${getAreaName(area)} 전체` : "전국 범위"}로 확장했습니다. ${events.length}개의 공연을 찾았습니다.`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch upcoming openings: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * 마감 임박 공연 (오늘부터 N일 안에 공연이 끝나는 공연, 오픈런 제외)
+   * - 마감 임박도(60%)와 주간 박스오피스 인기도(40%)를 합쳐 정렬
+   */
+  async getClosingSoon(params: ClosingSoonParams): Promise<ClosingSoonResult> {
+    const {
+      genreCode,
+      sidoCode,
+      gugunCode,
+      days = DEFAULT_CLOSING_DAYS,
+      limit = 10,
+      includeDetails = false,
+    } = params;
+    const validDays = Math.min(Math.max(days, 1), MAX_CLOSING_DAYS);
+    const validLimit = Math.min(Math.max(limit, 1), 50);
+    const areaCode = gugunCode || sidoCode;
+
+    const today = new Date();
+
+    try {
+      const [events, boxOffice] = await Promise.all([
+        this.fetchEventsPaged(
+          {
+            genreCode,
+            startDate: this.formatDate(today),
+            endDate: this.formatDate(this.addDays(today, validDays)),
+            signguCode: areaCode,
+          },
+          { targetCount: MAX_ROWS_PER_PAGE * this.maxPages }
+        ),
+        // 박스오피스 조회 실패는 인기도 신호만 생략 (박스오피스 지역은 시/도 단위)
+        this.getBoxOffice({
+          period: "week",
+          genreCode,
+          sidoCode: areaCode ? extractSidoCode(areaCode) : undefined,
+        })
+          .then((result) => result.entries)
+          .catch(() => [] as BoxOfficeEntry[]),
+      ]);
+
+      const ranks = new Map(boxOffice.map((entry) => [entry.id, entry.ranking]));
+
+      const closing = events
+        .filter((event) => !event.openRun && event.state !== "공연완료")
+        .map((event) => ({ event, daysUntilEnd: this.calculateDaysUntil(event.period.end) }))
+        .filter(({ daysUntilEnd }) => daysUntilEnd >= 0 && daysUntilEnd <= validDays)
+        .map(({ event, daysUntilEnd }): ClosingSoonPerformance => {
+          const ranking = ranks.get(event.id);
+          const popularityScore = ranking ? this.rankToPopularity(ranking.rank) : UNRANKED_POPULARITY;
+          // 오늘 종료 100점, 조회 기간 마지막 날에 가까울수록 0점
+          const urgencyScore = 100 * (1 - daysUntilEnd / (validDays + 1));
+
+          return {
+            ...event,
+            ...(ranking ? { ranking } : {}),
+            daysUntilEnd,
+            countdown: daysUntilEnd === 0 ? "D-Day" : `D-${daysUntilEnd}`,
+            popularityScore,
+            closingScore: Math.round(
+              urgencyScore * CLOSING_URGENCY_WEIGHT + popularityScore * CLOSING_POPULARITY_WEIGHT
+            ),
+          };
+        })
+        .sort((a, b) => b.closingScore - a.closingScore || a.daysUntilEnd - b.daysUntilEnd);
+
+      const top = closing.slice(0, validLimit);
+      const result = includeDetails ? await this.hydrateEvents(top) : top;
+      const scope = [
+        areaCode ? getAreaName(areaCode) : "",
+        genreCode ? `${getGenreName(genreCode)} 장르` : "전체 장르",
+      ]
+        .filter(Boolean)
+        .join(" ");
+
       return {
         performances: result,
         count: result.length,
-        // ✅ 유틸리티 함수 사용
-        message: genreCode
-          ? `${getGenreName(genreCode)} 장르의 인기 공연 ${
-              result.length
-            }개를 찾았습니다.`
-          : `전체 장르의 인기 공연 ${result.length}개를 찾았습니다.`,
-        scoreInfo:
-          "평가기준: 오픈런(+30), 공연중(+10), 14일내 종료(+20), 7일내 마감(+10)",
+        days: validDays,
+        message: `${scope}에서 ${validDays}일 안에 막을 내리는 공연 ${closing.length}개 중 ${result.length}개를 추천합니다.`,
+        scoreInfo: `평가기준: 마감 임박도 60% + KOPIS 주간 박스오피스 인기도 40% (순위 밖 ${UNRANKED_POPULARITY}점), 오픈런 제외`,
       };
     } catch (error) {
       throw new Error(
-        `Failed to fetch trending performances: ${
+        `Failed to fetch closing-soon performances: ${
           error instanceof Error ? error.message : String(error)
         }`
       );
     }
   }
 
-  private calculateDaysUntil(endDateStr: string): number {
+  /**
+   * KOPIS 박스오피스 조회
+   * - 직전 동일 기간의 순위를 함께 조회하여 previousRank 채움
+   */
+  async getBoxOffice(params: BoxOfficeParams): Promise<BoxOfficeResult> {
+    const { period = "week", genreCode, sidoCode } = params;
+    const days = BOX_OFFICE_PERIOD_DAYS[period];
+
+    const end = params.date
+      ? this.parseDate(params.date)
+      : this.addDays(new Date(), -1);
+    const start = this.addDays(end, -(days - 1));
+    const previousEnd = this.addDays(start, -1);
+    const previousStart = this.addDays(previousEnd, -(days - 1));
+
     try {
-      const year = parseInt(endDateStr.substring(0, 4));
-      const month = parseInt(endDateStr.substring(4, 6)) - 1;
-      const day = parseInt(endDateStr.substring(6, 8));
+      const [current, previous] = await Promise.all([
+        this.fetchBoxOffice(start, end, genreCode, sidoCode),
+        // 직전 기간 조회 실패는 순위 변동만 생략
+        this.fetchBoxOffice(previousStart, previousEnd, genreCode, sidoCode)
+          .catch(() => []),
+      ]);
+
+      const previousRanks = new Map<string, number>();
+      previous.forEach((row: any) => {
+        previousRanks.set(row.mt20id, Number(row.rnum));
+      });
+
+      const rankDate =
+        days === 1
+          ? this.formatDate(end)
+          : `${this.formatDate(start)} ~ ${this.formatDate(end)}`;
+
+      const entries = current
+        .map((row: any) =>
+          toBoxOfficePerformance(row, {
+            rank: Number(row.rnum),
+            previousRank: previousRanks.get(row.mt20id) ?? null,
+            rankDate,
+          })
+        )
+        .filter((entry): entry is BoxOfficeEntry => entry !== null)
+        .sort((a, b) => a.ranking.rank - b.ranking.rank);
+
+      return { entries, period, rankDate };
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch box office: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
 
-      const endDate = new Date(year, month, day);
-      const today = new Date();
+  /**
+   * 박스오피스가 비어 있을 때 사용하는 휴리스틱 인기도
+   * (오픈런·공연상태·마감 임박도 기반)
+   */
+  private async getHeuristicTrending(
+    params: TrendingParams
+  ): Promise<TrendingResult> {
+    const { genreCode, sidoCode, limit = 20 } = params;
+    const validLimit = Math.min(Math.max(limit, 1), 50);
 
-      today.setHours(0, 0, 0, 0);
-      endDate.setHours(0, 0, 0, 0);
+    const today = new Date();
+    const startDate = new Date(today);
+    startDate.setDate(today.getDate() - 30);
 
-      const diff = endDate.getTime() - today.getTime();
-      return Math.ceil(diff / (1000 * 60 * 60 * 24));
-    } catch {
-      return 999;
+    const events = await this.fetchEventsPaged(
+      {
+        genreCode,
+        signguCode: sidoCode,
+        startDate: this.formatDate(startDate),
+        endDate: this.formatDate(today),
+      },
+      { targetCount: MAX_ROWS_PER_PAGE * this.maxPages }
+    );
+
+    const activeEvents = events.filter(
+      (e) => e.state === "공연중" || e.state === "공연예정"
+    );
+
+    const rankedEvents = activeEvents.map((event): TrendingPerformance => {
+      let score = 50;
+
+      if (event.openRun) {
+        score += 30;
+      }
+
+      if (event.state === "공연중") {
+        score += 10;
+      }
+
+      const daysUntilEnd = this.calculateDaysUntil(event.period.end);
+
+      if (daysUntilEnd <= 14 && daysUntilEnd > 0) {
+        score += 20;
+      }
+
+      if (daysUntilEnd <= 7 && daysUntilEnd > 0) {
+        score += 10;
+      }
+
+      const popularityEmoji = score >= 80 ? "⭐" : "";
+      const urgencyEmoji = daysUntilEnd <= 7 ? "🔥" : "";
+
+      return {
+        ...event,
+        popularityScore: score,
+        daysUntilEnd,
+        indicators: `${popularityEmoji}${urgencyEmoji}`.trim() || "-",
+        rankChange: null,
+        ranking: { rank: 0, previousRank: null, rankDate: null },
+      };
+    });
+
+    rankedEvents.sort((a, b) => b.popularityScore - a.popularityScore);
+
+    rankedEvents.forEach((event, index) => {
+      event.ranking.rank = index + 1;
+    });
+
+    const result = rankedEvents.slice(0, validLimit);
+
+    if (result.length === 0 && genreCode) {
+      return await this.getHeuristicTrending({ sidoCode, limit });
+    }
+
+    // 지역을 지정했으면 그 지역 공연만 (전국으로 넓히지 않음)
+    const area = sidoCode ? `${getAreaName(sidoCode)} ` : "";
+
+    return {
+      performances: result,
+      count: result.length,
+      // ✅ 유틸리티 함수 사용
+      message: genreCode
+        ? `박스오피스 집계가 없어 ${area}${getGenreName(genreCode)} 장르의 인기 공연 ${
+            result.length
+          }개를 추정했습니다.`
+        : `박스오피스 집계가 없어 ${area}전체 장르의 인기 공연 ${result.length}개를 추정했습니다.`,
+      scoreInfo:
+        "평가기준: 오픈런(+30), 공연중(+10), 14일내 종료(+20), 7일내 마감(+10)",
+    };
+  }
+
+  /**
+   * 박스오피스 순위 → 0-100 인기도 (1위 100점, 순위당 -2점, 최소 10점)
+   */
+  private rankToPopularity(rank: number): number {
+    return Math.max(100 - (rank - 1) * 2, 10);
+  }
+
+  private formatRankChange(rank: number, previousRank: number | null): string {
+    if (previousRank === null) {
+      return `${rank}위 (🆕 신규 진입)`;
+    }
+    if (previousRank > rank) {
+      return `${previousRank}위 → ${rank}위 상승`;
     }
+    if (previousRank < rank) {
+      return `${previousRank}위 → ${rank}위 하락`;
+    }
+    return `${rank}위 (순위 유지)`;
   }
 
-  private async fetchEvents(params: any) {
+  private calculateDaysUntil(endDate: Date | null): number {
+    if (!endDate) return 999;
+
+    const end = new Date(endDate);
+    const today = new Date();
+
+    today.setHours(0, 0, 0, 0);
+    end.setHours(0, 0, 0, 0);
+
+    const diff = end.getTime() - today.getTime();
+    return Math.ceil(diff / (1000 * 60 * 60 * 24));
+  }
+
+  private async fetchEvents(params: any): Promise<Performance[]> {
     try {
-      const queryParams = new URLSearchParams({
-        service: this.apiKey,
+      const endpoint: EventListEndpoint = params.endpoint || "pblprfr";
+      const parsed = await this.request(endpoint, {
         stdate: params.startDate,
         eddate: params.endDate,
-        cpage: "1",
+        cpage: String(params.page || 1),
         rows: String(params.limit || 20),
         shcate: params.genreCode,
+        signgucode: params.signguCode,
+        prfstate: params.prfstate,
+        kidstate: params.kidstate,
+        shprfnm: params.title,
+        shprfnmfct: params.venueName,
       });
 
-      if (params.signguCode) {
-        queryParams.append("signgucode", params.signguCode);
-      }
-
-      const url = `${this.baseUrl}/pblprfr?${queryParams.toString()}`;
-      const response = await axios.get(url);
-      const parsed = this.parser.parse(response.data);
-
-      let events = parsed.dbs?.db || [];
-      if (!Array.isArray(events)) {
-        events = events ? [events] : [];
-      }
-
-      return events;
+      return toPerformances(this.toArray(parsed.dbs?.db));
     } catch (error) {
       throw new Error(
         `Failed to fetch events: ${
@@ -592,6 +1895,464 @@ export class KopisService {
     }
   }
 
+  /**
+   * 거리 검색 (검색 중심에서 반경 안의 공연, 가까운 순)
+   * - 후보: 중심의 구/군(랜드마크) → 시/도 순으로 조회해 상세 조회 예산 안에 가까운 공연이 먼저 들어가게 함
+   * - 반경 안에 공연이 없으면 반경을 2배, 4배로 확장 (최대 MAX_RADIUS_KM)
+   * - 끝까지 없으면 시/도 전체를 가까운 순으로 반환
+   */
+  private async searchEventsNearby(
+    params: {
+      endpoint: EventListEndpoint;
+      genreCode?: string;
+      startDate: string;
+      endDate: string;
+      sidoCode?: string;
+      gugunCode?: string;
+    },
+    center: SearchCenter,
+    radiusKm: number | undefined,
+    limit: number,
+    filters: DetailFilters,
+    expandArea: boolean = true
+  ) {
+    const { sidoCode, gugunCode, ...query } = params;
+    const radius = Math.min(Math.max(radiusKm ?? DEFAULT_RADIUS_KM, 0.5), MAX_RADIUS_KM);
+    const nearGugun = gugunCode || center.gugunCode;
+    const nearSido = sidoCode || nearGugun?.substring(0, 2) || center.sidoCode;
+
+    const lists = await Promise.all(
+      [nearGugun, nearSido]
+        .filter((code): code is string => Boolean(code))
+        .map((code) =>
+          this.fetchEventsPaged(
+            { ...query, ...this.listFilterParams(filters), signguCode: code },
+            { targetCount: MAX_DETAIL_CANDIDATES }
+          )
+        )
+    );
+
+    const seen = new Set<string>();
+    const candidates = lists.flat().filter((event) => {
+      if (seen.has(event.id)) return false;
+      seen.add(event.id);
+      return true;
+    });
+
+    const located = await this.hydrateEvents(candidates.slice(0, MAX_DETAIL_CANDIDATES), {
+      center: center.point,
+    });
+    const matched = this.hasDetailFilters(filters)
+      ? located.filter((event) => this.matchesDetailFilters(event, filters))
+      : located;
+
+    // 좌표를 모르는 공연은 뒤로
+    const byDistance = [...matched].sort(
+      (a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity)
+    );
+
+    const steps = expandArea
+      ? [...new Set(RADIUS_STEPS.map((step) => Math.min(radius * step, MAX_RADIUS_KM)))]
+      : [radius];
+    for (const step of steps) {
+      const results = byDistance
+        .filter((event) => event.distanceKm !== undefined && event.distanceKm <= step)
+        .slice(0, limit);
+      if (results.length > 0) {
+        return {
+          events: results,
+          searchLevel: "radius",
+          radiusKm: step,
+          message:
+            step === radius
+              ? `${center.label} 반경 ${step}km 안에서 ${results.length}개의 공연을 찾았습니다.`
+              : `${center.label} 반경 ${radius}km 안에 공연이 없어 ${step}km로 확장했습니다. ${results.length}개의 공연을 찾았습니다.`,
+        };
+      }
+    }
+
+    if (!expandArea) {
+      return {
+        events: [],
+        searchLevel: "radius",
+        radiusKm: radius,
+        message: `${center.label} 반경 ${radius}km 안에서 조건에 맞는 공연을 찾지 못했습니다.`,
+      };
+    }
+
+    const results = byDistance.slice(0, limit);
+    return {
+      events: results,
+      searchLevel: "sido",
+      message: `${center.label} 반경 ${steps[steps.length - 1]}km 안에 공연이 없어 ${getAreaName(
+        nearSido
+      )} 전체를 가까운 순으로 보여드립니다. ${results.length}개의 공연을 찾았습니다.`,
+    };
+  }
+
+  /**
+   * 가격·시간 조건을 적용한 목록 조회
+   * - 걸러질 것을 감안해 요청 개수의 2배를 조회한 뒤 상세 정보 확인
+   * - 조건이 없어도 includeDetails면 결과에 상세 정보를 채움
+   */
+  private async fetchEventsMatching(
+    params: any,
+    filters: DetailFilters,
+    includeDetails: boolean = false
+  ): Promise<Performance[]> {
+    const listParams = { ...params, ...this.listFilterParams(filters) };
+    if (!this.hasDetailFilters(filters)) {
+      const events = await this.fetchEvents(listParams);
+      return includeDetails ? this.hydrateEvents(events) : events;
+    }
+
+    const limit = params.limit || 20;
+    const events = await this.fetchEventsPaged(listParams, {
+      targetCount: Math.min(limit * 2, MAX_DETAIL_CANDIDATES),
+    });
+    const detailed = await this.hydrateEvents(events);
+
+    return detailed
+      .filter((event) => this.matchesDetailFilters(event, filters))
+      .slice(0, limit);
+  }
+
+  /**
+   * 개막 예정 공연 조회 (KOPIS 공연상태 01: 공연예정)
+   * - KOPIS 기간 조건은 공연 기간이 겹치는지로 거르므로 개막일이 기간 안인지 다시 확인
+   */
+  private async fetchOpenings(
+    params: { genreCode?: string; startDate: string; endDate: string; signguCode?: string },
+    limit: number
+  ): Promise<Performance[]> {
+    const events = await this.fetchEventsPaged(
+      { ...params, prfstate: "01" },
+      { targetCount: MAX_ROWS_PER_PAGE * this.maxPages }
+    );
+
+    return events
+      .filter((event) => {
+        const opening = toYmd(event.period.start);
+        return (
+          event.state === "공연예정" &&
+          opening !== "" &&
+          opening >= params.startDate &&
+          opening <= params.endDate
+        );
+      })
+      .sort((a, b) => a.period.start!.getTime() - b.period.start!.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * 목록 결과에 상세 정보 채우기 (관람료·공연 시간·러닝타임·관람 연령·출연진)
+   * - 목록 응답에는 관람료(pcseguidance) 등이 없어 공연 상세(/pblprfr/{id})로 보충
+   * - center가 있으면 공연시설 상세(la/lo)로 검색 중심까지 거리도 계산
+   * - 상세·공연시설 응답은 캐시되며 동시 요청 수는 pageConcurrency
+   * - 시간 예산(hydrationBudgetMs)을 넘기거나 조회에 실패한 공연은 목록 정보 그대로 둠
+   */
+  private async hydrateEvents<T extends Performance>(
+    events: T[],
+    options: HydrationOptions = {}
+  ): Promise<T[]> {
+    const { center, limit = MAX_DETAIL_CANDIDATES, deadline = Date.now() + this.hydrationBudgetMs } = options;
+
+    // 같은 공연시설은 한 번만 조회
+    const venues = new Map<string, Promise<GeoPoint | null>>();
+    const locateVenue = (venueId: string) => {
+      if (!venues.has(venueId)) {
+        venues.set(
+          venueId,
+          this.getVenueDetail(venueId).then((venue) =>
+            venue && venue.latitude !== null && venue.longitude !== null
+              ? { latitude: venue.latitude, longitude: venue.longitude }
+              : null
+          )
+        );
+      }
+      return venues.get(venueId)!;
+    };
+
+    const hydrate = async (event: T): Promise<T> => {
+      if (!center && event.runtime !== undefined) return event;
+
+      const detail = await this.getEventDetail(event.id);
+      if (!detail) return event;
+
+      const merged: T = {
+        ...event,
+        price: detail.price,
+        schedule: detail.schedule,
+        runtime: detail.runtime,
+        age: detail.age,
+        ageLimit: detail.ageLimit,
+        runningTime: detail.runningTime,
+        cast: detail.cast,
+      };
+      const point = center && detail.venueId ? await locateVenue(detail.venueId) : null;
+      return center && point ? { ...merged, distanceKm: haversineKm(center, point) } : merged;
+    };
+
+    const hydrated = await mapWithConcurrency(events.slice(0, limit), this.pageConcurrency, async (event) => {
+      if (Date.now() >= deadline) return event;
+      try {
+        return (await runUntilDeadline(hydrate(event), deadline)) ?? event;
+      } catch (error) {
+        console.error(`Failed to fetch detail for ${event.id}:`, error);
+        return event;
+      }
+    });
+
+    return [...hydrated, ...events.slice(limit)];
+  }
+
+  /**
+   * 공연명·공연시설명이 맞는 공연 (중복 제거)
+   * - 같은 작품(지역·회차 표기를 뺀 제목)끼리 묶어 일치 점수가 높은 작품부터
+   * - 작품 안에서는 공연중 → 공연예정 → 공연완료, 개막일 순
+   */
+  private matchTitle(events: Performance[], title: string, venueName: string): Performance[] {
+    const works = new Map<string, { score: number; events: Performance[] }>();
+    const seen = new Set<string>();
+
+    for (const event of events) {
+      if (seen.has(event.id)) continue;
+      seen.add(event.id);
+
+      const score = title ? scoreTitleMatch(event.title, title) : 100;
+      if (score < MIN_TITLE_MATCH_SCORE) continue;
+      if (venueName && scoreTitleMatch(event.venueName || "", venueName) < MIN_TITLE_MATCH_SCORE) continue;
+
+      const key = titleWorkKey(event.title);
+      const work = works.get(key) ?? { score, events: [] };
+      work.score = Math.max(work.score, score);
+      work.events.push(event);
+      works.set(key, work);
+    }
+
+    const stateOrder = (event: Performance) => RUN_STATE_ORDER[event.state ?? "공연완료"];
+    return [...works.values()]
+      .sort((a, b) => b.score - a.score)
+      .flatMap((work) =>
+        work.events.sort(
+          (a, b) =>
+            stateOrder(a) - stateOrder(b) ||
+            (a.period.start?.getTime() ?? Infinity) - (b.period.start?.getTime() ?? Infinity)
+        )
+      );
+  }
+
+  private hasDetailFilters(filters: DetailFilters): boolean {
+    return (
+      filters.minPrice !== undefined ||
+      filters.maxPrice !== undefined ||
+      Boolean(filters.daysOfWeek?.length) ||
+      filters.timeOfDay !== undefined ||
+      filters.childAge !== undefined ||
+      filters.minRuntimeMinutes !== undefined ||
+      filters.maxRuntimeMinutes !== undefined ||
+      filters.endsBefore !== undefined
+    );
+  }
+
+  /**
+   * 목록 조회 단계에서 거르는 조건 (아동 공연 → kidstate)
+   */
+  private listFilterParams(filters: DetailFilters): { kidstate?: string } {
+    return filters.familyFriendly ? { kidstate: "Y" } : {};
+  }
+
+  /**
+   * 가격·시간·관람 연령·러닝타임 조건 일치 여부
+   * - 자율 기부 공연은 가격 상한 조건만 있을 때 포함
+   * - 관람 연령을 알 수 없는 공연은 아이 나이 조건이 있으면 제외
+   * - 러닝타임을 알 수 없는 공연은 러닝타임·끝나는 시각 조건이 있으면 제외
+   */
+  private matchesDetailFilters(event: Performance, filters: DetailFilters): boolean {
+    const { minPrice, maxPrice, daysOfWeek, timeOfDay, childAge, minRuntimeMinutes, maxRuntimeMinutes, endsBefore } =
+      filters;
+
+    const priceMatches =
+      event.price.isDonation && event.price.min === null
+        ? minPrice === undefined
+        : matchesPriceRange(event.price, minPrice, maxPrice);
+    const ageMatches = childAge === undefined || isSuitableForAge(event.ageLimit, childAgeToMonths(childAge));
+    const runtimeMatches = matchesRuntimeRange(event.runningTime, minRuntimeMinutes, maxRuntimeMinutes);
+    if (!priceMatches || !ageMatches || !runtimeMatches) return false;
+
+    if (endsBefore === undefined) {
+      return matchesSchedule(event.schedule, daysOfWeek, timeOfDay);
+    }
+    const minutes = event.runningTime?.minutes;
+    const latestStart = minutes ? latestStartTime(endsBefore, minutes) : null;
+    return latestStart !== null && matchesSchedule(event.schedule, daysOfWeek, timeOfDay, latestStart);
+  }
+
+  /**
+   * 조건 안내 (예: "30,000원 이하 · 토·일 · 낮 (17시 이전) · 만 7세 관람 가능")
+   */
+  private formatDetailFilters(filters: DetailFilters): string {
+    const {
+      minPrice,
+      maxPrice,
+      daysOfWeek,
+      timeOfDay,
+      childAge,
+      familyFriendly,
+      minRuntimeMinutes,
+      maxRuntimeMinutes,
+      endsBefore,
+    } = filters;
+    const won = (amount: number) => `${amount.toLocaleString()}원`;
+    const parts: string[] = [];
+
+    if (minPrice !== undefined && maxPrice !== undefined) {
+      parts.push(`${won(minPrice)} ~ ${won(maxPrice)}`);
+    } else if (minPrice !== undefined) {
+      parts.push(`${won(minPrice)} 이상`);
+    } else if (maxPrice !== undefined) {
+      parts.push(`${won(maxPrice)} 이하`);
+    }
+    if (daysOfWeek?.length) {
+      parts.push(daysOfWeek.map((day) => DAY_NAMES[day]).join("·"));
+    }
+    if (timeOfDay) {
+      parts.push(TIME_OF_DAY_LABELS[timeOfDay]);
+    }
+    if (familyFriendly) {
+      parts.push("아동 공연");
+    }
+    if (childAge !== undefined) {
+      parts.push(`${formatChildAge(childAge)} 관람 가능`);
+    }
+    if (minRuntimeMinutes !== undefined && maxRuntimeMinutes !== undefined) {
+      parts.push(`러닝타임 ${formatMinutes(minRuntimeMinutes)} ~ ${formatMinutes(maxRuntimeMinutes)}`);
+    } else if (minRuntimeMinutes !== undefined) {
+      parts.push(`러닝타임 ${formatMinutes(minRuntimeMinutes)} 이상`);
+    } else if (maxRuntimeMinutes !== undefined) {
+      parts.push(`러닝타임 ${formatMinutes(maxRuntimeMinutes)} 이하`);
+    }
+    if (endsBefore) {
+      parts.push(`${endsBefore} 전 종료`);
+    }
+
+    return parts.join(" · ");
+  }
+
+  /**
+   * 목표 개수 또는 페이지 예산에 도달할 때까지 cpage를 순회하며 조회
+   * - pageConcurrency 개의 페이지를 묶어서 동시에 요청
+   * - 행 수가 모자란 페이지가 나오면 마지막 페이지로 판단하고 중단
+   */
+  private async fetchEventsPaged(
+    params: any,
+    options: PagedFetchOptions
+  ): Promise<Performance[]> {
+    const rows = Math.min(Math.max(options.targetCount, 1), MAX_ROWS_PER_PAGE);
+    const maxPages = Math.min(options.maxPages ?? this.maxPages, this.maxPages);
+    const startPage = options.startPage ?? 1;
+    const lastPage = startPage + maxPages - 1;
+    const events: Performance[] = [];
+
+    let page = startPage;
+    while (page <= lastPage && events.length < options.targetCount) {
+      const batchSize = Math.min(this.pageConcurrency, lastPage - page + 1);
+      const pages = Array.from({ length: batchSize }, (_, i) => page + i);
+
+      const results = await Promise.all(
+        pages.map((p) => this.fetchEvents({ ...params, page: p, limit: rows }))
+      );
+
+      let reachedEnd = false;
+      for (const pageEvents of results) {
+        events.push(...pageEvents);
+        if (pageEvents.length < rows) {
+          reachedEnd = true;
+          break;
+        }
+      }
+
+      if (reachedEnd) break;
+      page += batchSize;
+    }
+
+    return events.slice(0, options.targetCount);
+  }
+
+  private async fetchBoxOffice(
+    start: Date,
+    end: Date,
+    genreCode?: string,
+    sidoCode?: string
+  ): Promise<any[]> {
+    const parsed = await this.request("boxoffice", {
+      stdate: this.formatDate(start),
+      eddate: this.formatDate(end),
+      catecode: genreCode,
+      area: sidoCode,
+    });
+
+    return this.toArray(parsed.boxofs?.boxof);
+  }
+
+  /**
+   * KOPIS API 공통 요청 (값이 없는 파라미터는 생략)
+   * - 캐시가 설정되어 있으면 엔드포인트 종류별 TTL로 응답 캐싱
+   */
+  private async request(
+    path: string,
+    query: Record<string, string | undefined> = {}
+  ): Promise<any> {
+    const queryParams = new URLSearchParams();
+
+    Object.entries(query)
+      .filter(([, value]) => value !== undefined && value !== "")
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([key, value]) => {
+        queryParams.append(key, value as string);
+      });
+
+    const load = async () => {
+      const url = `${this.baseUrl}/${path}?service=${this.apiKey}&${queryParams.toString()}`;
+      const response = await axios.get(url);
+      return this.parser.parse(response.data);
+    };
+
+    if (!this.cache) {
+      return load();
+    }
+
+    // 캐시 키에는 API 키를 넣지 않음 (파일 캐시에 키가 남지 않도록)
+    const endpoint = path.split("/")[0];
+    const key = `${path}?${queryParams.toString()}`;
+    return this.cache.getOrLoad(endpoint, key, this.getTtlClass(path), load);
+  }
+
+  private getTtlClass(path: string): CacheTtlClass {
+    if (path.startsWith("boxoffice")) return "boxoffice";
+    // "pblprfr/PF123456"처럼 ID가 붙은 경로는 상세 조회
+    return path.includes("/") ? "detail" : "list";
+  }
+
+  private toArray<T>(value: T | T[] | undefined | null): T[] {
+    if (value === undefined || value === null || value === "") return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private parseDate(dateStr: string): Date {
+    return new Date(
+      parseInt(dateStr.substring(0, 4)),
+      parseInt(dateStr.substring(4, 6)) - 1,
+      parseInt(dateStr.substring(6, 8))
+    );
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
   private formatDate(date: Date): string {
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, "0");
@@ -599,23 +2360,111 @@ export class KopisService {
     return `${year}${month}${day}`;
   }
 
-  private extractMinPrice(priceStr: string): number {
-    if (!priceStr) return Infinity;
-    const matches = priceStr.match(/\d+/g);
-    if (!matches) return Infinity;
-    return Math.min(...matches.map(Number));
+  /**
+   * 공연기간 표시 (예: "2026.10.01 ~ 2026.12.31")
+   */
+  private formatPeriod(event: Performance): string {
+    return `${formatKopisDate(event.period.start)} ~ ${formatKopisDate(event.period.end)}`;
+  }
+
+  /**
+   * 상세 정보를 채운 공연의 관람료·러닝타임·관람 연령·출연진·공연 시간 (채우지 않았으면 빈 문자열)
+   */
+  private formatDetailLines(event: Performance, includePrice: boolean = true): string {
+    if (event.runtime === undefined) return "";
+
+    let lines = "";
+    if (includePrice && event.price.text) {
+      lines += `- 💵 **관람료**: ${event.price.text}\n`;
+    }
+    if (event.runtime) {
+      lines += `- ⏱️ **러닝타임**: ${this.formatRunningTime(event)}\n`;
+    }
+    if (event.age) {
+      lines += `- 🔞 **관람연령**: ${event.age}\n`;
+    }
+    if (event.cast && event.cast.length > 0) {
+      const shown = event.cast.slice(0, MAX_CAST_IN_LIST);
+      const rest = event.cast.length - shown.length;
+      lines += `- 🎬 **출연**: ${shown.join(", ")}${rest > 0 ? ` 외 ${rest}명` : ""}\n`;
+    }
+    if (event.schedule.slots.length > 0) {
+      lines += `- 🕒 **공연시간**: ${formatSchedule(event.schedule)}\n`;
+    }
+    return lines;
+  }
+
+  /**
+   * 해석한 러닝타임 (예: "2시간 30분 (인터미션 20분 포함)", 해석하지 못하면 원문)
+   */
+  private formatRunningTime(event: Performance): string {
+    const minutes = event.runningTime?.minutes;
+    if (!minutes) return event.runtime || "";
+
+    const intermission = event.runningTime?.intermissionMinutes;
+    const note =
+      intermission === 0 ? " (인터미션 없음)" : intermission ? ` (인터미션 ${intermission}분 포함)` : "";
+    return `${formatMinutes(minutes)}${note}`;
+  }
+
+  /**
+   * 인물 역할 (예: "출연 · 지킬", "제작진 · 연출")
+   */
+  private formatCreditRole(credit: PersonCredit): string {
+    const role = credit.role === "cast" ? "출연" : "제작진";
+    return credit.roleDetail ? `${role} · ${credit.roleDetail}` : role;
+  }
+
+  /**
+   * 날짜 + 요일 (예: "2026.10.23 (금)")
+   */
+  private formatDayWithWeekday(date: Date | null): string {
+    if (!date) return "정보 없음";
+    return `${formatKopisDate(date)} (${DAY_NAMES[DAYS_OF_WEEK[(date.getDay() + 6) % 7]]})`;
   }
 
-  private cleanHtml(html: string): string {
-    return html
-      .replace(/<[^>]*>/g, "")
-      .replace(/&nbsp;/g, " ")
-      .replace(/&amp;/g, "&")
-      .replace(/&lt;/g, "<")
-      .replace(/&gt;/g, ">")
+  /**
+   * 개막일이 속한 주 (월~일)
+   * 예: "이번 주 (10.19 ~ 10.25)", "다음 주 (...)", "3주 후 (...)"
+   */
+  private formatOpeningWeek(date: Date | null): string {
+    if (!date) return "개막일 미정";
+
+    const startOfWeek = (day: Date) => {
+      const result = this.addDays(day, -((day.getDay() + 6) % 7));
+      result.setHours(0, 0, 0, 0);
+      return result;
+    };
+    const monday = startOfWeek(date);
+    const thisMonday = startOfWeek(new Date());
+
+    const weeksAhead = Math.round((monday.getTime() - thisMonday.getTime()) / (1000 * 60 * 60 * 24 * 7));
+    const label = weeksAhead <= 0 ? "이번 주" : weeksAhead === 1 ? "다음 주" : `${weeksAhead}주 후`;
+    const range = [monday, this.addDays(monday, 6)].map((day) => formatKopisDate(day).substring(5)).join(" ~ ");
+
+    return `${label} (${range})`;
+  }
+
+  /**
+   * 공연명에서 축제명 추출
+   * 예: "2026 서울재즈페스티벌 [잔디마당]" → "2026 서울재즈페스티벌"
+   *     "부산국제연극제 - 햄릿" → "부산국제연극제"
+   */
+  private extractFestivalName(title: string): string {
+    return title
+      .split(/\s[-–:]\s/)[0]
+      .replace(/\s*[[(〈<《].*?[\])〉>》]\s*$/, "")
       .trim();
   }
 
+  /**
+   * 다음 페이지 안내 (cursor가 있을 때만)
+   */
+  private formatCursorFooter(nextCursor?: string): string {
+    if (!nextCursor) return "";
+    return `\n> 📄 **더 보기**: 같은 도구를 \`cursor: "${nextCursor}"\` 로 다시 호출하면 다음 결과를 볼 수 있습니다.\n`;
+  }
+
   private truncateIfNeeded(text: string): string {
     if (text.length <= MAX_RESPONSE_SIZE) {
       return text;
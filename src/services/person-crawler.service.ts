@@ -0,0 +1,127 @@
+import { KopisService } from './kopis.service.js';
+import { PersonIndexService } from './person-index.service.js';
+import { PersonCrawlStatus } from '../types/person.types.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { formatYmd } from '../utils/date-window.js';
+
+// 출연진이 바뀌었을 수 있으므로 다시 색인하는 주기 (ms)
+const REINDEX_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 수집 1회에 새로 조회하는 공연 상세 상한 (KOPIS 호출량 제한)
+const MAX_DETAILS_PER_CRAWL = 300;
+
+export interface PersonCrawlerOptions {
+  intervalMs?: number;  // 수집 주기 (0이면 시작 시 1회만)
+  days?: number;        // 오늘부터 며칠 안에 볼 수 있는 공연을 색인할지
+  concurrency?: number; // 상세 조회 동시 요청 수
+}
+
+/**
+ * 현재·예정 공연의 상세 정보를 주기적으로 조회해 인물 색인을 채우는 백그라운드 수집기
+ * - 같은 수집이 겹치지 않도록 진행 중인 수집을 공유
+ * - 목록은 지난 수집이 멈춘 페이지부터 이어 읽어 여러 번의 수집에 걸쳐 전체를 훑음
+ * - 수집이 끝나면 종료된 공연을 정리하고 색인을 저장
+ */
+export class PersonIndexCrawler {
+  private intervalMs: number;
+  private days: number;
+  private concurrency: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<PersonCrawlStatus> | null = null;
+  private lastStatus: PersonCrawlStatus | null = null;
+
+  constructor(
+    private kopisService: KopisService,
+    private index: PersonIndexService,
+    options: PersonCrawlerOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? 6 * 60 * 60 * 1000;
+    this.days = options.days ?? 90;
+    this.concurrency = options.concurrency ?? 3;
+  }
+
+  /**
+   * 즉시 1회 수집 후 주기마다 반복 (타이머는 프로세스 종료를 막지 않음)
+   */
+  start(): void {
+    void this.crawl();
+    if (this.intervalMs > 0 && !this.timer) {
+      this.timer = setInterval(() => void this.crawl(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(): PersonCrawlStatus | null {
+    return this.lastStatus;
+  }
+
+  /**
+   * 수집 1회 (이미 진행 중이면 그 결과를 기다림)
+   */
+  crawl(): Promise<PersonCrawlStatus> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(): Promise<PersonCrawlStatus> {
+    const status: PersonCrawlStatus = {
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      startPage: this.index.getCrawlPage(),
+      listed: 0,
+      indexed: 0,
+      failed: 0,
+      error: null,
+    };
+    this.lastStatus = status;
+
+    try {
+      const { events, nextPage } = await this.kopisService.listCurrentAndUpcoming(this.days, status.startPage);
+      status.listed = events.length;
+
+      this.index.prune(formatYmd(new Date()));
+
+      const stale = events.filter(event => !this.index.isFresh(event.id, REINDEX_AFTER_MS));
+      const targets = stale.slice(0, MAX_DETAILS_PER_CRAWL);
+
+      await mapWithConcurrency(targets, this.concurrency, async (event) => {
+        try {
+          const detail = await this.kopisService.getEventDetail(event.id);
+          if (detail) {
+            this.index.add(detail);
+            status.indexed++;
+          }
+        } catch (error) {
+          status.failed++;
+          console.error(`Failed to index people for ${event.id}:`, error);
+        }
+      });
+
+      // 상세 상한에 걸려 남은 공연이 있으면 다음 수집도 같은 페이지부터
+      this.index.setCrawlPage(stale.length > targets.length ? status.startPage : nextPage);
+
+      await this.index.save();
+      console.log(
+        `[PersonIndex] Indexed ${status.indexed}/${targets.length} performances (${this.index.getStats().events} total)`
+      );
+    } catch (error) {
+      status.error = error instanceof Error ? error.message : String(error);
+      console.error('Failed to crawl person index:', error);
+    } finally {
+      status.finishedAt = new Date().toISOString();
+    }
+
+    return status;
+  }
+}
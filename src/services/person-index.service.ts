@@ -0,0 +1,270 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PerformanceDetail } from '../types/performance.types.js';
+import {
+  PersonCredit,
+  PersonIndexEntry,
+  PersonIndexFile,
+  PersonIndexStats,
+  PersonMatch,
+  PersonRole,
+} from '../types/person.types.js';
+import { matchesHangul, normalizeHangul } from '../utils/hangul.js';
+import { toYmd } from '../utils/performance-mapper.js';
+
+// 색인 파일 형식 버전 (형식이 바뀌면 올려서 이전 파일은 무시)
+const INDEX_FILE_VERSION = 1;
+
+// "연출: 홍길동" / "조승우(지킬)" → 역할 + 이름
+const ROLE_PREFIX_PATTERN = /^(.+?)\s*[:：]\s*(.+)$/;
+const ROLE_SUFFIX_PATTERN = /^(.+?)\s*\((.+)\)$/;
+
+/**
+ * 출연진·제작진 이름 색인 (공연 상세에서 수집, 디스크에 JSON으로 저장)
+ * - 정규화한 이름 → 공연 ID를 메모리에 두고 부분 일치·초성 검색
+ */
+export class PersonIndexService {
+  private entries = new Map<string, PersonIndexEntry>();
+  private names = new Map<string, Set<string>>();
+  private updatedAt: string | null = null;
+  private crawlPage = 1;
+  private dirty = false;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * 저장된 색인 불러오기 (파일이 없거나 형식이 다르면 빈 색인으로 시작)
+   */
+  async load(): Promise<void> {
+    let parsed: PersonIndexFile;
+    try {
+      parsed = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load person index (${this.filePath}):`, error);
+      }
+      return;
+    }
+
+    if (parsed?.version !== INDEX_FILE_VERSION || !Array.isArray(parsed.entries)) {
+      console.error(`Failed to load person index (${this.filePath}): unsupported format, starting empty`);
+      return;
+    }
+
+    // 형식이 맞지 않는 항목은 건너뜀 (손으로 고쳤거나 일부가 깨진 파일)
+    const entries = parsed.entries.filter(isIndexEntry);
+    if (entries.length < parsed.entries.length) {
+      console.error(
+        `Skipped ${parsed.entries.length - entries.length} malformed person index entries (${this.filePath})`
+      );
+    }
+
+    entries.forEach(entry => this.put(entry));
+    this.updatedAt = parsed.updatedAt ?? null;
+    this.crawlPage = Number.isInteger(parsed.crawlPage) && Number(parsed.crawlPage) > 0 ? Number(parsed.crawlPage) : 1;
+    this.dirty = false;
+  }
+
+  /**
+   * 변경 사항이 있으면 디스크에 저장 (진행 중인 저장이 끝난 뒤 실행)
+   */
+  async save(): Promise<void> {
+    await this.saving;
+    if (!this.dirty) return;
+    this.dirty = false;
+
+    this.saving = this.write({
+      version: INDEX_FILE_VERSION,
+      updatedAt: this.updatedAt,
+      crawlPage: this.crawlPage,
+      entries: [...this.entries.values()],
+    });
+
+    try {
+      await this.saving;
+    } catch (error) {
+      this.dirty = true;
+      throw new Error(`Failed to save person index (${this.filePath}): ${error}`);
+    } finally {
+      this.saving = Promise.resolve();
+    }
+  }
+
+  /**
+   * 공연 상세의 출연진·제작진 색인 (같은 공연은 새 정보로 교체)
+   */
+  add(detail: PerformanceDetail): void {
+    this.put({
+      eventId: detail.id,
+      title: detail.title,
+      endDate: toYmd(detail.period.end) || null,
+      credits: [...parseCredits(detail.cast, 'cast'), ...parseCredits(detail.crew, 'crew')],
+      indexedAt: Date.now(),
+    });
+    this.updatedAt = new Date().toISOString();
+    this.dirty = true;
+  }
+
+  /**
+   * maxAgeMs 안에 색인한 공연인지
+   */
+  isFresh(eventId: string, maxAgeMs: number): boolean {
+    const entry = this.entries.get(eventId);
+    return entry !== undefined && Date.now() - entry.indexedAt < maxAgeMs;
+  }
+
+  /**
+   * 종료일이 지난 공연 제거 (today: YYYYMMDD)
+   */
+  prune(today: string): number {
+    const ended = [...this.entries.values()].filter(entry => entry.endDate !== null && entry.endDate < today);
+    ended.forEach(entry => this.remove(entry.eventId));
+
+    if (ended.length > 0) {
+      this.updatedAt = new Date().toISOString();
+      this.dirty = true;
+    }
+    return ended.length;
+  }
+
+  /**
+   * 이름 검색 (공백·문장부호 무시 부분 일치, "ㅈㅅㅇ" 같은 초성 검색)
+   * - 공연별로 일치한 인물을 묶어서 반환
+   */
+  search(query: string, role?: PersonRole): PersonMatch[] {
+    const normalizedQuery = normalizeHangul(query);
+    const matches = new Map<string, PersonMatch>();
+
+    for (const [name, eventIds] of this.names) {
+      if (!matchesHangul(name, normalizedQuery)) continue;
+
+      for (const eventId of eventIds) {
+        const entry = this.entries.get(eventId)!;
+        const credits = entry.credits.filter(
+          credit => normalizeHangul(credit.name) === name && (!role || credit.role === role)
+        );
+        if (credits.length === 0) continue;
+
+        const match = matches.get(eventId) ?? { entry, credits: [], exact: false };
+        match.credits.push(...credits);
+        match.exact = match.exact || name === normalizedQuery;
+        matches.set(eventId, match);
+      }
+    }
+
+    return [...matches.values()];
+  }
+
+  /**
+   * 다음 수집을 시작할 공연 목록 cpage (색인 파일에 함께 저장)
+   */
+  getCrawlPage(): number {
+    return this.crawlPage;
+  }
+
+  setCrawlPage(page: number): void {
+    if (page === this.crawlPage) return;
+    this.crawlPage = page;
+    this.dirty = true;
+  }
+
+  getStats(): PersonIndexStats {
+    return {
+      events: this.entries.size,
+      people: this.names.size,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /**
+   * 임시 파일에 쓴 뒤 rename하여 읽는 도중 깨진 파일이 보이지 않도록 함
+   */
+  private async write(file: PersonIndexFile): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(file), 'utf-8');
+    await fs.rename(temp, this.filePath);
+  }
+
+  private put(entry: PersonIndexEntry): void {
+    this.remove(entry.eventId);
+    this.entries.set(entry.eventId, entry);
+
+    for (const credit of entry.credits) {
+      const name = normalizeHangul(credit.name);
+      if (!name) continue;
+      if (!this.names.has(name)) {
+        this.names.set(name, new Set());
+      }
+      this.names.get(name)!.add(entry.eventId);
+    }
+  }
+
+  private remove(eventId: string): void {
+    const entry = this.entries.get(eventId);
+    if (!entry) return;
+
+    for (const credit of entry.credits) {
+      const name = normalizeHangul(credit.name);
+      const eventIds = this.names.get(name);
+      eventIds?.delete(eventId);
+      if (eventIds?.size === 0) {
+        this.names.delete(name);
+      }
+    }
+    this.entries.delete(eventId);
+  }
+}
+
+/**
+ * 저장된 색인 항목 형식 검사
+ */
+function isIndexEntry(value: unknown): value is PersonIndexEntry {
+  const entry = value as PersonIndexEntry;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.eventId === 'string' &&
+    typeof entry.title === 'string' &&
+    (entry.endDate === null || typeof entry.endDate === 'string') &&
+    typeof entry.indexedAt === 'number' &&
+    Array.isArray(entry.credits) &&
+    entry.credits.every(
+      credit =>
+        typeof credit === 'object' &&
+        credit !== null &&
+        typeof credit.name === 'string' &&
+        (credit.role === 'cast' || credit.role === 'crew')
+    )
+  );
+}
+
+/**
+ * KOPIS 출연진/제작진 이름 목록 → 인물 (역할이 붙어 있으면 분리, 중복 제거)
+ * 예: ["연출: 오경택", "조승우(지킬)"] → 오경택(연출), 조승우(지킬)
+ */
+function parseCredits(names: string[], role: PersonRole): PersonCredit[] {
+  const credits = new Map<string, PersonCredit>();
+
+  for (const raw of names) {
+    let name = raw.trim();
+    let roleDetail: string | null = null;
+
+    const prefix = name.match(ROLE_PREFIX_PATTERN);
+    const suffix = name.match(ROLE_SUFFIX_PATTERN);
+    if (prefix) {
+      roleDetail = prefix[1].trim();
+      name = prefix[2].trim();
+    } else if (suffix) {
+      name = suffix[1].trim();
+      roleDetail = suffix[2].trim();
+    }
+
+    if (name && !credits.has(name)) {
+      credits.set(name, { name, role, roleDetail });
+    }
+  }
+
+  return [...credits.values()];
+}
@@ -0,0 +1,114 @@
+import { KopisService } from './kopis.service.js';
+import { PersonIndexService } from './person-index.service.js';
+import { PersonSearchPerformance, PerformanceState } from '../types/performance.types.js';
+import { PersonMatch, PersonRole } from '../types/person.types.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { toYmd } from '../utils/performance-mapper.js';
+
+const PERSON_ROLES: PersonRole[] = ['cast', 'crew'];
+
+// 공연중 → 공연예정 순으로 보여줌
+const STATE_ORDER: Record<PerformanceState, number> = {
+  '공연중': 0,
+  '공연예정': 1,
+  '공연완료': 2,
+};
+
+export interface PersonSearchParams {
+  name: string;
+  role?: PersonRole; // 생략 시 출연진·제작진 모두
+  limit?: number;
+}
+
+export interface PersonSearchResult {
+  events: PersonSearchPerformance[];
+  count: number;
+  total: number; // 색인에서 이름이 일치한 공연 수
+  message: string;
+}
+
+/**
+ * 출연진·제작진 이름으로 공연 검색
+ * - 인물 색인에서 공연을 찾고, 공연 정보는 상세 조회(캐시)로 채움
+ */
+export class PersonSearchService {
+  constructor(
+    private kopisService: KopisService,
+    private index: PersonIndexService,
+    private concurrency: number = 4
+  ) {}
+
+  async search(params: PersonSearchParams): Promise<PersonSearchResult> {
+    const name = String(params.name || '').trim();
+    if (!name) {
+      throw new Error('name is required for search_by_person');
+    }
+    if (params.role !== undefined && !PERSON_ROLES.includes(params.role)) {
+      throw new Error(`잘못된 role 값입니다: ${params.role} (사용 가능: cast, crew)`);
+    }
+
+    const validLimit = Math.min(Math.max(params.limit ?? 10, 1), 30);
+    const { events: indexedCount } = this.index.getStats();
+
+    // 이름 전체 일치 → 종료일이 가까운 순으로 후보 선택 (색인상 이미 끝난 공연 제외)
+    const today = toYmd(new Date());
+    const matches = this.index
+      .search(name, params.role)
+      .filter(match => !match.entry.endDate || match.entry.endDate >= today)
+      .sort(
+        (a, b) =>
+          Number(b.exact) - Number(a.exact) ||
+          (a.entry.endDate ?? '99999999').localeCompare(b.entry.endDate ?? '99999999')
+      );
+
+    // 종료된 공연을 거른 뒤 limit 개수가 찰 때까지 limit 단위로 상세 조회
+    const found: PersonSearchPerformance[] = [];
+    for (let offset = 0; offset < matches.length && found.length < validLimit; offset += validLimit) {
+      const batch = await mapWithConcurrency(
+        matches.slice(offset, offset + validLimit),
+        this.concurrency,
+        match => this.hydrate(match)
+      );
+      found.push(...batch.filter((event): event is PersonSearchPerformance => event !== null));
+    }
+
+    const events = found
+      .slice(0, validLimit)
+      .sort(
+        (a, b) =>
+          (STATE_ORDER[a.state ?? '공연완료'] - STATE_ORDER[b.state ?? '공연완료']) ||
+          (a.period.start?.getTime() ?? 0) - (b.period.start?.getTime() ?? 0)
+      );
+
+    return {
+      events,
+      count: events.length,
+      total: matches.length,
+      message: this.generateMessage(name, events.length, matches.length, indexedCount),
+    };
+  }
+
+  /**
+   * 색인 결과 → 공연 상세 + 일치한 인물 (조회 실패·종료된 공연은 제외)
+   */
+  private async hydrate(match: PersonMatch): Promise<PersonSearchPerformance | null> {
+    try {
+      const detail = await this.kopisService.getEventDetail(match.entry.eventId);
+      if (!detail || detail.state === '공연완료') return null;
+      return { ...detail, credits: match.credits };
+    } catch (error) {
+      console.error(`Failed to fetch detail for ${match.entry.eventId}:`, error);
+      return null;
+    }
+  }
+
+  private generateMessage(name: string, count: number, total: number, indexedCount: number): string {
+    if (indexedCount === 0) {
+      return `아직 출연진 색인을 만드는 중입니다. 잠시 후 다시 검색해주세요.`;
+    }
+    if (count === 0) {
+      return `"${name}" 이름으로 등록된 현재/예정 공연이 없습니다. (색인된 공연 ${indexedCount}개)`;
+    }
+    return `"${name}" 이름으로 ${total}개 공연을 찾았습니다. ${count}개를 보여드립니다.`;
+  }
+}
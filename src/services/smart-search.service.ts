@@ -1,340 +1,533 @@
-import { KopisService } from './kopis.service.js';
+import { KopisService, DetailFilters, GeoFilter } from './kopis.service.js';
 import { QueryAnalyzer } from '../utils/query-analyzer.js';
 import { ScoreCalculator } from '../utils/score-calculator.js';
-import { SmartSearchResult } from '../types/search.types.js';
-import { GENRE_CODES, getGenreName, getSidoNameFull, extractSidoCode } from '../constants/kopis-codes.js';
+import { GenreSimilarityGraph } from '../utils/genre-similarity.js';
+import { KoreanQueryParser } from '../utils/korean-query-parser.js';
+import { QueryAnalysis, RelaxableCondition, RelaxationStrategy, SmartSearchResult } from '../types/search.types.js';
+import { Performance } from '../types/performance.types.js';
+import { SearchCursor, encodeCursor, decodeCursor } from '../utils/cursor.js';
+import { mapWithConcurrency, runUntilDeadline } from '../utils/concurrency.js';
+import { DEFAULT_RADIUS_KM, MAX_RADIUS_KM, resolveSearchCenter } from '../utils/geo.js';
+import { LocationStep, buildRelaxationPlan, resolveAllowedConditions } from '../utils/relaxation-plan.js';
+import { DATE_EXPANSION_LABELS, widenDateWindow } from '../utils/date-window.js';
+import { formatChildAge } from '../utils/age-parser.js';
+import { GENRE_CODES, getGenreName, getSidoNameFull, getGugunNameFull, extractSidoCode } from '../constants/kopis-codes.js';
+import { getNeighborGugunCodes } from '../constants/gugun-neighbors.js';
+
+// KopisService 목록 조회 상한 (validLimit)
+const MAX_FETCH_LIMIT = 50;
+
+// 모든 장르로 완화할 때 장르별 조회 개수
+const ALL_GENRES_FETCH_LIMIT = 10;
+
+// 예산 상한 완화 비율 (loose 또는 allowRelax에 price)
+const PRICE_INCREASE_RATE = 1.5;
+
+// 도구별로 완화할 수 있는 조건
+// - 무료 검색은 기간(오늘~30일) 고정, 인기 공연은 박스오피스 집계라 장르만 완화
+// - 개막 예정 공연은 관람료 조건이 없어 예산 완화 제외
+// - 가족 공연은 아동 공연(kidstate)에서 일반 공연으로 넓히는 관객 완화가 추가됨 (관람 연령 조건은 유지)
+const TOOL_CONDITIONS: Record<string, RelaxableCondition[]> = {
+  filter_free_events: ['genre', 'location'],
+  get_trending_performances: ['genre'],
+  get_upcoming_openings: ['genre', 'location', 'date'],
+  get_family_performances: ['audience', 'genre', 'location', 'date', 'price'],
+};
+
+// 점수 대신 개막일 순으로 정렬하는 도구
+const CHRONOLOGICAL_TOOLS = ['get_upcoming_openings'];
+const DEFAULT_TOOL_CONDITIONS: RelaxableCondition[] = ['genre', 'location', 'date', 'price'];
+
+// 완화 단계 실행 결과 (fresh: 앞 단계에 없던 조회를 새로 했는지)
+interface LevelResult {
+  events: Performance[];
+  relaxed: string[];
+  fresh: boolean;
+}
+
+export interface SmartSearchOptions {
+  concurrency?: number; // 단계 내 동시 조회 수
+  budgetMs?: number;    // 검색 1회 전체 시간 예산 (ms)
+  genreGraph?: GenreSimilarityGraph; // 장르 유사도 (기본: DEFAULT_GENRE_SIMILARITY)
+}
 
 /**
- * 고정 4단계 완화 전략을 사용하는 스마트 검색 엔진
+ * 우선순위 기반 완화 계획(RelaxationStrategy 단계 목록)으로 검색하는 스마트 검색 엔진
  */
 export class SmartSearchService {
   private queryAnalyzer: QueryAnalyzer;
   private scoreCalculator: ScoreCalculator;
+  private queryParser: KoreanQueryParser;
+  private genreGraph: GenreSimilarityGraph;
+  private concurrency: number;
+  private budgetMs: number;
+  private fetchMemo = new Map<string, Promise<Performance[]>>();
 
-  constructor(private kopisService: KopisService) {
+  constructor(private kopisService: KopisService, options: SmartSearchOptions = {}) {
     this.queryAnalyzer = new QueryAnalyzer();
-    this.scoreCalculator = new ScoreCalculator();
+    this.genreGraph = options.genreGraph ?? new GenreSimilarityGraph();
+    this.scoreCalculator = new ScoreCalculator(this.genreGraph);
+    this.queryParser = new KoreanQueryParser();
+    this.concurrency = options.concurrency ?? 4;
+    this.budgetMs = options.budgetMs ?? 8000;
   }
 
   /**
    * 스마트 검색 실행 (모든 도구 통합)
    */
-  async search(toolName: string, args: any): Promise<SmartSearchResult> {
-    const analysis = this.queryAnalyzer.analyze(toolName, args);
-    const minCount = analysis.parsedParams.minCount || 3;
+  async search(toolName: string, rawArgs: any): Promise<SmartSearchResult> {
+    // cursor가 있으면 원래 검색 인자와 다음 결과 시작 위치를 복원
+    const cursor = rawArgs?.cursor ? decodeCursor(rawArgs.cursor, toolName) : null;
+    const baseArgs: any = cursor ? cursor.args : { ...rawArgs };
+    delete baseArgs.cursor;
+    const offset = cursor?.offset || 0;
+
+    const analysis = this.queryAnalyzer.analyze(toolName, baseArgs);
+    return this.runSearch(toolName, baseArgs, analysis, { toolName, args: baseArgs, offset });
+  }
 
-    // Level 1: 요청 그대로
-    const level1 = await this.executeLevel1(toolName, args);
-    if (level1.events.length >= minCount) {
-      return this.formatResult(level1.events, 1, [], analysis, minCount);
+  /**
+   * 자연어 질의 검색 (ask_performances)
+   * - 문장을 해석해 알맞은 검색 도구와 인자로 스마트 검색 실행
+   * - cursor에는 원문 질의만 담아 다음 페이지에서 다시 해석
+   */
+  async ask(rawArgs: any): Promise<SmartSearchResult> {
+    const cursor = rawArgs?.cursor ? decodeCursor(rawArgs.cursor, 'ask_performances') : null;
+    const query = String(cursor ? cursor.args.query : rawArgs?.query || '').trim();
+    if (!query) {
+      throw new Error('query is required for ask_performances');
     }
 
-    // Level 2: 우선순위 낮은 조건 1개 완화
-    const level2 = await this.executeLevel2(toolName, args, analysis);
-    if (level2.events.length >= minCount) {
-      return this.formatResult(level2.events, 2, level2.relaxed, analysis, minCount);
-    }
+    const parsedQuery = this.queryParser.parse(query);
+    const analysis = this.queryAnalyzer.analyze(parsedQuery.toolName, parsedQuery.args, parsedQuery);
+    const result = await this.runSearch(parsedQuery.toolName, parsedQuery.args, analysis, {
+      toolName: 'ask_performances',
+      args: { query },
+      offset: cursor?.offset || 0,
+    });
+
+    return { ...result, parsedQuery };
+  }
+
+  /**
+   * 완화 단계 실행 (paging: 현재 페이지 위치와 다음 cursor에 담을 정보)
+   */
+  private async runSearch(
+    toolName: string,
+    baseArgs: any,
+    analysis: QueryAnalysis,
+    paging: SearchCursor
+  ): Promise<SmartSearchResult> {
+    const { offset } = paging;
+    const minCount = analysis.parsedParams.minCount || 3;
 
-    // Level 3: 우선순위 낮은 조건 2개 완화
-    const level3 = await this.executeLevel3(toolName, args, analysis);
-    if (level3.events.length >= minCount) {
-      return this.formatResult(level3.events, 3, level3.relaxed, analysis, minCount);
+    // 다음 페이지는 이미 보여준 개수만큼 더 모아야 함 (KOPIS 조회 상한 50)
+    const required = Math.min(offset + minCount, MAX_FETCH_LIMIT);
+    const args = offset > 0 ? { ...baseArgs, limit: required } : baseArgs;
+
+    // 같은 조건의 조회는 단계 간에 재사용
+    this.fetchMemo.clear();
+    const deadline = Date.now() + this.budgetMs;
+
+    // 완화 계획: 우선순위 낮은 조건부터 완화, 사용자가 허용한 조건만
+    const allowed = resolveAllowedConditions(args);
+    const plan = buildRelaxationPlan(
+      analysis.priorities,
+      this.relaxableConditions(toolName, args, allowed),
+      this.locationSteps(toolName, args)
+    );
+
+    // 위치 완화를 허용하지 않으면 KopisService의 구/군 → 시/도 자동 확장도 사용하지 않음
+    // 가격이 우선순위에 있으면 점수 계산에 관람료가 필요하므로 상세 정보를 채움
+    const fetchArgs = {
+      ...args,
+      ...(allowed.includes('location') ? {} : { expandArea: false }),
+      includeDetails: args.includeDetails ?? Object.values(analysis.priorities).includes('price'),
+    };
+
+    let best: { events: Performance[]; relaxed: string[]; level: number } | null = null;
+    let last = { events: [] as Performance[], relaxed: [] as string[] };
+
+    for (let i = 0; i < plan.length; i++) {
+      const level = i + 1;
+      const result = await runUntilDeadline(this.executeStrategy(toolName, fetchArgs, plan[i]), deadline);
+
+      // 시간 예산 초과: 지금까지 가장 많이 찾은 단계의 결과 반환
+      if (!result) {
+        return this.formatTimeoutResult(toolName, best, analysis, minCount, paging, plan);
+      }
+
+      // 앞 단계와 같은 조회만 반복한 단계는 결과가 달라질 수 없으므로 건너뜀
+      if (!result.fresh && best && result.events.length <= best.events.length) {
+        continue;
+      }
+
+      if (result.events.length >= required) {
+        return this.formatResult(toolName, result.events, level, result.relaxed, analysis, minCount, paging, plan);
+      }
+
+      if (!best || result.events.length > best.events.length) {
+        best = { events: result.events, relaxed: result.relaxed, level };
+      }
+      last = result;
     }
 
-    // Level 4: 최대 완화 (고정: 시/도 전체 + 모든 장르 + 한달)
-    const level4 = await this.executeLevel4(toolName, args);
-    if (level4.events.length >= minCount) {
-      return this.formatResult(level4.events, 4, level4.relaxed, analysis, minCount);
+    // 다음 페이지 요청인데 남은 결과가 있으면 있는 만큼 반환
+    if (offset > 0 && best && best.events.length > offset) {
+      return this.formatResult(toolName, best.events, best.level, best.relaxed, analysis, minCount, paging, plan);
     }
 
     // 실패
     return {
-      events: level4.events,
+      events: last.events,
       level: 0,
-      relaxedConditions: level4.relaxed,
-      message: this.generateFailureMessage(minCount, level4.events.length),
+      relaxedConditions: last.relaxed,
+      message: this.generateFailureMessage(minCount, last.events.length, allowed.length === 0),
     };
   }
 
   /**
-   * Level 1: 요청 그대로
+   * 완화 단계 1개 실행 (장르 × 위치 조합을 동시에 조회)
+   * - 가격·공연 시간 조건은 args에 그대로 두어 모든 단계에 유지 (예산 상한 완화 제외)
    */
-  private async executeLevel1(toolName: string, args: any) {
-    const events = await this.fetchByTool(toolName, args);
-    return { events, relaxed: [] as string[] };
+  private async executeStrategy(toolName: string, args: any, strategy: RelaxationStrategy): Promise<LevelResult> {
+    const relaxed: string[] = [];
+    const areas = this.expandLocation(toolName, args, strategy, relaxed);
+    const genres = this.expandGenres(args, strategy, relaxed);
+    const dates = this.expandDate(args, strategy, relaxed);
+    const price = this.expandPrice(args, strategy, relaxed);
+    const audience = this.expandAudience(args, strategy, relaxed);
+
+    const allGenres = strategy.genreExpansion === 'all';
+    const argsList = genres.flatMap(genreCode =>
+      areas.map(area => ({
+        ...args,
+        genreCode,
+        ...area,
+        ...dates,
+        ...price,
+        ...audience,
+        limit: allGenres ? ALL_GENRES_FETCH_LIMIT : args.limit,
+      }))
+    );
+
+    // 모든 장르 검색은 개별 장르 실패를 무시하고 계속 진행
+    const { events, fresh } = await this.fetchAll(toolName, argsList, allGenres);
+    return { events, relaxed, fresh };
   }
 
   /**
-   * Level 2: 우선순위 낮은 조건 1개 완화
+   * 위치 완화 → 조회할 지역 목록
+   * - nearby: 구/군 + 인접 구/군 (거리 검색은 반경 4배)
+   * - city: 시/도 전체 (거리 검색은 최대 반경)
    */
-  private async executeLevel2(toolName: string, args: any, _analysis: any) {
-    const relaxed: string[] = [];
-
-    if (toolName === 'filter_free_events') {
-      // 무료 검색: 가격(1) > 날짜(2) > 장르(3) > 위치(4)
-      // → 위치 완화 (구/군 → 시/도)
-      // ✅ 유틸리티 함수 사용
-      const sidoCode = extractSidoCode(args.sidoCode);
-      const modifiedArgs = {
-        genreCode: args.genreCode,
-        sidoCode: sidoCode,
-        limit: args.limit || 50,
-      };
-      const events = await this.fetchByTool(toolName, modifiedArgs);
-      relaxed.push(`위치: 구/군 → 시/도 전체`);
-      return { events, relaxed };
-
-    } else if (toolName === 'get_trending_performances') {
-      // 인기 검색: 인기도(1) > 개수(2) > 장르(3) > 날짜(4)
-      // → 장르 완화 (요청 장르 → +유사 장르 1개)
-      
-      // genreCode가 없으면 이미 전체 장르라서 완화 불필요
-      if (!args.genreCode) {
-        const events = await this.fetchByTool(toolName, args);
-        return { events, relaxed: [] };
+  private expandLocation(toolName: string, args: any, strategy: RelaxationStrategy, relaxed: string[]): any[] {
+    const expansion = strategy.locationExpansion;
+    if (expansion === 'none') return [{}];
+
+    if (this.hasSearchCenter(args)) {
+      const radiusKm = args.radiusKm ?? DEFAULT_RADIUS_KM;
+      if (expansion === 'nearby') {
+        const widerRadiusKm = Math.min(radiusKm * 4, MAX_RADIUS_KM);
+        relaxed.push(`위치: 반경 ${radiusKm}km → ${widerRadiusKm}km`);
+        return [{ radiusKm: widerRadiusKm }];
       }
+      relaxed.push(`위치: ${resolveSearchCenter(args)?.label} 반경 ${MAX_RADIUS_KM}km`);
+      return [{ radiusKm: MAX_RADIUS_KM }];
+    }
 
-      const relatedGenres = this.getRelatedGenres(args.genreCode);
-      const allEvents: any[] = [];
-      
-      for (const genre of relatedGenres.slice(0, 2)) { // 원래 + 1개
-        const modifiedArgs = { 
-          genreCode: genre,
-          limit: args.limit || 50 
-        };
-        const result = await this.fetchByTool(toolName, modifiedArgs);
-        allEvents.push(...result);
-      }
-      
-      const events = this.deduplicateEvents(allEvents);
-      // ✅ 유틸리티 함수 사용
-      relaxed.push(`장르: ${getGenreName(args.genreCode)} + 유사 장르 1개`);
-      return { events, relaxed };
+    const isFree = toolName === 'filter_free_events';
+    const gugunCode = this.requestedGugunCode(toolName, args);
 
-    } else {
-      // 위치 검색: 날짜(1) > 위치(2) > 장르(3) > 개수(4)
-      // → 장르 완화 (요청 장르 → +유사 장르 1개)
-      const relatedGenres = this.getRelatedGenres(args.genreCode);
-      const allEvents: any[] = [];
-      
-      for (const genre of relatedGenres.slice(0, 2)) {
-        const modifiedArgs = { 
-          ...args, 
-          genreCode: genre 
-        };
-        const events = await this.fetchByTool(toolName, modifiedArgs);
-        allEvents.push(...events);
-      }
-      
-      const events = this.deduplicateEvents(allEvents);
-      // ✅ 유틸리티 함수 사용
-      relaxed.push(`장르: ${getGenreName(args.genreCode)} + 유사 장르 1개`);
-      return { events, relaxed };
+    if (expansion === 'nearby' && gugunCode) {
+      relaxed.push(this.describeNeighbors(gugunCode));
+      // 구/군마다 시/도로 넓히지 않음
+      return [gugunCode, ...getNeighborGugunCodes(gugunCode)].map(code =>
+        isFree ? { sidoCode: code } : { sidoCode: code.substring(0, 2), gugunCode: code, expandArea: false }
+      );
     }
+
+    if (expansion === 'nationwide') {
+      relaxed.push(`위치: 전국`);
+      return [{ sidoCode: undefined, gugunCode: undefined }];
+    }
+
+    // ✅ 유틸리티 함수 사용
+    const sidoCode = extractSidoCode(gugunCode || args.sidoCode);
+    relaxed.push(
+      gugunCode
+        ? `위치: ${getGugunNameFull(gugunCode)} → ${getSidoNameFull(sidoCode)} 전체`
+        : `위치: ${getSidoNameFull(sidoCode)} 전체`
+    );
+    return [isFree ? { sidoCode } : { sidoCode, gugunCode: undefined }];
   }
 
   /**
-   * Level 3: 우선순위 낮은 조건 2개 완화
+   * 장르 완화 → 조회할 장르 목록
+   * - similar: 요청 장르 + 유사 장르 (유사도 높은 순), all: 모든 장르
    */
-  private async executeLevel3(toolName: string, args: any, _analysis: any) {
-    const relaxed: string[] = [];
-
-    if (toolName === 'filter_free_events') {
-      // 무료 검색: 위치(4) + 장르(3) 완화
-      // ✅ 유틸리티 함수 사용
-      const sidoCode = extractSidoCode(args.sidoCode);
-      
-      // genreCode가 없으면 장르 완화 불필요
-      if (!args.genreCode) {
-        const modifiedArgs = {
-          genreCode: args.genreCode,
-          sidoCode: sidoCode,
-          limit: args.limit || 50,
-        };
-        const events = await this.fetchByTool(toolName, modifiedArgs);
-        relaxed.push(`위치: 구/군 → 시/도 전체`);
-        return { events, relaxed };
-      }
-
-      const relatedGenres = this.getRelatedGenres(args.genreCode);
-      const allEvents: any[] = [];
-
-      for (const genre of relatedGenres) {
-        const modifiedArgs = {
-          genreCode: genre,
-          sidoCode: sidoCode,
-          limit: args.limit || 20,
-        };
-        const events = await this.fetchByTool(toolName, modifiedArgs);
-        allEvents.push(...events);
-      }
-
-      const events = this.deduplicateEvents(allEvents);
-      relaxed.push(`위치: 구/군 → 시/도 전체`);
+  private expandGenres(args: any, strategy: RelaxationStrategy, relaxed: string[]): Array<string | undefined> {
+    if (strategy.genreExpansion === 'all') {
+      relaxed.push(`장르: 모든 장르`);
+      return Object.keys(GENRE_CODES);
+    }
+    if (strategy.genreExpansion === 'similar' && args.genreCode) {
       // ✅ 유틸리티 함수 사용
-      relaxed.push(`장르: ${getGenreName(args.genreCode)} + 유사 장르`);
-      return { events, relaxed };
+      const genres = this.genreGraph.relatedGenres(args.genreCode);
+      const similar = genres.slice(1).map(code => getGenreName(code)).join(', ');
+      relaxed.push(`장르: ${getGenreName(args.genreCode)} + 유사 장르${similar ? ` (${similar})` : ''}`);
+      return genres;
+    }
+    return [args.genreCode];
+  }
 
-    } else if (toolName === 'get_trending_performances') {
-      // 인기 검색: 장르(3) + 날짜(4) 완화
-      
-      // genreCode가 없으면 장르 완화 불필요
-      if (!args.genreCode) {
-        const events = await this.fetchByTool(toolName, args);
-        relaxed.push(`날짜: 최근 30일 범위로 확장`);
-        return { events, relaxed };
-      }
+  /**
+   * 날짜 완화 → 요청 기간을 기준으로 앞뒤 3일 / 같은 주 / 같은 달
+   */
+  private expandDate(args: any, strategy: RelaxationStrategy, relaxed: string[]): { startDate?: string; endDate?: string } {
+    if (strategy.dateExpansion === 'none') return {};
 
-      const relatedGenres = this.getRelatedGenres(args.genreCode);
-      const allEvents: any[] = [];
+    const requested = { start: args.startDate, end: args.endDate };
+    const widened = widenDateWindow(requested, strategy.dateExpansion);
 
-      for (const genre of relatedGenres) {
-        const modifiedArgs = { 
-          genreCode: genre,
-          limit: args.limit || 20 
-        };
-        const result = await this.fetchByTool(toolName, modifiedArgs);
-        allEvents.push(...result);
-      }
+    relaxed.push(
+      `날짜: ${DATE_EXPANSION_LABELS[strategy.dateExpansion]} (${requested.start} ~ ${requested.end} → ${widened.start} ~ ${widened.end})`
+    );
+    return { startDate: widened.start, endDate: widened.end };
+  }
 
-      const events = this.deduplicateEvents(allEvents);
-      // ✅ 유틸리티 함수 사용
-      relaxed.push(`장르: ${getGenreName(args.genreCode)} + 유사 장르`);
-      relaxed.push(`날짜: 최근 30일 범위로 확장`);
-      return { events, relaxed };
+  /**
+   * 예산 완화 → 최대 관람료 1.5배 (천원 단위 올림)
+   */
+  private expandPrice(args: any, strategy: RelaxationStrategy, relaxed: string[]): { maxPrice?: number } {
+    if (!strategy.allowPriceIncrease || !args.maxPrice) return {};
 
-    } else {
-      // 위치 검색: 장르(3) + 위치(2) 완화
-      // ✅ 유틸리티 함수 사용
-      const sidoCode = extractSidoCode(args.gugunCode || args.sidoCode);
-      const relatedGenres = this.getRelatedGenres(args.genreCode);
-      const allEvents: any[] = [];
-
-      for (const genre of relatedGenres) {
-        const modifiedArgs = {
-          ...args,
-          genreCode: genre,
-          sidoCode: sidoCode,
-          gugunCode: undefined, // 시/도만 사용
-        };
-        const events = await this.fetchByTool(toolName, modifiedArgs);
-        allEvents.push(...events);
-      }
+    const maxPrice = Math.ceil((args.maxPrice * PRICE_INCREASE_RATE) / 1000) * 1000;
+    relaxed.push(`가격: ${args.maxPrice.toLocaleString()}원 이하 → ${maxPrice.toLocaleString()}원 이하`);
+    return { maxPrice };
+  }
 
-      const events = this.deduplicateEvents(allEvents);
-      relaxed.push(`위치: 구/군 → 시/도 전체`);
-      // ✅ 유틸리티 함수 사용
-      relaxed.push(`장르: ${getGenreName(args.genreCode)} + 유사 장르`);
-      return { events, relaxed };
-    }
+  /**
+   * 관객 완화 → 아동 공연 대신 일반 공연에서 관람 연령이 맞는 공연
+   * - 아이 나이가 없으면 전체 관람가 공연만
+   */
+  private expandAudience(args: any, strategy: RelaxationStrategy, relaxed: string[]): { familyFriendly?: boolean; childAge?: number } {
+    if (strategy.audienceExpansion === 'none') return {};
+
+    const childAge = args.childAge ?? 0;
+    relaxed.push(
+      args.childAge !== undefined
+        ? `관객: 아동 공연 → 일반 공연 중 ${formatChildAge(childAge)} 관람 가능`
+        : `관객: 아동 공연 → 전체 관람가 일반 공연`
+    );
+    return { familyFriendly: false, childAge };
   }
 
   /**
-   * Level 4: 최대 완화 (고정)
-   * - 시/도 전체
-   * - 모든 장르
-   * - 한달 이내 (사용자 요청이 더 길면 그 날짜 유지)
+   * 이 검색에서 실제로 완화할 수 있는 조건 (도구 지원 ∩ 사용자 허용 ∩ 요청에 있는 조건)
    */
-  private async executeLevel4(toolName: string, args: any) {
-    const relaxed: string[] = [];
-    const today = new Date();
+  private relaxableConditions(toolName: string, args: any, allowed: RelaxableCondition[]): RelaxableCondition[] {
+    const supported = TOOL_CONDITIONS[toolName] || DEFAULT_TOOL_CONDITIONS;
+
+    return supported.filter(condition => {
+      if (!allowed.includes(condition)) return false;
+      if (condition === 'genre') return Boolean(args.genreCode); // 장르 미지정이면 이미 전체 장르
+      if (condition === 'price') return Boolean(args.maxPrice);
+      if (condition === 'date') return Boolean(args.startDate && args.endDate); // 요청 기간 기준으로 넓힘
+      if (condition === 'audience') return args.familyFriendly !== false; // 이미 일반 공연 포함
+      return true;
+    });
+  }
 
-    // 날짜 계산: 한달 이내 (사용자 요청이 더 길면 그 날짜 유지)
-    let startDate = this.formatDate(today);
-    let endDate: string;
+  /**
+   * 위치 완화 순서 (시/도만 지정했으면 넓히지 않음)
+   */
+  private locationSteps(toolName: string, args: any): LocationStep[] {
+    if (this.hasSearchCenter(args)) return ['nearby', 'city'];
 
-    if (args.endDate) {
-      const requestedEnd = new Date(
-        parseInt(args.endDate.substring(0, 4)),
-        parseInt(args.endDate.substring(4, 6)) - 1,
-        parseInt(args.endDate.substring(6, 8))
-      );
-      const oneMonthLater = new Date(today);
-      oneMonthLater.setMonth(today.getMonth() + 1);
+    const gugunCode = this.requestedGugunCode(toolName, args);
+    if (!gugunCode) return [];
+    return getNeighborGugunCodes(gugunCode).length > 0 ? ['nearby', 'city'] : ['city'];
+  }
 
-      endDate = requestedEnd > oneMonthLater 
-        ? args.endDate 
-        : this.formatDate(oneMonthLater);
-    } else {
-      const oneMonthLater = new Date(today);
-      oneMonthLater.setMonth(today.getMonth() + 1);
-      endDate = this.formatDate(oneMonthLater);
-    }
+  /**
+   * 요청한 구/군 코드 (무료 검색은 sidoCode에 구/군 코드도 허용)
+   */
+  private requestedGugunCode(toolName: string, args: any): string | undefined {
+    const code = toolName === 'filter_free_events' ? args.sidoCode : args.gugunCode;
+    return code?.length === 4 ? code : undefined;
+  }
 
-    // ✅ 유틸리티 함수 사용: 시/도 코드 추출
-    const sidoCode = extractSidoCode(args.gugunCode || args.sidoCode);
+  /**
+   * 인접 구/군 완화 안내
+   * - 같은 시/도는 구/군 이름만 (예: "중구"), 다른 시/도는 시/도 포함 (예: "경기 고양시")
+   */
+  private describeNeighbors(gugunCode: string): string {
+    const sidoCode = gugunCode.substring(0, 2);
+    const names = getNeighborGugunCodes(gugunCode).map(code =>
+      code.startsWith(sidoCode) ? getGugunNameFull(code).split(' ').pop() : getGugunNameFull(code)
+    );
+    return `위치: ${getGugunNameFull(gugunCode)} + 인접 구/군 (${names.join(', ')})`;
+  }
 
-    // 모든 장르 검색
-    const allGenres = Object.keys(GENRE_CODES);
-    const allEvents: any[] = [];
+  /**
+   * 여러 조건을 동시에 조회하고 중복 제거
+   * - 같은 검색 안에서 이미 조회한 조건은 재사용 (fresh: 새로 조회한 조건이 있었는지)
+   * - tolerateErrors이면 실패한 조건은 로그만 남기고 건너뜀
+   */
+  private async fetchAll(
+    toolName: string,
+    argsList: any[],
+    tolerateErrors: boolean = false
+  ): Promise<{ events: Performance[]; fresh: boolean }> {
+    let fresh = false;
+
+    const results = await mapWithConcurrency(argsList, this.concurrency, async (args) => {
+      const key = this.memoKey(toolName, args);
+      let pending = this.fetchMemo.get(key);
+      if (!pending) {
+        fresh = true;
+        pending = this.fetchByTool(toolName, args);
+        this.fetchMemo.set(key, pending);
+      }
 
-    for (const genre of allGenres) {
       try {
-        // 도구별 분기
-        if (toolName === 'filter_free_events') {
-          // filterFreeEvents는 자체적으로 오늘~30일 고정이므로
-          // startDate/endDate 무시됨
-          const result = await this.kopisService.filterFreeEvents({
-            genreCode: genre,
-            sidoCode: sidoCode,
-            limit: 10,
-          });
-          allEvents.push(...result.events);
-
-        } else if (toolName === 'get_trending_performances') {
-          // getTrendingPerformances는 자체적으로 최근 30일 검색
-          const result = await this.kopisService.getTrendingPerformances({
-            genreCode: genre,
-            limit: 10,
-          });
-          allEvents.push(...result.performances);
-
-        } else {
-          // search_events_by_location
-          const result = await this.kopisService.searchEventsByLocation({
-            genreCode: genre,
-            startDate,
-            endDate,
-            sidoCode: sidoCode,
-            limit: 10,
-          });
-          allEvents.push(...result.events);
-        }
+        return await pending;
       } catch (error) {
-        // 개별 장르 검색 실패는 무시하고 계속 진행
-        console.error(`Failed to fetch genre ${genre}:`, error);
+        if (!tolerateErrors) throw error;
+        console.error(`Failed to fetch genre ${args.genreCode}:`, error);
+        return [];
       }
-    }
+    });
 
-    const events = this.deduplicateEvents(allEvents);
+    return { events: this.deduplicateEvents(results.flat()), fresh };
+  }
 
-    // ✅ 유틸리티 함수 사용
-    relaxed.push(`위치: ${getSidoNameFull(sidoCode)} 전체`);
-    relaxed.push(`장르: 모든 장르`);
-    relaxed.push(`날짜: 한달 이내 (${startDate} ~ ${endDate})`);
+  /**
+   * 조회 재사용 키 (값이 없는 인자는 제외, 키 순서 고정)
+   */
+  private memoKey(toolName: string, args: any): string {
+    const entries = Object.entries(args || {})
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `${toolName}:${JSON.stringify(entries)}`;
+  }
 
-    return { events, relaxed };
+  /**
+   * 상세 정보로 거르는 조건 (관람료, 공연 요일/시간대, 관람 연령, 러닝타임) - 완화하지 않고 모든 단계에 유지
+   * - 아동 공연(familyFriendly)은 가족 공연의 관객 완화에서만 해제
+   */
+  private detailFilters(args: any): DetailFilters {
+    return {
+      minPrice: args.minPrice,
+      maxPrice: args.maxPrice,
+      daysOfWeek: args.daysOfWeek,
+      timeOfDay: args.timeOfDay,
+      childAge: args.childAge,
+      familyFriendly: args.familyFriendly,
+      minRuntimeMinutes: args.minRuntimeMinutes,
+      maxRuntimeMinutes: args.maxRuntimeMinutes,
+      endsBefore: args.endsBefore,
+    };
+  }
+
+  /**
+   * 거리 검색 조건 (좌표/랜드마크 중심 반경)
+   */
+  private geoFilter(args: any): GeoFilter {
+    return {
+      latitude: args.latitude,
+      longitude: args.longitude,
+      landmark: args.landmark,
+      radiusKm: args.radiusKm,
+    };
+  }
+
+  private hasSearchCenter(args: any): boolean {
+    return args.latitude !== undefined || args.longitude !== undefined || Boolean(args.landmark);
   }
 
   /**
    * 도구별 fetch 분기
    */
-  private async fetchByTool(toolName: string, args: any): Promise<any[]> {
+  private async fetchByTool(toolName: string, args: any): Promise<Performance[]> {
     if (toolName === 'filter_free_events') {
       const result = await this.kopisService.filterFreeEvents({
         genreCode: args.genreCode,
         sidoCode: args.sidoCode,
         limit: args.limit || 50,
+        ...this.detailFilters(args),
       });
       return result.events;
 
     } else if (toolName === 'get_trending_performances') {
       const result = await this.kopisService.getTrendingPerformances({
         genreCode: args.genreCode,
+        sidoCode: args.sidoCode,
+        period: args.period,
         limit: args.limit || 50,
+        includeDetails: args.includeDetails,
       });
       return result.performances;
 
+    } else if (toolName === 'get_awarded_performances') {
+      const result = await this.kopisService.getAwardedPerformances({
+        genreCode: args.genreCode,
+        startDate: args.startDate,
+        endDate: args.endDate,
+        sidoCode: args.sidoCode,
+        gugunCode: args.gugunCode,
+        limit: args.limit || 50,
+        includeDetails: args.includeDetails,
+        ...this.detailFilters(args),
+        ...this.geoFilter(args),
+        expandArea: args.expandArea,
+      });
+      return result.events;
+
+    } else if (toolName === 'get_upcoming_openings') {
+      const result = await this.kopisService.getUpcomingOpenings({
+        genreCode: args.genreCode,
+        startDate: args.startDate,
+        endDate: args.endDate,
+        sidoCode: args.sidoCode,
+        gugunCode: args.gugunCode,
+        limit: args.limit || 50,
+        includeDetails: args.includeDetails,
+        expandArea: args.expandArea,
+      });
+      return result.events;
+
+    } else if (toolName === 'get_family_performances') {
+      const result = await this.kopisService.getFamilyPerformances({
+        genreCode: args.genreCode,
+        startDate: args.startDate,
+        endDate: args.endDate,
+        sidoCode: args.sidoCode,
+        gugunCode: args.gugunCode,
+        limit: args.limit || 50,
+        includeDetails: args.includeDetails,
+        ...this.detailFilters(args),
+        ...this.geoFilter(args),
+        expandArea: args.expandArea,
+      });
+      return result.events;
+
+    } else if (toolName === 'search_festivals') {
+      const result = await this.kopisService.searchFestivals({
+        genreCode: args.genreCode,
+        startDate: args.startDate,
+        endDate: args.endDate,
+        sidoCode: args.sidoCode,
+        gugunCode: args.gugunCode,
+        limit: args.limit || 50,
+        includeDetails: args.includeDetails,
+        ...this.detailFilters(args),
+        ...this.geoFilter(args),
+        expandArea: args.expandArea,
+      });
+      return result.events;
+
     } else {
       // search_events_by_location
       const result = await this.kopisService.searchEventsByLocation({
@@ -344,6 +537,10 @@ export class SmartSearchService {
         sidoCode: args.sidoCode,
         gugunCode: args.gugunCode,
         limit: args.limit || 50,
+        includeDetails: args.includeDetails,
+        ...this.detailFilters(args),
+        ...this.geoFilter(args),
+        expandArea: args.expandArea,
       });
       return result.events;
     }
@@ -353,11 +550,14 @@ export class SmartSearchService {
    * 결과 포맷팅 (점수 계산 포함)
    */
   private formatResult(
-    events: any[],
+    toolName: string,
+    events: Performance[],
     level: number,
     relaxed: string[],
     analysis: any,
-    minCount: number
+    minCount: number,
+    paging: SearchCursor,
+    plan: RelaxationStrategy[]
   ): SmartSearchResult {
     // 점수 계산 및 정렬
     const scored = this.scoreCalculator.scoreAndSort(
@@ -369,91 +569,132 @@ export class SmartSearchService {
           end: analysis.parsedParams.endDate || analysis.parsedParams.startDate,
         } : undefined,
         targetLocation: analysis.parsedParams.gugunCode || analysis.parsedParams.sidoCode,
+        targetRadiusKm: analysis.parsedParams.radiusKm,
         targetGenre: analysis.parsedParams.genreCode,
         isFree: analysis.keywords.isFree,
+        minPrice: analysis.parsedParams.minPrice,
+        maxPrice: analysis.parsedParams.maxPrice,
+        daysOfWeek: analysis.parsedParams.daysOfWeek,
+        timeOfDay: analysis.parsedParams.timeOfDay,
+        minRuntimeMinutes: analysis.parsedParams.minRuntimeMinutes,
+        maxRuntimeMinutes: analysis.parsedParams.maxRuntimeMinutes,
+        endsBefore: analysis.parsedParams.endsBefore,
       }
     );
 
-    // 상위 N개만 선택
-    const topEvents = scored.slice(0, minCount).map(s => s.event);
+    // 개막 예정 공연 등은 개막일 순 (같은 날은 점수 순)
+    if (CHRONOLOGICAL_TOOLS.includes(toolName)) {
+      scored.sort(
+        (a, b) =>
+          (a.event.period.start?.getTime() ?? Infinity) - (b.event.period.start?.getTime() ?? Infinity)
+      );
+    }
+
+    // offset부터 N개만 선택
+    const { offset } = paging;
+    const pageScores = scored.slice(offset, offset + minCount);
+    const topEvents = pageScores.map(s => s.event);
+
+    // 남은 결과가 있으면 다음 페이지 cursor 발급
+    const nextOffset = offset + minCount;
+    const nextCursor = scored.length > nextOffset
+      ? encodeCursor({ ...paging, offset: nextOffset })
+      : undefined;
 
     return {
       events: topEvents,
       level,
       relaxedConditions: relaxed,
-      message: this.generateMessage(level, relaxed, topEvents.length, minCount),
-      scores: scored.slice(0, minCount),
+      message: this.generateMessage(level, relaxed, topEvents.length, minCount, plan),
+      scores: pageScores,
+      offset,
+      nextCursor,
+    };
+  }
+
+  /**
+   * 시간 예산 초과 시 결과 (찾은 만큼 반환)
+   */
+  private formatTimeoutResult(
+    toolName: string,
+    best: { events: Performance[]; relaxed: string[]; level: number } | null,
+    analysis: any,
+    minCount: number,
+    paging: SearchCursor,
+    plan: RelaxationStrategy[]
+  ): SmartSearchResult {
+    const notice = `⏱️ 검색 시간 제한(${Math.round(this.budgetMs / 1000)}초)에 도달하여 지금까지 찾은 결과만 보여드립니다.`;
+
+    if (best && best.events.length > paging.offset) {
+      const result = this.formatResult(toolName, best.events, best.level, best.relaxed, analysis, minCount, paging, plan);
+      return { ...result, message: `${notice}\n\n${result.message}`, timedOut: true };
+    }
+
+    return {
+      events: best?.events || [],
+      level: 0,
+      relaxedConditions: best?.relaxed || [],
+      message: `${notice}\n\n${this.generateFailureMessage(minCount, best?.events.length || 0)}`,
+      timedOut: true,
     };
   }
 
   /**
-   * 메시지 생성
+   * 메시지 생성 (완화 계획에서 이 단계의 위치로 문구 결정)
    */
-  private generateMessage(level: number, relaxed: string[], count: number, _minCount: number): string {
+  private generateMessage(
+    level: number,
+    relaxed: string[],
+    count: number,
+    _minCount: number,
+    plan: RelaxationStrategy[]
+  ): string {
     if (level === 1) {
       return `✅ 요청 조건에 완벽히 맞는 공연 ${count}개를 찾았습니다!`;
     }
 
-    const levelMessages = [
-      '', // level 0 (unused)
-      '', // level 1 (handled above)
-      `🔍 조건을 일부 완화하여 ${count}개의 공연을 찾았습니다.`,
-      `🔎 더 많은 선택지를 위해 조건을 확장했습니다. ${count}개의 공연을 찾았습니다.`,
-      `🌐 최대 범위로 검색하여 ${count}개의 공연을 찾았습니다.`,
-    ];
+    const strategy = plan[level - 1];
+    const previous = plan[level - 2];
+
+    let message: string;
+    if (level === plan.length && level > 2) {
+      message = `🌐 최대 범위로 검색하여 ${count}개의 공연을 찾았습니다.`;
+    } else if (level === 2) {
+      message = `🔍 조건을 일부 완화하여 ${count}개의 공연을 찾았습니다.`;
+    } else if (strategy.locationExpansion === 'nearby' && previous.locationExpansion !== 'nearby') {
+      message = `🧭 검색 지역을 가까운 곳부터 넓혀 ${count}개의 공연을 찾았습니다.`;
+    } else {
+      message = `🔎 더 많은 선택지를 위해 조건을 확장했습니다. ${count}개의 공연을 찾았습니다.`;
+    }
 
-    const message = levelMessages[level];
     const conditions = relaxed.map(c => `  • ${c}`).join('\n');
 
     return `${message}\n\n완화된 조건:\n${conditions}`;
   }
 
   /**
-   * 실패 메시지
+   * 실패 메시지 (noRelaxation: strict라서 요청 조건으로만 검색함)
    */
-  private generateFailureMessage(minCount: number, foundCount: number): string {
+  private generateFailureMessage(minCount: number, foundCount: number, noRelaxation: boolean = false): string {
+    const relaxTip = noRelaxation ? '\n  • 조건 완화 허용 (strictness: normal 또는 allowRelax 지정)' : '';
+
     return `❌ 죄송합니다. 조건에 맞는 공연을 ${minCount}개 이상 찾지 못했습니다. (${foundCount}개 발견)
 
 다음과 같이 시도해보세요:
   • 기간을 더 길게 설정 (예: 다음달까지)
   • 최소 개수를 줄여서 검색 (1~2개)
-  • 지역 제한 없이 전국 검색`;
-  }
-
-  /**
-   * 관련 장르들 반환 (원래 장르 포함)
-   */
-  private getRelatedGenres(genreCode: string): string[] {
-    const map: Record<string, string[]> = {
-      'AAAA': ['AAAA', 'GGGA'],           // 연극 + 뮤지컬
-      'GGGA': ['GGGA', 'AAAA'],           // 뮤지컬 + 연극
-      'CCCA': ['CCCA', 'CCCC'],           // 클래식 + 국악
-      'CCCC': ['CCCC', 'CCCA'],           // 국악 + 클래식
-      'BBBC': ['BBBC', 'BBBE'],           // 무용 + 대중무용
-      'BBBE': ['BBBE', 'BBBC'],           // 대중무용 + 무용
-      'CCCD': ['CCCD'],                   // 대중음악 (단독)
-      'EEEA': ['EEEA', 'EEEB'],           // 복합 + 서커스
-      'EEEB': ['EEEB', 'EEEA'],           // 서커스 + 복합
-    };
-    return map[genreCode] || [genreCode];
+  • 지역 제한 없이 전국 검색${relaxTip}`;
   }
 
   /**
    * 중복 제거
    */
-  private deduplicateEvents(events: any[]): any[] {
+  private deduplicateEvents(events: Performance[]): Performance[] {
     const seen = new Set<string>();
     return events.filter(event => {
-      if (seen.has(event.mt20id)) return false;
-      seen.add(event.mt20id);
+      if (seen.has(event.id)) return false;
+      seen.add(event.id);
       return true;
     });
   }
-
-  private formatDate(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}${month}${day}`;
-  }
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+// 캐시 항목 (expiresAt이 null이면 만료 없음)
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+// 교체 가능한 캐시 저장소 (메모리 LRU / 파일)
+export interface CacheStore {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+// 엔드포인트 종류별 TTL 구분
+export type CacheTtlClass = 'list' | 'detail' | 'boxoffice';
+
+// 캐시 통계 (/health 노출용)
+export interface CacheStats {
+  store: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0~1
+  writes: number;
+  errors: number;
+  byEndpoint: Record<string, { hits: number; misses: number }>;
+}
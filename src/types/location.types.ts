@@ -0,0 +1,22 @@
+// 지역 이름 해석 (resolve_location, 도구의 sidoCode/gugunCode에 이름을 넘긴 경우)
+
+// 어떤 표기로 일치했는지
+export type LocationMatchType = 'code' | 'name' | 'abbreviation' | 'landmark' | 'partial' | 'typo';
+
+// 지역 후보
+export interface LocationCandidate {
+  sidoCode: string;         // 2자리
+  gugunCode: string | null; // 4자리 (시/도 자체면 null)
+  name: string;             // 전체 이름 (예: "서울 강남구", "부산광역시")
+  score: number;            // 0-100 (이름 100, 약칭 90, 랜드마크 85, 일부·오타는 감점)
+  matchedBy: LocationMatchType;
+  matchedAlias: string;     // 일치한 표기 (예: "해운대", "강남역")
+}
+
+// 지역 이름 해석 결과
+export interface LocationResolution {
+  query: string;
+  resolved: LocationCandidate | null; // 하나로 특정했을 때만
+  candidates: LocationCandidate[];    // 점수 순
+  ambiguous: boolean;                 // 같은 점수의 후보가 여러 개 (예: "중구", "고성")
+}
@@ -0,0 +1,125 @@
+import { LocationCandidate } from './location.types.js';
+
+// MCP structuredContent 타입 (도구 응답의 JSON 버전)
+// 날짜는 ISO 형식(YYYY-MM-DD), 값이 없으면 null
+
+// 관람료 범위 (원)
+export interface StructuredPrice {
+  min: number | null;
+  max: number | null;
+  isFree: boolean;
+  isDonation: boolean;
+  tiers: Array<{ label: string | null; amount: number }>;
+  discounts: string[];
+  text: string | null; // KOPIS 원문 (pcseguidance)
+}
+
+// 스마트 검색 점수 상세 (0-100)
+export interface StructuredScore {
+  total: number;
+  price: number;
+  date: number;
+  genre: number;
+  location: number;
+  popularity: number;
+  award: number;
+  schedule: number;
+}
+
+// 박스오피스 순위 정보
+export interface StructuredRanking {
+  rank: number;
+  previousRank: number | null;
+  change: string | null; // "▲3", "NEW" 등
+  rankDate: string | null;
+}
+
+// schedule을 요일별로 해석한 시간표
+export interface StructuredShowtimes {
+  slots: Array<{ day: string; times: string[] }>;
+  holidayTimes: string[];
+  notes: string[];
+}
+
+// 공연 카드
+export interface StructuredEvent {
+  id: string;
+  title: string;
+  venue: string | null;
+  period: { start: string | null; end: string | null };
+  state: string | null;
+  poster: string | null;
+  price: StructuredPrice;
+  genre: string | null;
+  area: string | null;
+  awards: string[];
+  distanceKm?: number; // 거리 검색에서만 (검색 중심 → 공연장)
+  ranking?: StructuredRanking;
+  daysUntilEnd?: number; // 마감 임박 공연에서만 (오늘 종료면 0)
+  countdown?: string;    // "D-3", "D-Day"
+  credits?: Array<{      // 인물 검색에서만 (검색한 인물의 역할)
+    name: string;
+    role: 'cast' | 'crew';
+    roleDetail: string | null;
+  }>;
+  runtime?: string | null; // 상세 정보를 채운 목록에서만 (includeDetails)
+  age?: string | null;
+  cast?: string[];
+  showtimes?: StructuredShowtimes;
+  ageLimit?: {             // 관람 연령 해석 (상세 정보를 채운 경우만, 개월 단위)
+    minMonths: number | null;
+    maxMonths: number | null;
+    allAges: boolean;
+  };
+  runningTime?: {          // 러닝타임 해석 (상세 정보를 채운 경우만, 분 단위)
+    minutes: number | null;
+    intermissionMinutes: number | null;
+  };
+  score?: StructuredScore;
+}
+
+// 공연 목록 응답
+export interface StructuredEventList {
+  message: string;
+  count: number;
+  events: StructuredEvent[];
+  level: number | null;          // 스마트 검색 완화 단계 (1~7, 실패 0, 일반 조회 null)
+  relaxedConditions: string[];
+  offset: number;
+  nextCursor: string | null;
+  timedOut?: boolean;
+  freeCount?: number;            // filter_free_events
+  paidCount?: number;            // filter_free_events
+  interpretation?: {             // ask_performances
+    query: string;
+    toolName: string;
+    args: Record<string, unknown>;
+    lines: string[];
+    locationCandidates?: LocationCandidate[]; // 지역 이름이 여러 곳이면 후보
+  };
+  venue?: { id: string; name: string }; // get_events_at_venue
+}
+
+// 공연 상세 응답
+export interface StructuredEventDetail extends StructuredEvent {
+  venueId: string | null;
+  runtime: string | null;
+  age: string | null;
+  cast: string[];
+  crew: string[];
+  synopsis: string | null;
+  schedule: string | null;
+  showtimes: StructuredShowtimes;
+  ticketLinks: Array<{ name: string; url: string }>;
+}
+
+// 공연장 카드
+export interface StructuredVenue {
+  id: string;
+  name: string;
+  sido: string | null;
+  gugun: string | null;
+  hallCount: number | null;
+  characteristic: string | null;
+  openYear: string | null;
+}
@@ -0,0 +1,150 @@
+import { GENRE_CODES, SIDO_CODES } from '../constants/kopis-codes.js';
+import { PersonCredit } from './person.types.js';
+
+export type GenreCode = keyof typeof GENRE_CODES;
+export type SidoCode = keyof typeof SIDO_CODES;
+export type PerformanceState = '공연예정' | '공연중' | '공연완료';
+
+// 관람료 등급 (예: "R석 70,000원" → { label: "R석", amount: 70000 })
+export interface PriceTier {
+  label: string | null;
+  amount: number; // 원 (무료는 0)
+}
+
+// 관람료 (목록 응답에는 대개 없음 → text null, tiers 빈 배열)
+export interface PerformancePrice {
+  text: string | null; // KOPIS 원문 (pcseguidance)
+  tiers: PriceTier[];
+  min: number | null;
+  max: number | null;
+  isFree: boolean;     // 모든 등급이 0원 (기부 공연 제외)
+  isDonation: boolean; // 자율 기부/후원 관람
+  discounts: string[]; // 할인 안내 (예: "청소년 50% 할인")
+}
+
+// 관람 연령 (prfage 해석, 예: "만 7세 이상" → minMonths 84)
+export interface AudienceAge {
+  text: string | null;      // KOPIS 원문 (prfage)
+  minMonths: number | null; // 관람 가능 최소 연령 (개월, 전체 관람가는 0, 해석 못 하면 null)
+  maxMonths: number | null; // 관람 가능 최대 연령 (개월, "24~48개월" 같은 영유아 공연만)
+  allAges: boolean;         // 전체 관람가
+}
+
+// 러닝타임 (prfruntime 해석, 예: "2시간 30분 (인터미션 20분 포함)" → 150분)
+export interface RunningTime {
+  text: string | null;                // KOPIS 원문 (prfruntime)
+  minutes: number | null;             // 인터미션을 포함한 전체 시간 (분, 해석 못 하면 null)
+  intermissionMinutes: number | null; // 인터미션 (분, 없다고 명시되면 0, 언급이 없으면 null)
+}
+
+// 요일 (dtguidance 기준)
+export type DayOfWeek = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// 관람 시간대 (낮: 17시 이전, 저녁: 17시 이후)
+export type TimeOfDay = 'matinee' | 'evening';
+
+// 요일별 공연 시작 시각 (예: { day: "sat", times: ["15:00", "19:00"] })
+export interface ShowSlot {
+  day: DayOfWeek;
+  times: string[]; // HH:MM
+}
+
+// 공연 시간표 (목록 응답에는 없음 → text null, slots 빈 배열)
+export interface WeeklySchedule {
+  text: string | null;   // KOPIS 원문 (dtguidance)
+  slots: ShowSlot[];     // 월요일부터 순서대로
+  holidayTimes: string[]; // 공휴일(HOL) 시작 시각
+  notes: string[];       // "월요일 공연 없음" 등 안내
+}
+
+// 위경도 좌표 (WGS84)
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// 예매처 링크
+export interface RelateLink {
+  name: string;
+  url: string;
+}
+
+// 박스오피스/인기 순위
+export interface PerformanceRanking {
+  rank: number;
+  previousRank: number | null; // 직전 기간 순위 (신규 진입이면 null)
+  rankDate: string | null;     // 집계 기간 (YYYYMMDD 또는 "YYYYMMDD ~ YYYYMMDD")
+  seatCount?: number;
+  showCount?: number;
+}
+
+// 공연 (목록/박스오피스 공통)
+export interface Performance {
+  id: string;             // mt20id
+  title: string;          // prfnm
+  period: {
+    start: Date | null;   // prfpdfrom
+    end: Date | null;     // prfpdto
+  };
+  venueName: string | null; // fcltynm
+  poster: string | null;
+  genre: {
+    code: GenreCode | null;
+    name: string | null;  // genrenm
+  };
+  area: {
+    sidoCode: SidoCode | null;
+    name: string | null;  // area
+  };
+  state: PerformanceState | null; // prfstate
+  openRun: boolean;
+  festival: boolean;
+  price: PerformancePrice;
+  schedule: WeeklySchedule;
+  awards: string[];
+  ranking?: PerformanceRanking;
+  popularityScore?: number; // 0-100 (인기 공연 조회에서만 채움)
+  distanceKm?: number;      // 검색 중심에서 공연장까지 거리 (거리 검색에서만 채움)
+  runtime?: string | null;  // 러닝타임 (상세 정보를 채웠을 때만)
+  age?: string | null;      // 관람 연령 (상세 정보를 채웠을 때만)
+  cast?: string[];          // 출연진 (상세 정보를 채웠을 때만)
+  ageLimit?: AudienceAge;   // 관람 연령 해석 (상세 정보를 채웠을 때만)
+  runningTime?: RunningTime; // 러닝타임 해석 (상세 정보를 채웠을 때만)
+}
+
+// 공연 상세
+export interface PerformanceDetail extends Performance {
+  venueId: string | null; // mt10id
+  cast: string[];         // prfcast
+  crew: string[];         // prfcrew
+  runtime: string | null; // prfruntime
+  age: string | null;     // prfage
+  ageLimit: AudienceAge;  // prfage 해석
+  runningTime: RunningTime; // prfruntime 해석
+  synopsis: string | null; // sty (HTML 제거)
+  producer: string | null; // entrpsnm
+  relates: RelateLink[];
+  images: string[];        // styurls
+}
+
+// 인기 공연 (박스오피스 또는 휴리스틱 순위)
+export interface TrendingPerformance extends Performance {
+  ranking: PerformanceRanking;
+  popularityScore: number;
+  daysUntilEnd: number;
+  rankChange: string | null; // 박스오피스 순위 변동 문구 (휴리스틱이면 null)
+  indicators: string;
+}
+
+// 마감 임박 공연 (오늘부터 N일 안에 공연 종료)
+export interface ClosingSoonPerformance extends Performance {
+  daysUntilEnd: number;
+  countdown: string;       // "D-3", 오늘 종료면 "D-Day"
+  popularityScore: number; // 주간 박스오피스 순위 환산 (순위 밖이면 기본값)
+  closingScore: number;    // 마감 임박도 60% + 인기도 40%
+}
+
+// 인물 검색 결과 (공연 상세 + 검색한 인물의 역할)
+export interface PersonSearchPerformance extends PerformanceDetail {
+  credits: PersonCredit[];
+}
@@ -0,0 +1,51 @@
+// 출연진(prfcast) / 제작진(prfcrew)
+export type PersonRole = 'cast' | 'crew';
+
+// 공연 1건에 참여한 인물 1명
+export interface PersonCredit {
+  name: string;              // 원문 이름 (예: "조승우")
+  role: PersonRole;
+  roleDetail: string | null; // "연출", "지킬" 등 원문에 있을 때만
+}
+
+// 인물 색인에 저장하는 공연 (디스크에 JSON으로 저장)
+export interface PersonIndexEntry {
+  eventId: string;
+  title: string;
+  endDate: string | null; // YYYYMMDD (지난 공연 정리용)
+  credits: PersonCredit[];
+  indexedAt: number;      // 상세 정보를 색인한 시각 (ms)
+}
+
+// 인물 색인 파일 형식
+export interface PersonIndexFile {
+  version: number;
+  updatedAt: string | null;
+  crawlPage?: number; // 다음 수집을 시작할 공연 목록 cpage
+  entries: PersonIndexEntry[];
+}
+
+// 이름 검색 결과 (공연 1건 + 그 공연에서 일치한 인물)
+export interface PersonMatch {
+  entry: PersonIndexEntry;
+  credits: PersonCredit[];
+  exact: boolean; // 이름 전체가 일치한 인물이 있는지
+}
+
+// 인물 색인 통계 (/health 노출용)
+export interface PersonIndexStats {
+  events: number;
+  people: number; // 서로 다른 이름 수
+  updatedAt: string | null;
+}
+
+// 백그라운드 색인 수집 1회 결과
+export interface PersonCrawlStatus {
+  startedAt: string;
+  finishedAt: string | null; // 진행 중이면 null
+  startPage: number;         // 이번 수집을 시작한 공연 목록 cpage
+  listed: number;            // 목록에서 찾은 현재/예정 공연 수
+  indexed: number;           // 이번에 상세를 새로 색인한 공연 수
+  failed: number;
+  error: string | null;
+}
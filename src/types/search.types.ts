@@ -1,5 +1,8 @@
+import { DayOfWeek, Performance, TimeOfDay } from './performance.types.js';
+import { LocationCandidate } from './location.types.js';
+
 // 검색 우선순위 타입
-export type SearchPriority = 'price' | 'date' | 'genre' | 'location' | 'count' | 'popularity';
+export type SearchPriority = 'price' | 'date' | 'genre' | 'location' | 'count' | 'popularity' | 'awards' | 'schedule';
 
 // 우선순위 가중치 (1순위 40%, 2순위 30%, 3순위 20%, 4순위 10%)
 export interface PriorityWeights {
@@ -17,6 +20,9 @@ export interface QueryAnalysis {
     isTrending: boolean;    // "핫한", "인기" 키워드
     hasDateKeyword: boolean; // "다음주", "이번주" 등
     hasCountKeyword: boolean; // "3개", "10개" 등
+    isAwarded: boolean;     // "수상작" 키워드
+    hasPriceKeyword: boolean; // "3만원 이하", "저렴한" 등
+    hasScheduleKeyword: boolean; // "평일 저녁", "일요일 낮", "1시간 정도", "9시 전에 끝나는" 등
   };
   parsedParams: {
     genreCode?: string;
@@ -25,12 +31,20 @@ export interface QueryAnalysis {
     sidoCode?: string;
     gugunCode?: string;
     minCount?: number;
+    minPrice?: number;
+    maxPrice?: number;
+    daysOfWeek?: DayOfWeek[];
+    timeOfDay?: TimeOfDay;
+    minRuntimeMinutes?: number;
+    maxRuntimeMinutes?: number;
+    endsBefore?: string; // "HH:MM"
+    radiusKm?: number; // 거리 검색(좌표/랜드마크)일 때만
   };
 }
 
 // 공연 점수 정보
 export interface EventScore {
-  event: any;
+  event: Performance;
   totalScore: number;
   breakdown: {
     priceScore: number;
@@ -38,22 +52,65 @@ export interface EventScore {
     genreScore: number;
     locationScore: number;
     popularityScore: number;
+    awardScore: number;
+    scheduleScore: number;
   };
 }
 
 // 스마트 검색 결과
 export interface SmartSearchResult {
-  events: any[];
-  level: number; // 1~4 (완화 단계)
+  events: Performance[];
+  level: number; // 1~7 (완화 단계)
   relaxedConditions: string[];
   message: string;
   scores?: EventScore[]; // 점수 상세 (디버깅용)
+  offset?: number;       // 이번 페이지 시작 위치
+  nextCursor?: string;   // 다음 페이지 조회용 cursor (없으면 마지막 페이지)
+  timedOut?: boolean;    // 시간 예산 초과로 중간 결과를 반환했는지
+  parsedQuery?: ParsedQuery; // 자연어 질의 해석 (ask_performances)
+}
+
+// 자연어 질의 해석 결과
+export interface ParsedQuery {
+  query: string;
+  toolName: string;          // 위임할 검색 도구
+  args: Record<string, any>; // 위임할 도구의 인자
+  keywords: {
+    isFree: boolean;
+    isTrending: boolean;
+    isAwarded: boolean;
+    isFestival: boolean;
+    isOpening: boolean;
+    isFamily: boolean;      // "아이랑", "가족", "7살" 등
+    hasPriceKeyword: boolean;
+    hasScheduleKeyword: boolean; // 요일/시간대, 러닝타임, 끝나는 시각
+  };
+  genreCodes: string[];      // 언급 순서대로 (첫 번째로 검색)
+  dateRange?: { start: string; end: string };
+  minPrice?: number;
+  maxPrice?: number;
+  daysOfWeek?: DayOfWeek[];
+  timeOfDay?: TimeOfDay;
+  minRuntimeMinutes?: number; // 러닝타임 (분)
+  maxRuntimeMinutes?: number;
+  endsBefore?: string;       // "HH:MM" - 이 시각 전에 끝나는 회차
+  count?: number;
+  childAge?: number;         // 함께 볼 아이 나이 (만 나이)
+  locationCandidates?: LocationCandidate[]; // "중구"처럼 여러 곳인 지역 이름의 후보 (지역 없이 검색)
+  interpretation: string[];  // 사람이 읽는 해석 목록
 }
 
-// 완화 전략 설정
+// 완화 전략 설정 (완화 단계 1개)
 export interface RelaxationStrategy {
   locationExpansion: 'none' | 'nearby' | 'city' | 'nationwide';
   genreExpansion: 'none' | 'similar' | 'all';
-  dateExpansion: 'none' | 'week' | 'month';
+  dateExpansion: 'none' | 'days' | 'week' | 'month'; // 요청 기간 기준 앞뒤 3일 → 같은 주 → 같은 달
   allowPriceIncrease: boolean;
-}
\ No newline at end of file
+  audienceExpansion: 'none' | 'general'; // 아동 공연 → 일반 공연 중 관람 연령이 맞는 공연 (가족 공연만)
+}
+
+// 완화할 수 있는 조건
+export type RelaxableCondition = 'genre' | 'location' | 'date' | 'price' | 'audience';
+
+// 완화 정도 (strict: 완화 안 함, normal: 가격 외 완화, loose: 예산 상한까지 완화)
+export type Strictness = 'strict' | 'normal' | 'loose';
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { AudienceAge } from '../types/performance.types.js';
+
+/**
+ * KOPIS 관람 연령(prfage) 파서
+ * 예: "만 7세 이상"          → 84개월 이상
+ *     "36개월 이상"          → 36개월 이상
+ *     "전체 관람가"          → 0개월 이상 (전체 관람가)
+ *     "24개월~48개월"        → 24 ~ 48개월
+ *     "초등학생 이상 관람가" → 84개월 이상
+ *     "청소년 관람불가"      → 만 19세(228개월) 이상
+ */
+
+const MONTHS_PER_YEAR = 12;
+
+// 성인 기준 (청소년 관람불가)
+const ADULT_MONTHS = 19 * MONTHS_PER_YEAR;
+
+const ALL_AGES_PATTERN = /전체\s*관람|전\s*연령|누구나|제한\s*없음|연령\s*무관|all\s*ages/i;
+const ADULT_ONLY_PATTERN = /청소년\s*관람\s*불가|성인\s*(?:관람|전용|만)/;
+
+// 범위 ("24개월~48개월", "3세~7세", "24~48개월")
+const RANGE_PATTERN = /(\d+)\s*(개월|세|살)?\s*[~～-]\s*(\d+)\s*(개월|세|살)/;
+
+// 최소 연령 ("만 7세 이상", "36개월 이상", "8세이상", "만7세")
+const MIN_AGE_PATTERN = /(\d+)\s*(개월|세|살)/;
+
+// 학교급 기준 (입학 연령, 만 나이)
+const SCHOOL_AGES: Array<[RegExp, number]> = [
+  [/미취학|초등학생|초등/, 7],
+  [/중학생/, 13],
+  [/고등학생/, 16],
+  [/대학생/, 19],
+];
+
+/**
+ * 관람 연령 문자열 → 최소/최대 연령 (개월)
+ */
+export function parseAudienceAge(value: unknown): AudienceAge {
+  const text = value === undefined || value === null ? '' : String(value).trim();
+  const unknown: AudienceAge = { text: text || null, minMonths: null, maxMonths: null, allAges: false };
+  if (!text) return unknown;
+
+  const range = text.match(RANGE_PATTERN);
+  if (range) {
+    // 앞쪽 단위가 없으면 뒤쪽 단위를 따름 ("24~48개월")
+    return {
+      ...unknown,
+      minMonths: toMonths(parseInt(range[1], 10), range[2] || range[4]),
+      maxMonths: toMonths(parseInt(range[3], 10), range[4]),
+    };
+  }
+
+  const min = text.match(MIN_AGE_PATTERN);
+  if (min) {
+    const minMonths = toMonths(parseInt(min[1], 10), min[2]);
+    return { ...unknown, minMonths, allAges: minMonths === 0 };
+  }
+
+  // 숫자 연령이 없을 때만 문구로 판단 ("전체관람가(48개월 이상 입장)"은 48개월)
+  if (ALL_AGES_PATTERN.test(text)) {
+    return { ...unknown, minMonths: 0, allAges: true };
+  }
+  if (ADULT_ONLY_PATTERN.test(text)) {
+    return { ...unknown, minMonths: ADULT_MONTHS };
+  }
+
+  for (const [pattern, years] of SCHOOL_AGES) {
+    if (pattern.test(text)) {
+      return { ...unknown, minMonths: years * MONTHS_PER_YEAR };
+    }
+  }
+
+  return unknown;
+}
+
+/**
+ * 아이 나이(만 나이, 세) → 개월 (예: 2.5 → 30)
+ */
+export function childAgeToMonths(childAge: number): number {
+  return Math.round(childAge * MONTHS_PER_YEAR);
+}
+
+/**
+ * 해당 나이(개월)의 아이가 볼 수 있는 공연인지
+ * - 관람 연령을 해석하지 못한 공연은 제외
+ */
+export function isSuitableForAge(age: AudienceAge | undefined, childMonths: number): boolean {
+  if (!age || age.minMonths === null) return false;
+  return age.minMonths <= childMonths && (age.maxMonths === null || childMonths <= age.maxMonths);
+}
+
+/**
+ * 아이 나이 안내 (예: 7 → "만 7세", 2.5 → "30개월")
+ */
+export function formatChildAge(childAge: number): string {
+  return Number.isInteger(childAge) && childAge >= 3 ? `만 ${childAge}세` : `${childAgeToMonths(childAge)}개월`;
+}
+
+function toMonths(amount: number, unit: string): number {
+  return unit === '개월' ? amount : amount * MONTHS_PER_YEAR;
+}
@@ -0,0 +1,150 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { CacheEntry, CacheStore } from '../types/cache.types.js';
+
+// 이보다 오래된 임시 파일은 중단된 쓰기로 보고 정리
+const STALE_TEMP_MS = 60 * 60 * 1000;
+
+function isExpired(entry: CacheEntry): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= Date.now();
+}
+
+/**
+ * 프로세스 내 LRU 캐시 저장소
+ * - Map의 삽입 순서를 이용해 가장 오래 사용되지 않은 항목부터 제거
+ */
+export class MemoryLruCacheStore implements CacheStore {
+  readonly name = 'memory-lru';
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    // 최근 사용 항목을 맨 뒤로 이동
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
+
+/**
+ * 파일 기반 캐시 저장소 (재시작 후에도 유지)
+ * - 키를 해시한 파일명으로 항목당 JSON 파일 1개 저장
+ * - 만료된 항목은 읽을 때 지우고, 다시 읽히지 않는 항목은 첫 쓰기 때 한 번 정리
+ */
+export class FileCacheStore implements CacheStore {
+  readonly name = 'file';
+  private sweep: Promise<void> | null = null;
+
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    let entry: CacheEntry;
+    try {
+      const raw = await fs.readFile(this.filePath(key), 'utf-8');
+      entry = JSON.parse(raw) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+
+    if (isExpired(entry)) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    this.sweep ??= this.sweepExpired();
+
+    // 임시 파일에 쓴 뒤 rename하여 읽는 도중 깨진 파일이 보이지 않도록 함
+    // (같은 키를 동시에 쓰는 요청끼리 임시 파일이 겹치지 않도록 임의 접미사 추가)
+    const target = this.filePath(key);
+    const temp = `${target}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(entry), 'utf-8');
+    await fs.rename(temp, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  async size(): Promise<number> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files.filter(file => file.endsWith('.json')).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * 디렉터리의 만료된 항목과 이전 실행에서 남은 임시 파일 삭제 (실패해도 무시)
+   */
+  private async sweepExpired(): Promise<void> {
+    try {
+      const files = await fs.readdir(this.directory);
+      for (const file of files) {
+        const filePath = path.join(this.directory, file);
+        if (file.endsWith('.tmp')) {
+          // 다른 프로세스가 쓰는 중일 수 있으므로 오래된 임시 파일만 삭제
+          const stat = await fs.stat(filePath).catch(() => null);
+          if (stat && Date.now() - stat.mtimeMs > STALE_TEMP_MS) {
+            await fs.rm(filePath, { force: true });
+          }
+          continue;
+        }
+        if (!file.endsWith('.json')) continue;
+
+        try {
+          const entry = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CacheEntry;
+          if (isExpired(entry)) {
+            await fs.rm(filePath, { force: true });
+          }
+        } catch {
+          // 깨진 파일은 읽을 수 없으므로 삭제
+          await fs.rm(filePath, { force: true });
+        }
+      }
+    } catch {
+      // 정리는 부가 작업이므로 실패해도 캐시 쓰기에는 영향 없음
+    }
+  }
+
+  private filePath(key: string): string {
+    const hash = createHash('sha1').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * 동시 실행 수를 제한하여 비동기 작업 실행 (결과 순서는 입력 순서 유지)
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(limit, 1), items.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
+
+/**
+ * 마감 시각까지 작업을 기다리고, 넘기면 null 반환
+ * - 시간 초과 후 작업이 실패해도 unhandled rejection이 나지 않도록 처리
+ */
+export async function runUntilDeadline<T>(task: Promise<T>, deadline: number): Promise<T | null> {
+  task.catch(() => undefined);
+
+  const remaining = deadline - Date.now();
+  if (remaining <= 0) return null;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), remaining);
+  });
+
+  try {
+    return await Promise.race([task, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * "더 보기"용 불투명(opaque) 커서
+ * - 도구 이름, 원래 검색 인자, 다음 결과 시작 위치를 base64url로 인코딩
+ * - 어시스턴트는 cursor 값만 다시 넘기면 같은 조건의 다음 결과를 받음
+ */
+export interface SearchCursor {
+  toolName: string;
+  args: Record<string, unknown>;
+  offset: number;
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+export function decodeCursor(token: string, toolName: string): SearchCursor {
+  let cursor: SearchCursor;
+
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('유효하지 않은 cursor입니다. 처음부터 다시 검색해주세요.');
+  }
+
+  if (
+    !cursor ||
+    typeof cursor.offset !== 'number' ||
+    cursor.offset < 0 ||
+    typeof cursor.args !== 'object'
+  ) {
+    throw new Error('유효하지 않은 cursor입니다. 처음부터 다시 검색해주세요.');
+  }
+
+  if (cursor.toolName !== toolName) {
+    throw new Error(`다른 도구(${cursor.toolName})의 cursor입니다. ${toolName} 검색 결과의 cursor를 사용해주세요.`);
+  }
+
+  return cursor;
+}
@@ -0,0 +1,117 @@
+/**
+ * 날짜 구간 유틸리티 (YYYYMMDD, 시작·종료일 포함)
+ */
+
+export interface DateWindow {
+  start: string; // YYYYMMDD
+  end: string;   // YYYYMMDD
+}
+
+// 날짜 완화 단계 (요청 기간 기준)
+export type DateWindowExpansion = 'days' | 'week' | 'month';
+
+// 앞뒤로 넓히는 일수 ('days' 단계)
+export const DATE_RELAX_DAYS = 3;
+
+export const DATE_EXPANSION_LABELS: Record<DateWindowExpansion, string> = {
+  days: `앞뒤 ${DATE_RELAX_DAYS}일`,
+  week: '같은 주',
+  month: '같은 달',
+};
+
+/**
+ * 요청 기간을 기준으로 넓힌 기간
+ * - days: 앞뒤 3일, week: + 시작일~종료일이 속한 주 전체 (월~일), month: + 속한 달 전체
+ * - 단계가 올라가도 앞 단계 기간은 항상 포함 (누적)
+ * - 오늘 이전으로는 넓히지 않음 (요청 시작일이 이미 과거면 그 날짜 유지)
+ */
+export function widenDateWindow(
+  window: DateWindow,
+  expansion: DateWindowExpansion,
+  today: Date = new Date()
+): DateWindow {
+  const start = parseYmd(window.start);
+  const end = parseYmd(window.end);
+
+  let from = addDays(start, -DATE_RELAX_DAYS);
+  let to = addDays(end, DATE_RELAX_DAYS);
+
+  if (expansion === 'week' || expansion === 'month') {
+    from = minDate(from, addDays(start, -((start.getDay() + 6) % 7)));
+    to = maxDate(to, addDays(end, (7 - end.getDay()) % 7));
+  }
+  if (expansion === 'month') {
+    from = minDate(from, new Date(start.getFullYear(), start.getMonth(), 1));
+    to = maxDate(to, new Date(end.getFullYear(), end.getMonth() + 1, 0));
+  }
+
+  const todayYmd = formatYmd(today);
+  const floor = window.start < todayYmd ? window.start : todayYmd;
+  const widenedStart = formatYmd(from);
+
+  return {
+    start: widenedStart < floor ? floor : widenedStart,
+    end: formatYmd(to),
+  };
+}
+
+/**
+ * 두 구간이 겹치는 일수 (겹치지 않으면 0)
+ */
+export function overlapDays(a: DateWindow, b: DateWindow): number {
+  const start = a.start > b.start ? a.start : b.start;
+  const end = a.end < b.end ? a.end : b.end;
+  return start > end ? 0 : daysBetween(start, end) + 1;
+}
+
+/**
+ * 구간 일수 (시작·종료일 포함)
+ */
+export function windowDays(window: DateWindow): number {
+  return daysBetween(window.start, window.end) + 1;
+}
+
+/**
+ * 겹치지 않는 두 구간 사이 일수 (겹치면 0)
+ */
+export function gapDays(a: DateWindow, b: DateWindow): number {
+  if (a.end < b.start) return daysBetween(a.end, b.start);
+  if (b.end < a.start) return daysBetween(b.end, a.start);
+  return 0;
+}
+
+/**
+ * from → to 일수 (to가 앞이면 음수)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseYmd(to).getTime() - parseYmd(from).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+export function formatYmd(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}${month}${day}`;
+}
+
+function parseYmd(value: string): Date {
+  return new Date(
+    parseInt(value.substring(0, 4)),
+    parseInt(value.substring(4, 6)) - 1,
+    parseInt(value.substring(6, 8))
+  );
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function minDate(a: Date, b: Date): Date {
+  return a < b ? a : b;
+}
+
+function maxDate(a: Date, b: Date): Date {
+  return a > b ? a : b;
+}
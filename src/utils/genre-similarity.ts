@@ -0,0 +1,79 @@
+import { readFileSync } from 'fs';
+import { GENRE_CODES } from '../constants/kopis-codes.js';
+import { DEFAULT_GENRE_SIMILARITY, GenreSimilarityEdges } from '../constants/genre-similarity.js';
+
+// 스마트 검색에서 "유사 장르"로 넓히는 최소 가중치 (이보다 낮은 장르는 점수에만 반영)
+export const SIMILAR_GENRE_MIN_WEIGHT = 0.5;
+
+/**
+ * 가중치 장르 유사도 그래프 (완화 단계의 유사 장르 확장과 장르 점수에 함께 사용)
+ */
+export class GenreSimilarityGraph {
+  private edges: GenreSimilarityEdges;
+
+  constructor(edges: GenreSimilarityEdges = DEFAULT_GENRE_SIMILARITY) {
+    this.edges = validateEdges(edges);
+  }
+
+  /**
+   * JSON 설정 파일로 그래프 생성 (기본 그래프에 장르 단위로 덮어씀)
+   * 형식: { "GGGA": { "AAAA": 0.8, "CCCD": 0.5 }, ... }
+   */
+  static fromFile(filePath: string): GenreSimilarityGraph {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to load genre similarity config (${filePath}): ${error}`);
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`Failed to load genre similarity config (${filePath}): expected an object of genre codes`);
+    }
+    return new GenreSimilarityGraph({ ...DEFAULT_GENRE_SIMILARITY, ...(parsed as GenreSimilarityEdges) });
+  }
+
+  /**
+   * from 장르를 찾을 때 to 장르가 얼마나 비슷한지 (같은 장르 1, 간선이 없으면 0)
+   */
+  similarity(from: string, to: string): number {
+    if (from === to) return 1;
+    return this.edges[from]?.[to] ?? 0;
+  }
+
+  /**
+   * 요청 장르 + 유사 장르 (가중치 높은 순)
+   * 예: GGGA → ["GGGA", "AAAA", "CCCD"] (minWeight 0.5)
+   */
+  relatedGenres(genreCode: string, minWeight: number = SIMILAR_GENRE_MIN_WEIGHT): string[] {
+    const neighbors = Object.entries(this.edges[genreCode] || {})
+      .filter(([, weight]) => weight >= minWeight)
+      .sort(([, a], [, b]) => b - a)
+      .map(([code]) => code);
+
+    return [genreCode, ...neighbors];
+  }
+}
+
+/**
+ * 장르 코드와 가중치(0 초과 1 이하) 검사
+ */
+function validateEdges(edges: GenreSimilarityEdges): GenreSimilarityEdges {
+  const isGenre = (code: string) => code in GENRE_CODES;
+
+  for (const [from, targets] of Object.entries(edges)) {
+    if (!isGenre(from)) {
+      throw new Error(`Failed to load genre similarity config: unknown genre code ${from}`);
+    }
+    for (const [to, weight] of Object.entries(targets || {})) {
+      if (!isGenre(to) || to === from) {
+        throw new Error(`Failed to load genre similarity config: invalid edge ${from} → ${to}`);
+      }
+      if (typeof weight !== 'number' || !(weight > 0 && weight <= 1)) {
+        throw new Error(`Failed to load genre similarity config: weight of ${from} → ${to} must be in (0, 1]`);
+      }
+    }
+  }
+
+  return edges;
+}
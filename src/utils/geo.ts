@@ -0,0 +1,103 @@
+import { GeoPoint } from '../types/performance.types.js';
+import { SIDO_CENTERS, findLandmark } from '../constants/landmarks.js';
+
+/**
+ * 거리 검색 유틸리티 (검색 중심 결정, 하버사인 거리)
+ */
+
+// 검색 중심 (좌표 + 후보 공연을 조회할 지역)
+export interface SearchCenter {
+  point: GeoPoint;
+  label: string;       // 안내 문구용 (예: "홍대입구역", "37.5572, 126.9245")
+  sidoCode: string;
+  gugunCode?: string;  // 랜드마크로 지정한 경우만
+}
+
+// 거리 검색 기본/최대 반경 (km)
+export const DEFAULT_RADIUS_KM = 3;
+export const MAX_RADIUS_KM = 30;
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * 좌표 또는 랜드마크 이름 → 검색 중심
+ * - 둘 다 없으면 null (거리 검색 아님)
+ * - 좌표가 있으면 좌표 우선, 시/도는 가장 가까운 시/도 중심으로 결정
+ */
+export function resolveSearchCenter(params: {
+  latitude?: number;
+  longitude?: number;
+  landmark?: string;
+}): SearchCenter | null {
+  const { latitude, longitude, landmark } = params;
+
+  if (latitude !== undefined || longitude !== undefined) {
+    if (latitude === undefined || longitude === undefined) {
+      throw new Error('latitude와 longitude는 함께 지정해야 합니다.');
+    }
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new Error(`잘못된 좌표입니다: ${latitude}, ${longitude}`);
+    }
+
+    const point = { latitude, longitude };
+    return {
+      point,
+      label: landmark || `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`,
+      sidoCode: findNearestSidoCode(point),
+    };
+  }
+
+  if (!landmark) return null;
+
+  const found = findLandmark(landmark);
+  if (!found) {
+    throw new Error(`알 수 없는 랜드마크입니다: "${landmark}". latitude/longitude 좌표로 검색해주세요.`);
+  }
+
+  return {
+    point: { latitude: found.latitude, longitude: found.longitude },
+    label: found.name,
+    sidoCode: found.gugunCode.substring(0, 2),
+    gugunCode: found.gugunCode,
+  };
+}
+
+/**
+ * 두 좌표 사이 거리 (km, 하버사인 공식)
+ */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * 거리 표시 (1km 미만은 m 단위, 예: "850m", "2.3km")
+ */
+export function formatDistance(km: number): string {
+  if (km < 1) {
+    return `${Math.round(km * 100) * 10}m`;
+  }
+  return `${km.toFixed(1)}km`;
+}
+
+function findNearestSidoCode(point: GeoPoint): string {
+  let nearest = '11';
+  let nearestKm = Infinity;
+
+  for (const [code, center] of Object.entries(SIDO_CENTERS)) {
+    const km = haversineKm(point, center);
+    if (km < nearestKm) {
+      nearest = code;
+      nearestKm = km;
+    }
+  }
+
+  return nearest;
+}
@@ -0,0 +1,61 @@
+/**
+ * 한글 검색어 정규화 유틸리티
+ */
+
+// 초성 (유니코드 한글 음절 순서)
+const CHOSEONG = [
+  'ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ',
+  'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ',
+];
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+const SYLLABLES_PER_CHOSEONG = 21 * 28;
+
+const CHOSEONG_ONLY_PATTERN = /^[ㄱ-ㅎ]+$/;
+
+/**
+ * 비교용 정규화
+ * - 자모가 분리된 입력(NFD, 맥 파일명 등)을 NFC로 합침 (초성 검색어 "ㅈㅅㅇ"는 그대로 유지)
+ * - 공백·문장부호 제거, 영문 소문자
+ * 예: "조 승우" → "조승우", "Kim Junsu" → "kimjunsu"
+ */
+export function normalizeHangul(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]/gu, '');
+}
+
+/**
+ * 한글 음절 → 초성 (한글이 아닌 문자는 그대로)
+ * 예: "조승우" → "ㅈㅅㅇ"
+ */
+export function toChoseong(text: string): string {
+  return Array.from(text)
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if (code < HANGUL_START || code > HANGUL_END) return char;
+      return CHOSEONG[Math.floor((code - HANGUL_START) / SYLLABLES_PER_CHOSEONG)];
+    })
+    .join('');
+}
+
+/**
+ * 초성만으로 된 검색어인지 (예: "ㅈㅅㅇ")
+ */
+export function isChoseongQuery(normalizedQuery: string): boolean {
+  return CHOSEONG_ONLY_PATTERN.test(normalizedQuery);
+}
+
+/**
+ * 정규화한 이름이 검색어와 맞는지 (부분 일치, 초성 검색어는 초성 부분 일치)
+ * - 둘 다 normalizeHangul을 거친 값
+ */
+export function matchesHangul(normalizedName: string, normalizedQuery: string): boolean {
+  if (!normalizedQuery) return false;
+  if (isChoseongQuery(normalizedQuery)) {
+    return toChoseong(normalizedName).includes(normalizedQuery);
+  }
+  return normalizedName.includes(normalizedQuery);
+}
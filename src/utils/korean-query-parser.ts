@@ -0,0 +1,868 @@
+import { ParsedQuery } from '../types/search.types.js';
+import { DayOfWeek, TimeOfDay } from '../types/performance.types.js';
+import { DAY_NAMES, TIME_OF_DAY_LABELS, getTimeOfDay } from './schedule-parser.js';
+import { DEFAULT_RADIUS_KM } from './geo.js';
+import { formatChildAge } from './age-parser.js';
+import { formatMinutes } from './runtime-parser.js';
+import { findLandmark } from '../constants/landmarks.js';
+import {
+  GENRE_CODES,
+  getGenreName,
+  getSidoNameFull,
+  getGugunNameFull,
+} from '../constants/kopis-codes.js';
+import { formatLocationCandidates, resolveLocation } from './location-resolver.js';
+import { LocationCandidate, LocationResolution } from '../types/location.types.js';
+
+// 장르 키워드 → 장르 코드 (긴 키워드부터 매칭)
+const GENRE_KEYWORDS: Array<[string, keyof typeof GENRE_CODES]> = [
+  ['대중무용', 'BBBE'],
+  ['스트릿댄스', 'BBBE'],
+  ['댄스', 'BBBE'],
+  ['현대무용', 'BBBC'],
+  ['한국무용', 'BBBC'],
+  ['무용', 'BBBC'],
+  ['발레', 'BBBC'],
+  ['클래식', 'CCCA'],
+  ['오케스트라', 'CCCA'],
+  ['교향악', 'CCCA'],
+  ['교향곡', 'CCCA'],
+  ['오페라', 'CCCA'],
+  ['실내악', 'CCCA'],
+  ['리사이틀', 'CCCA'],
+  ['피아노', 'CCCA'],
+  ['바이올린', 'CCCA'],
+  ['합창', 'CCCA'],
+  ['국악', 'CCCC'],
+  ['판소리', 'CCCC'],
+  ['사물놀이', 'CCCC'],
+  ['가야금', 'CCCC'],
+  ['대중음악', 'CCCD'],
+  ['음악회', 'CCCA'],
+  ['콘서트', 'CCCD'],
+  ['밴드', 'CCCD'],
+  ['재즈', 'CCCD'],
+  ['힙합', 'CCCD'],
+  ['인디', 'CCCD'],
+  ['음악', 'CCCD'],
+  ['넌버벌', 'EEEA'],
+  ['복합', 'EEEA'],
+  ['서커스', 'EEEB'],
+  ['마술', 'EEEB'],
+  ['매직', 'EEEB'],
+  ['곡예', 'EEEB'],
+  ['뮤지컬', 'GGGA'],
+  ['인형극', 'AAAA'],
+  ['연극', 'AAAA'],
+];
+
+// 일반 단어와 겹치는 구/군 줄임말은 "시/군"까지 붙여야 인식 (예: "예산" ≠ 예산군)
+const COMMON_WORD_STEMS = new Set([
+  '수영', '사상', '구리', '고양', '화성', '공주', '예산', '음성', '보은', '청원',
+  '장수', '영광', '영양', '고령', '진주', '동해', '남해', '부여', '성주',
+]);
+
+// 오타 보정은 "구/군"으로 끝나는 단어만 (예: "강넘구에서" → 강남구), 뒤에 붙은 조사는 뗌
+const TYPO_LOCATION_PATTERN = /^[가-힣]{1,4}[구군]$/;
+const TRAILING_PARTICLE_PATTERN = /(?:에서만|에서|에는|에도|에|의|으로|로|쪽|근처|주변|인근|만|이나|나|도|은|는|이|가)$/;
+
+// 달 안의 N째 주 (예: "12월 첫째 주", "다음 달 마지막 주")
+const WEEK_OF_MONTH_PATTERN = '(첫째|첫|둘째|두번째|셋째|세번째|넷째|네번째|마지막)주';
+const WEEK_OF_MONTH: Record<string, number> = {
+  '첫째': 1, '첫': 1, '둘째': 2, '두번째': 2, '셋째': 3, '세번째': 3, '넷째': 4, '네번째': 4, '마지막': -1,
+};
+
+// 한글 수사 → 숫자
+const KOREAN_NUMBERS: Record<string, number> = {
+  '한': 1, '하나': 1, '두': 2, '둘': 2, '세': 3, '셋': 3, '네': 4, '넷': 4,
+  '다섯': 5, '여섯': 6, '일곱': 7, '여덟': 8, '아홉': 9, '열': 10,
+};
+
+// 위임 가능한 검색 도구별 키워드 (위에서부터 우선)
+const TRENDING_PATTERN = /인기|핫한|핫플|요즘뜨는|흥행|박스오피스|랭킹|순위|화제/;
+const AWARDED_PATTERN = /수상/;
+const FESTIVAL_PATTERN = /축제|페스티벌|festival/i;
+const OPENING_PATTERN = /개막|오픈예정|새로(?:시작|올라|오픈)|첫공연/;
+const FREE_PATTERN = /무료|공짜|free/i;
+// "아이돌", "아이유"는 제외
+const FAMILY_PATTERN = /아이(?!돌|유)|아기|애기|어린이|자녀|아들|딸(?!기)|조카|유아|가족|키즈|아동/;
+const CHEAP_PATTERN = /저렴|싼|가성비/;
+
+// 아이 나이로 관람 연령을 거를 수 있는 검색 도구
+const FAMILY_TOOLS = [
+  'get_family_performances',
+  'search_events_by_location',
+  'filter_free_events',
+  'search_festivals',
+  'get_awarded_performances',
+];
+
+// 관람 시간대 키워드
+const MATINEE_PATTERN = /낮|오전|마티네|점심|아침/;
+const EVENING_PATTERN = /저녁|밤|야간|퇴근/;
+// "오후 N시"는 시각으로 보고 17시 이후면 저녁, 그 전이면 낮 / "오후"만 있으면 낮
+const AFTERNOON_PATTERN = /오후(?:(\d{1,2}|한|두|세|네|다섯|여섯|일곱|여덟|아홉|열)시)?/;
+
+// 아이 나이 ("7살", "만 5세", "36개월", "일곱 살") - "19세 이상" 같은 관람 등급 표현은 제외
+const CHILD_AGE_PATTERN = /(?:만\s*)?(\d{1,2})\s*(살|세|개월)(?!\s*(?:이상|이하|미만|관람))/;
+const MAX_CHILD_AGE = 18;
+const CHILD_AGE_KOREAN_PATTERN = /(한|두|세|네|다섯|여섯|일곱|여덟|아홉|열)\s*살/;
+
+// 러닝타임 ("1시간 정도", "90분 이내", "두 시간 반 이상") - "7시30분" 같은 시각은 제외
+const RUNTIME_PATTERN =
+  /(?:(\d+(?:\.\d+)?|한|두|세|네)시간(반)?(?:(\d{1,2})분)?|(?<![시\d])(\d{2,3})분)(이내|이하|안쪽|미만|안에|까지|이상|넘는|넘게|초과|정도|쯤|내외|안팎|짜리|남짓|가량)?/;
+const RUNTIME_CONTEXT_PATTERN = /러닝타임|공연시간|관람시간|보는|볼수있는/;
+const SHORT_RUNTIME_PATTERN = /짧은|짧게|짧고|길지않/;
+// "정도"는 앞뒤 여유, "짧은"만 있으면 이 시간 이하
+const RUNTIME_TOLERANCE_MINUTES = 15;
+const SHORT_RUNTIME_MINUTES = 90;
+
+// 끝나는 시각 ("9시 전에 끝나는", "밤 10시까지 끝나는", "21:30 이전 종료")
+const ENDS_BEFORE_PATTERN =
+  /(오전|오후|저녁|밤)?(\d{1,2}|한|두|세|네|다섯|여섯|일곱|여덟|아홉|열)(?::(\d{2})|시(?:(\d{1,2})분|(반))?)(?:전에?|이전에?|까지|안에)(?:는|은)?(?:끝나|종료|마치|마무리)/;
+
+// 거리 검색 키워드 ("홍대입구역 근처", "강남역 2km 이내")
+const NEARBY_PATTERN = /근처|주변|인근|가까운|도보/;
+const RADIUS_PATTERN = /(\d+(?:\.\d+)?)\s*(?:km|킬로)/i;
+
+// 지역 한정 키워드 ("종로구에서만", "홍대입구역 근처만") - 지역명 바로 뒤에 올 때만
+const LOCATION_ONLY_PATTERN = /^(?:역|구|군|시)?\s*(?:근처|주변|인근)?\s*(?:에서|안에서|내에서)?\s*만(?![가-힣])/;
+
+interface DateRange {
+  start: string;
+  end: string;
+  label: string;
+}
+
+interface ShowtimeMatch {
+  daysOfWeek?: DayOfWeek[];
+  timeOfDay?: TimeOfDay;
+  label: string;
+}
+
+interface RuntimeMatch {
+  minRuntimeMinutes?: number;
+  maxRuntimeMinutes?: number;
+  label: string;
+}
+
+interface LocationMatch {
+  sidoCode: string;
+  gugunCode?: string;
+  label: string;
+  alias: string;
+  index: number;
+}
+
+// "중구"처럼 여러 곳에 있는 지역 이름 (지역 없이 검색하고 후보를 안내)
+interface AmbiguousLocation {
+  alias: string;
+  candidates: LocationCandidate[];
+}
+
+interface NearbyMatch {
+  landmark: string;
+  radiusKm?: number;
+  label: string;
+}
+
+/**
+ * 한국어 자연어 질의를 검색 파라미터로 변환하는 파서
+ * 예: "이번 주말 대학로에서 3만원 이하 연극 5개" → 날짜/위치/가격/장르/개수
+ */
+export class KoreanQueryParser {
+  /**
+   * 자연어 질의 해석 (today 기준 상대 날짜 계산)
+   */
+  parse(query: string, today: Date = new Date()): ParsedQuery {
+    const text = query.trim();
+    const compact = text.replace(/\s+/g, '');
+    const base = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+    const date = this.parseDate(compact, base);
+    const genreCodes = this.parseGenres(compact);
+    const { location, ambiguousLocation } = this.parseLocation(text);
+    const price = this.parsePrice(text);
+    const count = this.parseCount(text);
+    const showtime = this.parseShowtime(compact, date);
+    const nearby = this.parseNearby(text, location);
+    const locationOnly = this.isLocationOnly(text, location);
+    const childAge = this.parseChildAge(text);
+    const endsBefore = this.parseEndsBefore(compact);
+    const runtime = this.parseRuntime(endsBefore ? compact.replace(endsBefore.match, '') : compact);
+
+    const keywords = {
+      isFree: FREE_PATTERN.test(compact),
+      isTrending: TRENDING_PATTERN.test(compact),
+      isAwarded: AWARDED_PATTERN.test(compact),
+      isFestival: FESTIVAL_PATTERN.test(compact),
+      isOpening: OPENING_PATTERN.test(compact),
+      isFamily: FAMILY_PATTERN.test(compact) || childAge !== undefined,
+      hasPriceKeyword: price.maxPrice !== undefined || price.minPrice !== undefined || CHEAP_PATTERN.test(compact),
+      hasScheduleKeyword: showtime !== null || runtime !== null || endsBefore !== null,
+    };
+
+    const interpretation: string[] = [];
+    const genreCode = genreCodes[0];
+
+    if (date) {
+      interpretation.push(`날짜: ${date.label} (${date.start} ~ ${date.end})`);
+    }
+    if (genreCodes.length > 0) {
+      const names = genreCodes.map(code => getGenreName(code)).join(', ');
+      interpretation.push(
+        genreCodes.length > 1
+          ? `장르: ${names} (${getGenreName(genreCode)} 우선 검색, 나머지는 유사 장르 확장으로 포함)`
+          : `장르: ${names}`
+      );
+    }
+    const onlyLabel = locationOnly ? ' - 이 지역만 (넓히지 않음)' : '';
+    if (nearby) {
+      interpretation.push(`위치: ${nearby.label}${onlyLabel}`);
+    } else if (location) {
+      interpretation.push(`위치: ${location.label}${onlyLabel}`);
+    } else if (ambiguousLocation) {
+      interpretation.push(
+        `위치: "${ambiguousLocation.alias}"은(는) 여러 지역에 있어 지역 없이 검색했습니다 ` +
+          `(후보: ${formatLocationCandidates(ambiguousLocation.candidates)}). ` +
+          `"${ambiguousLocation.candidates[0].name}"처럼 시/도를 함께 말해주세요.`
+      );
+    }
+    if (keywords.isFree) {
+      interpretation.push('가격: 무료');
+    } else if (price.label) {
+      interpretation.push(`가격: ${price.label}`);
+    } else if (keywords.hasPriceKeyword) {
+      interpretation.push('가격: 저렴한 공연 우선');
+    }
+    if (showtime) {
+      interpretation.push(`공연 시간: ${showtime.label}`);
+    }
+    if (runtime) {
+      interpretation.push(`러닝타임: ${runtime.label}`);
+    }
+    if (endsBefore) {
+      interpretation.push(`끝나는 시각: ${endsBefore.time} 전 (시작 시각 + 러닝타임)`);
+    }
+    if (childAge !== undefined) {
+      interpretation.push(`관객: ${formatChildAge(childAge)} 아이와 함께 (관람 연령 확인)`);
+    } else if (keywords.isFamily) {
+      interpretation.push('관객: 가족 (아동 공연 우선)');
+    }
+    if (count) {
+      interpretation.push(`개수: ${count}개`);
+    }
+
+    // 검색 도구 결정: 무료 > 수상작 > 축제 > 개막 예정 > 가족 > 인기 > 일반 공연
+    let toolName = 'search_events_by_location';
+    const args: Record<string, unknown> = {};
+
+    if (keywords.isFree) {
+      toolName = 'filter_free_events';
+      args.genreCode = genreCode;
+      // 무료 검색은 sidoCode에 구/군 코드도 허용 (완화 단계에서 시/도로 확장)
+      args.sidoCode = location?.gugunCode || location?.sidoCode;
+    } else if (keywords.isAwarded) {
+      toolName = 'get_awarded_performances';
+      Object.assign(args, this.dateAndLocationArgs(date, location));
+      args.genreCode = genreCode;
+    } else if (keywords.isFestival) {
+      toolName = 'search_festivals';
+      Object.assign(args, this.dateAndLocationArgs(date, location, base));
+      args.genreCode = genreCode;
+    } else if (keywords.isOpening) {
+      toolName = 'get_upcoming_openings';
+      Object.assign(args, this.dateAndLocationArgs(date, location, base));
+      args.genreCode = genreCode;
+    } else if (keywords.isFamily) {
+      toolName = 'get_family_performances';
+      Object.assign(args, this.dateAndLocationArgs(date, location, base));
+      args.genreCode = genreCode;
+    } else if (keywords.isTrending) {
+      toolName = 'get_trending_performances';
+      args.genreCode = genreCode;
+      args.sidoCode = location?.sidoCode;
+      args.period = this.toBoxOfficePeriod(date);
+    } else {
+      Object.assign(args, this.dateAndLocationArgs(date, location, base));
+      args.genreCode = genreCode;
+    }
+
+    // 가격 범위는 지원하는 도구(일반/무료 검색)에서 필터로 적용
+    if (toolName === 'search_events_by_location' || toolName === 'filter_free_events') {
+      args.minPrice = price.minPrice;
+      args.maxPrice = price.maxPrice;
+    }
+    // 랜드마크 근처는 거리 검색을 지원하는 도구(일반/축제/수상작)에서 반경 검색으로 적용
+    if (nearby && ['search_events_by_location', 'search_festivals', 'get_awarded_performances'].includes(toolName)) {
+      args.landmark = nearby.landmark;
+      args.radiusKm = nearby.radiusKm;
+    }
+    // 아이 나이/아동 공연은 관람 연령으로 거를 수 있는 목록 검색에서 적용
+    if (keywords.isFamily && FAMILY_TOOLS.includes(toolName)) {
+      args.childAge = childAge;
+      args.familyFriendly = toolName === 'get_family_performances' ? undefined : true;
+    }
+    // 요일/시간대는 박스오피스(인기 공연)·개막 예정을 제외한 목록 검색에서 필터로 적용
+    if (showtime && !['get_trending_performances', 'get_upcoming_openings'].includes(toolName)) {
+      args.daysOfWeek = showtime.daysOfWeek;
+      args.timeOfDay = showtime.timeOfDay;
+    }
+    // 러닝타임/끝나는 시각도 같은 목록 검색에서 상세 정보로 거름
+    if ((runtime || endsBefore) && !['get_trending_performances', 'get_upcoming_openings'].includes(toolName)) {
+      args.minRuntimeMinutes = runtime?.minRuntimeMinutes;
+      args.maxRuntimeMinutes = runtime?.maxRuntimeMinutes;
+      args.endsBefore = endsBefore?.time;
+    }
+    if (count) {
+      args.limit = count;
+    }
+    // "종로구에서만" → 위치를 제외한 조건만 완화
+    if (locationOnly) {
+      args.allowRelax = toolName === 'get_family_performances' ? ['genre', 'date', 'audience'] : ['genre', 'date'];
+    }
+
+    // 날짜가 없을 때 적용된 기본값 안내
+    if (!date && args.startDate) {
+      interpretation.push(`날짜: 지정 없음 → 오늘부터 30일 (${args.startDate} ~ ${args.endDate})`);
+    }
+    if (toolName === 'filter_free_events' && date) {
+      interpretation.push('참고: 무료 공연 검색은 오늘부터 30일 기간으로 검색합니다.');
+    }
+    if (toolName === 'get_upcoming_openings') {
+      interpretation.push('참고: 개막일이 이 기간 안인 공연예정 공연을 개막일 순으로 찾습니다.');
+    }
+    if (price.label && args.minPrice === undefined && args.maxPrice === undefined) {
+      interpretation.push('참고: 가격 조건은 가격 정보가 있는 공연의 정렬 점수에 반영됩니다.');
+    }
+
+    return {
+      query: text,
+      toolName,
+      args: this.dropEmpty(args),
+      keywords,
+      genreCodes,
+      dateRange: date ? { start: date.start, end: date.end } : undefined,
+      minPrice: price.minPrice,
+      maxPrice: price.maxPrice,
+      daysOfWeek: showtime?.daysOfWeek,
+      timeOfDay: showtime?.timeOfDay,
+      minRuntimeMinutes: runtime?.minRuntimeMinutes,
+      maxRuntimeMinutes: runtime?.maxRuntimeMinutes,
+      endsBefore: endsBefore?.time,
+      count,
+      childAge,
+      locationCandidates: ambiguousLocation?.candidates,
+      interpretation,
+    };
+  }
+
+  /**
+   * 상대/절대 날짜 표현 → 기간
+   */
+  private parseDate(compact: string, today: Date): DateRange | null {
+    // 크리스마스/연말 등 기념일
+    if (compact.includes('크리스마스이브')) {
+      return this.fixedDay(today, 12, 24, 12, 24, '크리스마스 이브');
+    }
+    if (compact.includes('크리스마스') || compact.includes('성탄절')) {
+      return this.fixedDay(today, 12, 24, 12, 25, '크리스마스');
+    }
+    if (compact.includes('연말')) {
+      return this.fixedDay(today, 12, 20, 12, 31, '연말');
+    }
+    if (compact.includes('어린이날')) {
+      return this.fixedDay(today, 5, 5, 5, 5, '어린이날');
+    }
+
+    // N월 N일
+    const dayMatch = compact.match(/(\d{1,2})월(\d{1,2})일/);
+    if (dayMatch) {
+      const month = parseInt(dayMatch[1], 10);
+      const day = parseInt(dayMatch[2], 10);
+      if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+        return this.fixedDay(today, month, day, month, day, `${month}월 ${day}일`);
+      }
+    }
+
+    // 오늘/내일/모레
+    if (compact.includes('오늘')) {
+      return this.range(today, today, '오늘');
+    }
+    if (compact.includes('내일')) {
+      const day = this.addDays(today, 1);
+      return this.range(day, day, '내일');
+    }
+    if (compact.includes('모레')) {
+      const day = this.addDays(today, 2);
+      return this.range(day, day, '모레');
+    }
+
+    // 주말/주 (월요일 시작)
+    const monday = this.addDays(today, -((today.getDay() + 6) % 7));
+    if (compact.includes('다음주말')) {
+      return this.range(this.addDays(monday, 12), this.addDays(monday, 13), '다음 주말');
+    }
+    if (compact.includes('이번주말') || compact.includes('주말')) {
+      const saturday = this.addDays(monday, 5);
+      return this.range(saturday < today ? today : saturday, this.addDays(monday, 6), '이번 주말');
+    }
+    if (compact.includes('다다음주')) {
+      return this.range(this.addDays(monday, 14), this.addDays(monday, 20), '다다음 주');
+    }
+    if (compact.includes('다음주')) {
+      return this.range(this.addDays(monday, 7), this.addDays(monday, 13), '다음 주');
+    }
+    if (compact.includes('이번주')) {
+      return this.range(today, this.addDays(monday, 6), '이번 주');
+    }
+
+    // 이번 달/다음 달, N월의 N째 주 (월요일 시작 주, 그 달 안으로 자름)
+    const relativeWeek = compact.match(new RegExp(`(이번|이|다음)달${WEEK_OF_MONTH_PATTERN}`));
+    if (relativeWeek) {
+      const offset = relativeWeek[1] === '다음' ? 1 : 0;
+      const first = new Date(today.getFullYear(), today.getMonth() + offset, 1);
+      const label = `${offset ? '다음 달' : '이번 달'} ${relativeWeek[2]} 주`;
+      return this.monthWeek(first, WEEK_OF_MONTH[relativeWeek[2]], label, today);
+    }
+    const monthWeek = compact.match(new RegExp(`(\\d{1,2})월${WEEK_OF_MONTH_PATTERN}`));
+    if (monthWeek) {
+      const month = parseInt(monthWeek[1], 10);
+      if (month >= 1 && month <= 12) {
+        const label = `${month}월 ${monthWeek[2]} 주`;
+        return this.monthWeek(this.monthFirst(today, month), WEEK_OF_MONTH[monthWeek[2]], label, today);
+      }
+    }
+
+    // 이번 달/다음 달 (+ 초/중순/말)
+    const relativeMonth = compact.match(/(이번|이|다음)달(초|중순|말)?/);
+    if (relativeMonth) {
+      const offset = relativeMonth[1] === '다음' ? 1 : 0;
+      const first = new Date(today.getFullYear(), today.getMonth() + offset, 1);
+      const label = `${offset ? '다음 달' : '이번 달'}${relativeMonth[2] ? ` ${relativeMonth[2]}` : ''}`;
+      return this.monthPart(first, relativeMonth[2], label, today);
+    }
+
+    // N월 (+ 초/중순/말), 지난 달이면 내년
+    const monthMatch = compact.match(/(\d{1,2})월(초|중순|말)?/);
+    if (monthMatch) {
+      const month = parseInt(monthMatch[1], 10);
+      if (month >= 1 && month <= 12) {
+        const label = `${month}월${monthMatch[2] ? ` ${monthMatch[2]}` : ''}`;
+        return this.monthPart(this.monthFirst(today, month), monthMatch[2], label, today);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 장르 키워드 → 장르 코드 목록 (질의에 나온 순서)
+   */
+  private parseGenres(compact: string): string[] {
+    const found: Array<{ code: string; index: number }> = [];
+    let masked = compact;
+
+    for (const [keyword, code] of GENRE_KEYWORDS) {
+      let index = masked.indexOf(keyword);
+      while (index !== -1) {
+        found.push({ code, index });
+        // 긴 키워드에 포함된 짧은 키워드가 다시 매칭되지 않도록 가림
+        masked = masked.slice(0, index) + '□'.repeat(keyword.length) + masked.slice(index + keyword.length);
+        index = masked.indexOf(keyword);
+      }
+    }
+
+    const codes = found.sort((a, b) => a.index - b.index).map(f => f.code);
+    return [...new Set(codes)];
+  }
+
+  /**
+   * 지역명/랜드마크 → 시/도, 구/군 코드 (resolveLocation으로 단어마다 확인)
+   * - 단어 앞부분이 지역 이름이면 인식 (예: "강남에서", "대학로연극", "부산중구")
+   * - 함께 말한 시/도로 같은 이름의 구/군을 좁힘 (예: "부산 중구", "부산 강서구")
+   * - 그래도 여러 곳이면 ambiguousLocation으로 후보를 돌려줌 (예: "중구 연극", "고성")
+   */
+  private parseLocation(text: string): { location: LocationMatch | null; ambiguousLocation: AmbiguousLocation | null } {
+    const found: Array<{ alias: string; index: number; resolution: LocationResolution }> = [];
+    for (const token of text.matchAll(/\S+/g)) {
+      const match = this.matchLocationWord(token[0]);
+      if (match) found.push({ ...match, index: token.index ?? 0 });
+    }
+
+    const sido = found.find(f => f.resolution.resolved && !f.resolution.resolved.gugunCode)?.resolution.resolved;
+    const narrowed = found.map(f =>
+      f.resolution.ambiguous && sido
+        ? { ...f, resolution: resolveLocation(f.alias, sido.sidoCode, { approximate: f.resolution.resolved?.matchedBy === 'typo' }) }
+        : f
+    );
+
+    const matches: LocationMatch[] = narrowed.flatMap(({ alias, index, resolution }) => {
+      const resolved = resolution.resolved;
+      if (!resolved) return [];
+      return [{
+        sidoCode: resolved.sidoCode,
+        gugunCode: resolved.gugunCode ?? undefined,
+        label: resolved.gugunCode ? `${getGugunNameFull(resolved.gugunCode)} (${alias})` : getSidoNameFull(resolved.sidoCode),
+        alias,
+        index,
+      }];
+    });
+
+    // 시/도를 함께 말했으면 그 시/도의 구/군을 우선, 서로 다른 시/도면 먼저 말한 쪽
+    const sidoMatch = matches.find(m => !m.gugunCode);
+    const guguns = matches.filter(m => m.gugunCode);
+    const gugun = (sidoMatch && guguns.find(m => m.sidoCode === sidoMatch.sidoCode)) || guguns[0];
+
+    let location = gugun || sidoMatch || null;
+    if (gugun && sidoMatch && gugun.sidoCode !== sidoMatch.sidoCode) {
+      location = sidoMatch.index <= gugun.index ? sidoMatch : gugun;
+    }
+
+    const ambiguous = location ? undefined : narrowed.find(f => f.resolution.ambiguous);
+    return {
+      location,
+      ambiguousLocation: ambiguous ? { alias: ambiguous.alias, candidates: ambiguous.resolution.candidates } : null,
+    };
+  }
+
+  /**
+   * 단어 하나 → 지역 (앞부분이 가장 길게 일치하는 이름, 없으면 "구/군" 오타 보정)
+   */
+  private matchLocationWord(word: string): { alias: string; resolution: LocationResolution } | null {
+    for (let length = word.length; length >= 2; length--) {
+      const alias = word.slice(0, length);
+      const resolution = resolveLocation(alias, undefined, { approximate: false });
+      const top = resolution.candidates[0];
+      if (!top) continue;
+      if (COMMON_WORD_STEMS.has(alias) && top.matchedBy === 'abbreviation') return null;
+      return { alias, resolution };
+    }
+
+    const stripped = word.replace(TRAILING_PARTICLE_PATTERN, '');
+    if (!TYPO_LOCATION_PATTERN.test(stripped)) return null;
+
+    const resolution = resolveLocation(stripped);
+    const top = resolution.candidates[0];
+    return top && top.matchedBy === 'typo' && (resolution.resolved || resolution.ambiguous)
+      ? { alias: stripped, resolution }
+      : null;
+  }
+
+  /**
+   * 랜드마크 + "근처"/"2km 이내" → 거리 검색
+   * - 구/군 이름만 말했으면 (예: "마포구 근처") 행정구역 검색 유지
+   */
+  private parseNearby(text: string, location: LocationMatch | null): NearbyMatch | null {
+    const landmark = location ? findLandmark(location.alias) : null;
+    if (!landmark) return null;
+
+    const radius = text.match(RADIUS_PATTERN);
+    if (!radius && !NEARBY_PATTERN.test(text)) return null;
+
+    const radiusKm = radius ? parseFloat(radius[1]) : undefined;
+    return {
+      landmark: landmark.name,
+      radiusKm,
+      label: `${landmark.name} 반경 ${radiusKm ?? DEFAULT_RADIUS_KM}km (가까운 순)`,
+    };
+  }
+
+  /**
+   * 지역명 바로 뒤 "에서만"/"만" → 지역 한정 검색
+   */
+  private isLocationOnly(text: string, location: LocationMatch | null): boolean {
+    if (!location) return false;
+    return LOCATION_ONLY_PATTERN.test(text.slice(location.index + location.alias.length));
+  }
+
+  /**
+   * 요일/시간대 표현 → 공연 시간 조건
+   * 예: "평일 저녁" → 월~금 + evening, "일요일 낮" → 일 + matinee
+   * - "이번 주말"처럼 날짜로 해석된 주말은 요일 조건으로 중복 적용하지 않음
+   */
+  private parseShowtime(compact: string, date: DateRange | null): ShowtimeMatch | null {
+    let daysOfWeek: DayOfWeek[] | undefined;
+    let dayLabel: string | undefined;
+
+    const dayNames = Array.from(compact.matchAll(/([월화수목금토일])요일/g), match => match[1]);
+    if (dayNames.length > 0) {
+      daysOfWeek = (Object.keys(DAY_NAMES) as DayOfWeek[]).filter(day => dayNames.includes(DAY_NAMES[day]));
+      dayLabel = daysOfWeek.map(day => `${DAY_NAMES[day]}요일`).join('·');
+    } else if (compact.includes('평일')) {
+      daysOfWeek = ['mon', 'tue', 'wed', 'thu', 'fri'];
+      dayLabel = '평일';
+    } else if (compact.includes('주말') && !date?.label.includes('주말')) {
+      daysOfWeek = ['sat', 'sun'];
+      dayLabel = '주말';
+    }
+
+    // "저녁"과 "낮"이 함께 있으면 시간대 조건 없음
+    // ("오후 9시 전에 끝나는"처럼 끝나는 시각의 "오후"는 시간대로 보지 않음)
+    const afternoon = compact.replace(ENDS_BEFORE_PATTERN, '').match(AFTERNOON_PATTERN);
+    const afternoonTimeOfDay = afternoon ? this.afternoonTimeOfDay(afternoon[1]) : undefined;
+    const isMatinee = MATINEE_PATTERN.test(compact) || afternoonTimeOfDay === 'matinee';
+    const isEvening = EVENING_PATTERN.test(compact) || afternoonTimeOfDay === 'evening';
+    const timeOfDay: TimeOfDay | undefined =
+      isMatinee && !isEvening ? 'matinee' : isEvening && !isMatinee ? 'evening' : undefined;
+
+    if (!daysOfWeek && !timeOfDay) return null;
+
+    const label = [dayLabel, timeOfDay ? TIME_OF_DAY_LABELS[timeOfDay] : undefined]
+      .filter(Boolean)
+      .join(' ');
+    return { daysOfWeek, timeOfDay, label };
+  }
+
+  /**
+   * "오후 N시" → 시간대 (예: "오후 2시" → matinee, "오후 7시" → evening, 시각이 없으면 matinee)
+   */
+  private afternoonTimeOfDay(hourText: string | undefined): TimeOfDay {
+    if (!hourText) return 'matinee';
+    const hours = KOREAN_NUMBERS[hourText] ?? parseInt(hourText, 10);
+    return getTimeOfDay(`${hours < 12 ? hours + 12 : hours}:00`);
+  }
+
+  /**
+   * 러닝타임 표현 → 최소/최대 러닝타임 (분)
+   * 예: "90분 이내" → ~90, "2시간 이상" → 120~, "1시간 정도" → 45~75, "짧은" → ~90
+   * - 숫자 뒤에 조건 표현이 없으면 "러닝타임", "보는" 같은 말이 있을 때만 "정도"로 해석
+   */
+  private parseRuntime(compact: string): RuntimeMatch | null {
+    const match = compact.match(RUNTIME_PATTERN);
+    const isShort = SHORT_RUNTIME_PATTERN.test(compact);
+
+    if (match && (match[5] || RUNTIME_CONTEXT_PATTERN.test(compact) || isShort)) {
+      const hours = match[1] ? KOREAN_NUMBERS[match[1]] ?? parseFloat(match[1]) : 0;
+      const minutes = Math.round(hours * 60) + (match[2] ? 30 : 0) + parseInt(match[3] || match[4] || '0', 10);
+      if (minutes <= 0) return null;
+
+      const qualifier = match[5] || '정도';
+      if (['이내', '이하', '안쪽', '미만', '안에', '까지'].includes(qualifier)) {
+        return { maxRuntimeMinutes: minutes, label: `${formatMinutes(minutes)} 이하` };
+      }
+      if (['이상', '넘는', '넘게', '초과'].includes(qualifier)) {
+        return { minRuntimeMinutes: minutes, label: `${formatMinutes(minutes)} 이상` };
+      }
+      // "짧게 1시간 정도"는 상한만 적용
+      const max = minutes + RUNTIME_TOLERANCE_MINUTES;
+      const min = isShort ? undefined : Math.max(minutes - RUNTIME_TOLERANCE_MINUTES, 1);
+      return {
+        minRuntimeMinutes: min,
+        maxRuntimeMinutes: max,
+        label: min === undefined
+          ? `${formatMinutes(max)} 이하 (${formatMinutes(minutes)} 정도)`
+          : `${formatMinutes(min)} ~ ${formatMinutes(max)} (${formatMinutes(minutes)} 정도)`,
+      };
+    }
+
+    if (isShort) {
+      return { maxRuntimeMinutes: SHORT_RUNTIME_MINUTES, label: `${formatMinutes(SHORT_RUNTIME_MINUTES)} 이하 (짧은 공연)` };
+    }
+    return null;
+  }
+
+  /**
+   * 끝나는 시각 표현 → "HH:MM" (오전이라고 하지 않으면 1~11시는 오후로 해석)
+   * 예: "9시 전에 끝나는" → 21:00, "밤 10시 반까지 끝나는" → 22:30
+   */
+  private parseEndsBefore(compact: string): { time: string; match: string } | null {
+    const match = compact.match(ENDS_BEFORE_PATTERN);
+    if (!match) return null;
+
+    let hours = KOREAN_NUMBERS[match[2]] ?? parseInt(match[2], 10);
+    const minutes = match[5] ? 30 : parseInt(match[3] || match[4] || '0', 10);
+    if (hours > 24 || minutes > 59) return null;
+
+    if (match[1] === '오전') {
+      hours = hours === 12 ? 0 : hours;
+    } else if (hours < 12) {
+      hours += 12;
+    } else if (hours === 12 && match[1] === '밤') {
+      hours = 24;
+    }
+    if (hours === 24 && minutes > 0) return null;
+
+    return {
+      time: `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`,
+      match: match[0],
+    };
+  }
+
+  /**
+   * 가격 표현 → 최소/최대 가격 (원)
+   */
+  private parsePrice(text: string): { minPrice?: number; maxPrice?: number; label?: string } {
+    const compact = text.replace(/\s+/g, '').replace(/,/g, '');
+    const match = compact.match(/(\d+(?:\.\d+)?)(만)?원?(대|이하|이내|미만|아래|까지|안쪽|이상|넘는|초과)/);
+    if (!match) return {};
+
+    const amount = Math.round(parseFloat(match[1]) * (match[2] ? 10000 : 1));
+    // "원"도 "만"도 없는 숫자는 가격이 아님 (예: "5개 이하")
+    if (!match[2] && !match[0].includes('원')) return {};
+
+    const amountLabel = match[2] ? `${match[1]}만원` : `${amount.toLocaleString()}원`;
+    const unit = match[3];
+
+    if (unit === '대') {
+      const step = match[2] ? 10000 : Math.pow(10, String(amount).length - 1);
+      return { minPrice: amount, maxPrice: amount + step - 1, label: `${amountLabel}대` };
+    }
+    if (unit === '이상' || unit === '넘는' || unit === '초과') {
+      return { minPrice: amount, label: `${amountLabel} 이상` };
+    }
+    return { maxPrice: amount, label: `${amountLabel} 이하` };
+  }
+
+  /**
+   * 아이 나이 표현 → 만 나이 (세, 개월은 소수)
+   * 예: "7살 아이랑" → 7, "36개월" → 3, "일곱 살" → 7
+   */
+  private parseChildAge(text: string): number | undefined {
+    const numeric = text.match(CHILD_AGE_PATTERN);
+    if (numeric) {
+      const amount = parseInt(numeric[1], 10);
+      const age = numeric[2] === '개월' ? Math.round((amount / 12) * 10) / 10 : amount;
+      return age <= MAX_CHILD_AGE ? age : undefined;
+    }
+
+    const korean = text.match(CHILD_AGE_KOREAN_PATTERN);
+    return korean ? KOREAN_NUMBERS[korean[1]] : undefined;
+  }
+
+  /**
+   * 개수 표현 → 결과 개수 (예: "5개", "세 편")
+   */
+  private parseCount(text: string): number | undefined {
+    const numeric = text.match(/(\d+)\s*(개|편|곳|가지|작품)(?!월)/);
+    if (numeric) {
+      return this.clampCount(parseInt(numeric[1], 10));
+    }
+
+    const korean = text.match(/(?:^|\s)(하나|한|둘|두|셋|세|넷|네|다섯|여섯|일곱|여덟|아홉|열)\s*(개|편|곳|가지|작품)(?!월)/);
+    if (korean) {
+      return this.clampCount(KOREAN_NUMBERS[korean[1]]);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 위치/날짜 인자 (공연·축제 검색은 기간 필수 → 없으면 오늘부터 30일)
+   */
+  private dateAndLocationArgs(date: DateRange | null, location: LocationMatch | null, defaultFrom?: Date) {
+    const args: Record<string, unknown> = {
+      sidoCode: location?.sidoCode,
+      gugunCode: location?.gugunCode,
+    };
+
+    if (date) {
+      args.startDate = date.start;
+      args.endDate = date.end;
+    } else if (defaultFrom) {
+      args.startDate = this.formatDate(defaultFrom);
+      args.endDate = this.formatDate(this.addDays(defaultFrom, 30));
+    }
+
+    return args;
+  }
+
+  /**
+   * 날짜 범위 → 박스오피스 집계 기간
+   */
+  private toBoxOfficePeriod(date: DateRange | null): string | undefined {
+    if (!date) return undefined;
+    if (date.start === date.end) return 'day';
+    return date.label.includes('달') || date.label.includes('월') ? 'month' : 'week';
+  }
+
+  private monthPart(first: Date, part: string | undefined, label: string, today: Date): DateRange {
+    const year = first.getFullYear();
+    const month = first.getMonth();
+    const lastDay = new Date(year, month + 1, 0).getDate();
+
+    let start = first;
+    let end = new Date(year, month, lastDay);
+    if (part === '초') {
+      end = new Date(year, month, 10);
+    } else if (part === '중순') {
+      start = new Date(year, month, 11);
+      end = new Date(year, month, 20);
+    } else if (part === '말') {
+      start = new Date(year, month, 21);
+    }
+
+    // 이미 시작된 기간은 오늘부터
+    if (start < today && end >= today) {
+      start = today;
+    }
+
+    return this.range(start, end, label);
+  }
+
+  /**
+   * 달의 N째 주 (월~일, 그 달 안으로 자름), week가 -1이면 마지막 주
+   * - 목요일이 그 달에 든 주만 셈 (예: 2026년 11월 첫째 주 → 2일~8일, 12월 마지막 주 → 28일~31일)
+   */
+  private monthWeek(first: Date, week: number, label: string, today: Date): DateRange {
+    const year = first.getFullYear();
+    const month = first.getMonth();
+    const last = new Date(year, month + 1, 0);
+
+    const firstThursday = this.addDays(first, (4 - first.getDay() + 7) % 7);
+    const lastThursday = this.addDays(last, -((last.getDay() - 4 + 7) % 7));
+    const anchor = week === -1 ? lastThursday : this.addDays(firstThursday, (week - 1) * 7);
+    const monday = this.addDays(anchor, -((anchor.getDay() + 6) % 7));
+    let start = monday < first ? first : monday;
+    const sunday = this.addDays(monday, 6);
+    const end = sunday > last ? last : sunday;
+
+    // 이미 시작된 주는 오늘부터
+    if (start < today && end >= today) {
+      start = today;
+    }
+
+    return this.range(start, end, label);
+  }
+
+  /**
+   * N월 1일 (이미 지난 달이면 내년)
+   */
+  private monthFirst(today: Date, month: number): Date {
+    const year = month - 1 < today.getMonth() ? today.getFullYear() + 1 : today.getFullYear();
+    return new Date(year, month - 1, 1);
+  }
+
+  private fixedDay(today: Date, startMonth: number, startDay: number, endMonth: number, endDay: number, label: string): DateRange {
+    let year = today.getFullYear();
+    if (new Date(year, endMonth - 1, endDay) < today) {
+      year += 1;
+    }
+    return this.range(new Date(year, startMonth - 1, startDay), new Date(year, endMonth - 1, endDay), label);
+  }
+
+  private range(start: Date, end: Date, label: string): DateRange {
+    return { start: this.formatDate(start), end: this.formatDate(end), label };
+  }
+
+  private clampCount(count: number): number {
+    return Math.min(Math.max(count, 1), 50);
+  }
+
+  private dropEmpty(args: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined));
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  private formatDate(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}${month}${day}`;
+  }
+}
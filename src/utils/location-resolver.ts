@@ -0,0 +1,301 @@
+import { LocationCandidate, LocationMatchType, LocationResolution } from '../types/location.types.js';
+import {
+  GUGUN_CODES,
+  SIDO_ABBREVIATIONS,
+  SIDO_CODES,
+  getGugunNameFull,
+  getSidoNameFull,
+  getSidoNameShort,
+} from '../constants/kopis-codes.js';
+import { LANDMARKS } from '../constants/landmarks.js';
+import { normalizeHangul } from './hangul.js';
+
+/**
+ * 지역 이름 → KOPIS 시/도·구/군 코드
+ * 예: "강남구" → 1168, "해운대" → 2635, "부산 중구" → 2611, "서올" → 11 (오타 보정)
+ *     "중구" → 후보 여러 개 (서울/부산/대구/인천/대전/울산)
+ */
+
+interface LocationAlias {
+  key: string;   // 정규화한 표기
+  jamo: string;  // 자모 분리한 key (오타 비교용)
+  alias: string; // 원래 표기
+  sidoCode: string;
+  gugunCode: string | null;
+  score: number;
+  matchedBy: LocationMatchType;
+}
+
+// 표기 종류별 기본 점수 (시/도 약칭 "광주"가 경기 광주시의 "광주"보다 우선)
+const NAME_SCORE = 100;
+const ABBREVIATION_SCORE = 90;
+const LANDMARK_SCORE = 85;
+
+// 일부 일치 ("강남구청" → 강남구), 오타는 자모 하나 차이마다 감점
+const PARTIAL_PENALTY = 30;
+const TYPO_PENALTY = 15;
+
+// 이 점수 미만이면 하나로 특정하지 않고 후보만 반환
+const MIN_RESOLVED_SCORE = 60;
+
+const MAX_CANDIDATES = 8;
+
+let aliasIndex: LocationAlias[] | null = null;
+
+/**
+ * 지역 이름 해석
+ * - 숫자는 코드로 확인, "부산 중구"처럼 시/도가 앞에 붙으면 그 시/도 안에서 찾음
+ * - sidoHint(2자리)가 있으면 그 시/도의 후보를 우선
+ * - 가장 높은 점수의 후보가 하나일 때만 resolved (동명 구/군은 ambiguous)
+ * - approximate가 false면 일부 일치·오타 보정 없이 이름 그대로만 (자연어 질의의 단어 검사용)
+ */
+export function resolveLocation(
+  query: string,
+  sidoHint?: string,
+  options: { approximate?: boolean } = {}
+): LocationResolution {
+  const text = query.trim();
+  const key = normalizeHangul(text);
+
+  let candidates = /^\d+$/.test(key) ? fromCode(key) : [];
+  if (candidates.length === 0 && key) {
+    candidates = findByName(key, sidoHint, options.approximate ?? true);
+  }
+
+  const top = candidates[0];
+  const tied = top ? candidates.filter(candidate => candidate.score === top.score) : [];
+  const resolved = top && tied.length === 1 && top.score >= MIN_RESOLVED_SCORE ? top : null;
+
+  return {
+    query: text,
+    resolved,
+    candidates: candidates.slice(0, MAX_CANDIDATES),
+    ambiguous: tied.length > 1,
+  };
+}
+
+/**
+ * 도구 인자의 sidoCode/gugunCode에 이름이 오면 코드로 바꿈 (코드는 그대로)
+ * - sidoCode에 구/군 이름이 오면 시/도 코드로, gugunCode를 받는 도구면 gugunCode도 채움
+ * - 하나로 특정하지 못하면 후보를 담은 오류
+ */
+export function resolveLocationArgs<T extends Record<string, unknown>>(
+  args: T,
+  options: { acceptsGugun: boolean }
+): T {
+  const resolvedArgs: Record<string, unknown> = { ...args };
+
+  if (isPlaceName(resolvedArgs.sidoCode)) {
+    const location = requireResolved(resolveLocation(resolvedArgs.sidoCode), 'sidoCode');
+    resolvedArgs.sidoCode = location.sidoCode;
+    if (location.gugunCode && options.acceptsGugun && !resolvedArgs.gugunCode) {
+      resolvedArgs.gugunCode = location.gugunCode;
+    }
+  }
+
+  if (isPlaceName(resolvedArgs.gugunCode)) {
+    const sidoHint =
+      typeof resolvedArgs.sidoCode === 'string' && resolvedArgs.sidoCode.length === 2 ? resolvedArgs.sidoCode : undefined;
+    const location = requireResolved(resolveLocation(resolvedArgs.gugunCode, sidoHint), 'gugunCode');
+    resolvedArgs.gugunCode = location.gugunCode ?? undefined;
+    if (!resolvedArgs.sidoCode || !location.gugunCode) {
+      resolvedArgs.sidoCode = location.sidoCode;
+    }
+  }
+
+  return resolvedArgs as T;
+}
+
+/**
+ * 후보 안내 (예: "서울 중구(1114), 부산 중구(2611)")
+ */
+export function formatLocationCandidates(candidates: LocationCandidate[]): string {
+  return candidates.map(candidate => `${candidate.name}(${candidate.gugunCode ?? candidate.sidoCode})`).join(', ');
+}
+
+function isPlaceName(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '' && !/^\d+$/.test(value.trim());
+}
+
+function requireResolved(resolution: LocationResolution, field: string): LocationCandidate {
+  if (resolution.resolved) return resolution.resolved;
+
+  if (resolution.candidates.length === 0) {
+    throw new Error(`${field}의 지역 "${resolution.query}"을(를) 찾을 수 없습니다. resolve_location으로 지역 코드를 확인해주세요.`);
+  }
+  throw new Error(
+    `${field}의 지역 "${resolution.query}"을(를) 하나로 특정할 수 없습니다. 후보: ${formatLocationCandidates(resolution.candidates)}. ` +
+      `코드를 직접 지정하거나 시/도를 함께 지정해주세요 (예: "부산 중구").`
+  );
+}
+
+/**
+ * 코드 확인 (2자리 시/도, 4자리 구/군, "xx00"은 시/도)
+ */
+function fromCode(code: string): LocationCandidate[] {
+  if (code.length === 2 && code in SIDO_CODES) {
+    return [toCandidate({ key: code, jamo: code, alias: code, sidoCode: code, gugunCode: null, score: NAME_SCORE, matchedBy: 'code' })];
+  }
+  if (code.length === 4 && code in GUGUN_CODES) {
+    const sidoCode = code.substring(0, 2);
+    const gugunCode = code.endsWith('00') ? null : code;
+    return [toCandidate({ key: code, jamo: code, alias: code, sidoCode, gugunCode, score: NAME_SCORE, matchedBy: 'code' })];
+  }
+  return [];
+}
+
+/**
+ * 이름 → 후보 (완전 일치 → 시/도 + 구/군 → 일부 일치·오타 순으로 찾음)
+ */
+function findByName(key: string, sidoHint: string | undefined, approximate: boolean): LocationCandidate[] {
+  const aliases = getAliases();
+
+  let matches = aliases.filter(alias => alias.key === key);
+  let hint = sidoHint;
+
+  // "부산중구", "경기도 광주시" → 시/도를 떼고 그 시/도 안에서 찾음
+  if (matches.length === 0) {
+    const prefix = aliases
+      .filter(alias => alias.gugunCode === null && key.startsWith(alias.key) && key.length > alias.key.length)
+      .sort((a, b) => b.key.length - a.key.length)[0];
+    if (prefix) {
+      const rest = key.slice(prefix.key.length);
+      matches = aliases.filter(alias => alias.key === rest && alias.sidoCode === prefix.sidoCode);
+      hint = hint ?? prefix.sidoCode;
+    }
+  }
+
+  if (matches.length === 0 && approximate) {
+    matches = findApproximate(aliases, key);
+  }
+
+  // 같은 지역은 가장 높은 점수만 남김
+  const byCode = new Map<string, LocationAlias>();
+  for (const match of matches) {
+    const code = match.gugunCode ?? match.sidoCode;
+    const current = byCode.get(code);
+    if (!current || match.score > current.score) {
+      byCode.set(code, match);
+    }
+  }
+
+  let candidates = [...byCode.values()].map(toCandidate);
+  if (hint) {
+    const inHint = candidates.filter(candidate => candidate.sidoCode === hint);
+    if (inHint.length > 0) candidates = inHint;
+  }
+
+  return candidates.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
+
+/**
+ * 일부 일치 ("강남구청", "해운대해수욕장")와 오타 ("강넘구", "서올")
+ * - 오타는 자모 단위로 비교 (글자 수에 따라 자모 1~3개 차이까지)
+ */
+function findApproximate(aliases: LocationAlias[], key: string): LocationAlias[] {
+  const jamo = toJamo(key);
+  const maxDistance = key.length <= 2 ? 1 : key.length <= 4 ? 2 : 3;
+  const matches: LocationAlias[] = [];
+
+  for (const alias of aliases) {
+    if (alias.key.length < 2) continue;
+
+    if (key.startsWith(alias.key)) {
+      matches.push({ ...alias, score: alias.score - PARTIAL_PENALTY, matchedBy: 'partial' });
+      continue;
+    }
+    if (Math.abs(alias.jamo.length - jamo.length) > maxDistance) continue;
+
+    const distance = editDistance(alias.jamo, jamo);
+    if (distance <= maxDistance) {
+      matches.push({ ...alias, score: alias.score - distance * TYPO_PENALTY, matchedBy: 'typo' });
+    }
+  }
+
+  return matches;
+}
+
+function toCandidate(alias: LocationAlias): LocationCandidate {
+  return {
+    sidoCode: alias.sidoCode,
+    gugunCode: alias.gugunCode,
+    name: alias.gugunCode ? getGugunNameFull(alias.gugunCode) : getSidoNameFull(alias.sidoCode),
+    score: alias.score,
+    matchedBy: alias.matchedBy,
+    matchedAlias: alias.alias,
+  };
+}
+
+/**
+ * 지역 별칭 목록 (시/도 이름·약칭, 구/군 이름·"구/군/시"를 뗀 이름·시/도를 붙인 이름, 랜드마크)
+ */
+function getAliases(): LocationAlias[] {
+  if (aliasIndex) return aliasIndex;
+
+  const aliases: LocationAlias[] = [];
+  const add = (alias: string, sidoCode: string, gugunCode: string | null, score: number, matchedBy: LocationMatchType) => {
+    const key = normalizeHangul(alias);
+    if (key) aliases.push({ key, jamo: toJamo(key), alias, sidoCode, gugunCode, score, matchedBy });
+  };
+
+  for (const code of Object.keys(SIDO_CODES)) {
+    const short = getSidoNameShort(code);
+    add(getSidoNameFull(code), code, null, NAME_SCORE, 'name');
+    add(short, code, null, NAME_SCORE, 'name');
+    add(`${short}시`, code, null, ABBREVIATION_SCORE, 'abbreviation');
+  }
+  for (const [alias, code] of Object.entries(SIDO_ABBREVIATIONS)) {
+    add(alias, code, null, ABBREVIATION_SCORE, 'abbreviation');
+  }
+
+  for (const [code, fullName] of Object.entries(GUGUN_CODES)) {
+    const parts = fullName.split(' ');
+    if (parts.length < 2 || code.endsWith('00')) continue;
+
+    const sidoCode = code.substring(0, 2);
+    const name = parts[parts.length - 1];
+    add(fullName, sidoCode, code, NAME_SCORE, 'name');
+    add(`${getSidoNameFull(sidoCode)} ${name}`, sidoCode, code, NAME_SCORE, 'name');
+    add(name, sidoCode, code, NAME_SCORE, 'name');
+
+    // "강남구" → "강남", "수원시" → "수원"
+    const stem = name.replace(/(구|군|시)$/, '');
+    if (stem.length >= 2) {
+      add(stem, sidoCode, code, ABBREVIATION_SCORE, 'abbreviation');
+    }
+  }
+
+  for (const landmark of LANDMARKS) {
+    const sidoCode = landmark.gugunCode.substring(0, 2);
+    [landmark.name, ...landmark.aliases].forEach(alias =>
+      add(alias, sidoCode, landmark.gugunCode, LANDMARK_SCORE, 'landmark')
+    );
+  }
+
+  aliasIndex = aliases;
+  return aliases;
+}
+
+/**
+ * 한글 음절 → 초성·중성·종성 (NFD), 예: "강" → "ㄱㅏㅇ"
+ */
+function toJamo(text: string): string {
+  return text.normalize('NFD');
+}
+
+/**
+ * 글자 단위 편집 거리 (Levenshtein)
+ */
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,222 @@
+import {
+  Performance,
+  PerformanceDetail,
+  PerformanceRanking,
+  PerformanceState,
+  RelateLink,
+} from '../types/performance.types.js';
+import { findGenreCodeByName, findSidoCodeByName } from '../constants/kopis-codes.js';
+import { parseAudienceAge } from './age-parser.js';
+import { parsePrice } from './price-parser.js';
+import { parseRunningTime } from './runtime-parser.js';
+import { parseSchedule } from './schedule-parser.js';
+
+/**
+ * fast-xml-parser 결과(KOPIS 원본) → Performance 모델 변환
+ * - 필수 값(mt20id, prfnm)이 없는 항목은 버림
+ * - 단일 항목/배열로 오는 필드는 항상 배열로 정규화
+ */
+
+const PERFORMANCE_STATES: PerformanceState[] = ['공연예정', '공연중', '공연완료'];
+
+/**
+ * 공연 목록 변환 (유효하지 않은 항목 제외)
+ */
+export function toPerformances(rows: any[]): Performance[] {
+  const performances: Performance[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const performance = toPerformance(row);
+    if (performance) {
+      performances.push(performance);
+    } else {
+      skipped++;
+    }
+  }
+
+  if (skipped > 0) {
+    console.error(`Skipped ${skipped} invalid KOPIS performance records`);
+  }
+
+  return performances;
+}
+
+/**
+ * 공연 목록 항목 변환 (/pblprfr, /prffest, /prfawad)
+ */
+export function toPerformance(row: any): Performance | null {
+  const id = toText(row?.mt20id);
+  const title = toText(row?.prfnm);
+  if (!id || !title) return null;
+
+  const genreName = toText(row.genrenm);
+  const areaName = toText(row.area);
+  const state = toText(row.prfstate);
+
+  return {
+    id,
+    title,
+    period: {
+      start: parseKopisDate(row.prfpdfrom),
+      end: parseKopisDate(row.prfpdto),
+    },
+    venueName: toText(row.fcltynm),
+    poster: toText(row.poster),
+    genre: {
+      code: findGenreCodeByName(genreName || undefined),
+      name: genreName,
+    },
+    area: {
+      sidoCode: findSidoCodeByName(areaName || undefined),
+      name: areaName,
+    },
+    state: PERFORMANCE_STATES.includes(state as PerformanceState) ? (state as PerformanceState) : null,
+    openRun: row.openrun === 'Y',
+    festival: row.festival === 'Y',
+    price: parsePrice(row.pcseguidance),
+    schedule: parseSchedule(row.dtguidance),
+    awards: splitLines(row.awards),
+  };
+}
+
+/**
+ * 공연 상세 변환 (/pblprfr/{id})
+ */
+export function toPerformanceDetail(row: any): PerformanceDetail | null {
+  const performance = toPerformance(row);
+  if (!performance) return null;
+
+  const relates: RelateLink[] = toArray(row.relates?.relate)
+    .map((relate: any) => ({ name: toText(relate?.relatenm), url: toText(relate?.relateurl) }))
+    .filter((relate): relate is RelateLink => Boolean(relate.name && relate.url));
+
+  return {
+    ...performance,
+    venueId: toText(row.mt10id),
+    cast: splitNames(row.prfcast),
+    crew: splitNames(row.prfcrew),
+    runtime: toText(row.prfruntime),
+    runningTime: parseRunningTime(row.prfruntime),
+    age: toText(row.prfage),
+    ageLimit: parseAudienceAge(row.prfage),
+    synopsis: toText(cleanHtml(toText(row.sty) || '')),
+    producer: toText(row.entrpsnm),
+    relates,
+    images: toArray(row.styurls?.styurl).map(toText).filter((url): url is string => Boolean(url)),
+  };
+}
+
+/**
+ * 박스오피스 항목 변환 (/boxoffice)
+ * - 공연기간은 "2026.10.01~2026.12.31" 한 필드로 옴
+ */
+export function toBoxOfficePerformance(
+  row: any,
+  ranking: Omit<PerformanceRanking, 'seatCount' | 'showCount'>
+): Performance | null {
+  const [from, to] = String(row?.prfpd || '').split('~').map(date => date.trim());
+
+  const performance = toPerformance({
+    ...row,
+    genrenm: row?.cate,
+    fcltynm: row?.prfplcnm,
+    prfpdfrom: from,
+    prfpdto: to,
+  });
+  if (!performance) return null;
+
+  return {
+    ...performance,
+    ranking: {
+      ...ranking,
+      seatCount: toNumber(row.seatcnt),
+      showCount: toNumber(row.prfdtcnt),
+    },
+  };
+}
+
+/**
+ * KOPIS 날짜 → Date ("2026.10.01" 또는 "20261001")
+ */
+export function parseKopisDate(value: unknown): Date | null {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  if (digits.length !== 8) return null;
+
+  const year = parseInt(digits.substring(0, 4), 10);
+  const month = parseInt(digits.substring(4, 6), 10) - 1;
+  const day = parseInt(digits.substring(6, 8), 10);
+  const date = new Date(year, month, day);
+
+  // 2026.02.30처럼 존재하지 않는 날짜는 무효
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+/**
+ * Date → KOPIS 표시 형식 ("2026.10.01")
+ */
+export function formatKopisDate(date: Date | null): string {
+  if (!date) return '';
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}.${month}.${day}`;
+}
+
+/**
+ * Date → 검색 파라미터 형식 ("20261001")
+ */
+export function toYmd(date: Date | null): string {
+  return formatKopisDate(date).replace(/\./g, '');
+}
+
+function toArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null || (value as unknown) === '') return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toText(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = Number(String(value).replace(/,/g, ''));
+  return isNaN(num) ? undefined : num;
+}
+
+/**
+ * "홍길동, 김철수 등" → ["홍길동", "김철수"]
+ */
+function splitNames(value: unknown): string[] {
+  const text = toText(value);
+  if (!text) return [];
+  return text
+    .split(/,|\//)
+    .map(name => name.replace(/\s*등$/, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * "제8회 한국뮤지컬어워즈 대상<br>제8회 한국뮤지컬어워즈 작품상" → 수상명 배열
+ */
+function splitLines(value: unknown): string[] {
+  const text = toText(value);
+  if (!text) return [];
+  return text
+    .split(/<br\s*\/?>|\n/i)
+    .map(line => cleanHtml(line))
+    .filter(Boolean);
+}
+
+function cleanHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .trim();
+}
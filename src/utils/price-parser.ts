@@ -0,0 +1,153 @@
+import { PerformancePrice, PriceTier } from '../types/performance.types.js';
+
+/**
+ * KOPIS 관람료(pcseguidance) 파서
+ * 예: "R석 150,000원, S석 120,000원"     → R석 150000 / S석 120000
+ *     "전석 3만원 (청소년 50% 할인)"      → 전석 30000 + 할인 안내
+ *     "전석 무료(사전예약)"               → 무료
+ *     "자율 기부"                         → 기부 공연
+ */
+
+// 금액 ("150,000원", "3만원", "1.5만원")
+const AMOUNT_PATTERN = /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(만\s*)?원/g;
+
+// 범위 금액 ("20,000~50,000원" → 양쪽 모두 금액으로)
+const RANGE_PATTERN = /(\d[\d,.]*)\s*(만\s*)?원?\s*[~～]\s*(\d[\d,.]*)\s*(만\s*)?원/g;
+
+const DISCOUNT_PATTERN = /할인|%/;
+const DONATION_PATTERN = /기부|후원|자율\s*(관람료|입장료|관람)|관람료\s*자율|pay\s*what/i;
+const FREE_PATTERN = /무료|free/i;
+
+/**
+ * 관람료 문자열 → 등급별 가격, 무료/기부 여부, 할인 안내
+ */
+export function parsePrice(value: unknown): PerformancePrice {
+  const text = value === undefined || value === null ? '' : String(value).trim();
+  if (!text) {
+    return { text: null, tiers: [], min: null, max: null, isFree: false, isDonation: false, discounts: [] };
+  }
+
+  const tiers: PriceTier[] = [];
+  const discounts: string[] = [];
+  let isDonation = false;
+
+  for (const rawSegment of splitSegments(text)) {
+    // 괄호 안 할인 안내는 떼어내서 따로 보관 ("전석 3만원(학생 20% 할인)")
+    const segment = rawSegment
+      .replace(/\(([^)]*)\)/g, (match, note: string) => {
+        if (DISCOUNT_PATTERN.test(note)) {
+          discounts.push(note.trim());
+          return '';
+        }
+        return match;
+      })
+      .trim();
+    if (!segment) continue;
+
+    if (DONATION_PATTERN.test(segment)) {
+      isDonation = true;
+    }
+
+    const amounts = extractAmounts(segment);
+
+    if (amounts.length === 0) {
+      if (FREE_PATTERN.test(segment)) {
+        tiers.push({ label: cleanLabel(segment.replace(FREE_PATTERN, '')), amount: 0 });
+      } else if (DISCOUNT_PATTERN.test(segment)) {
+        discounts.push(segment);
+      }
+      continue;
+    }
+
+    // 금액이 있어도 할인 문구면 좌석 등급이 아닌 할인 안내 ("조기예매 10,000원 할인")
+    if (/할인/.test(segment)) {
+      discounts.push(segment);
+      continue;
+    }
+
+    let previousLabel: string | null = null;
+    for (const { label, amount } of amounts) {
+      const tierLabel: string | null = label ?? previousLabel;
+      tiers.push({ label: tierLabel, amount });
+      previousLabel = tierLabel;
+    }
+  }
+
+  // "0" 또는 "0원"만 있는 경우도 무료
+  if (tiers.length === 0 && /^0\s*원?$/.test(text)) {
+    tiers.push({ label: null, amount: 0 });
+  }
+
+  const values = tiers.map(tier => tier.amount);
+  const min = values.length > 0 ? Math.min(...values) : null;
+  const max = values.length > 0 ? Math.max(...values) : null;
+
+  return {
+    text,
+    tiers,
+    min,
+    max,
+    isFree: max === 0 && !isDonation,
+    isDonation,
+    discounts,
+  };
+}
+
+/**
+ * 가격 조건 일치 여부 (가장 싼 등급 ≤ maxPrice, 가장 비싼 등급 ≥ minPrice)
+ * - 가격 정보가 없으면 판단할 수 없으므로 false
+ */
+export function matchesPriceRange(price: PerformancePrice, minPrice?: number, maxPrice?: number): boolean {
+  if (minPrice === undefined && maxPrice === undefined) return true;
+  if (price.min === null || price.max === null) return false;
+
+  return (
+    (maxPrice === undefined || price.min <= maxPrice) &&
+    (minPrice === undefined || price.max >= minPrice)
+  );
+}
+
+/**
+ * 구분자로 나누기 (금액 안의 쉼표 "150,000"는 구분자가 아님)
+ */
+function splitSegments(text: string): string[] {
+  return text
+    .split(/(?<!\d),|,(?!\d{3})|\/|<br\s*\/?>|\n|;/i)
+    .map(segment => segment.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 구간 안의 금액과 그 앞의 등급명 추출
+ * 예: "R석 70,000원 S석 50,000원" → [{R석, 70000}, {S석, 50000}]
+ */
+function extractAmounts(segment: string): Array<{ label: string | null; amount: number }> {
+  const expanded = segment.replace(
+    RANGE_PATTERN,
+    (_match, from: string, fromMan: string | undefined, to: string, toMan: string | undefined) =>
+      `${from}${fromMan || toMan || ''}원 ~ ${to}${toMan || ''}원`
+  );
+
+  const results: Array<{ label: string | null; amount: number }> = [];
+  let cursor = 0;
+
+  for (const match of expanded.matchAll(AMOUNT_PATTERN)) {
+    const number = parseFloat(match[1].replace(/,/g, ''));
+    if (isNaN(number)) continue;
+
+    const amount = match[2] ? Math.round(number * 10000) : Math.round(number);
+    const label = cleanLabel(expanded.slice(cursor, match.index));
+    results.push({ label, amount });
+    cursor = (match.index ?? 0) + match[0].length;
+  }
+
+  return results;
+}
+
+function cleanLabel(label: string): string | null {
+  const cleaned = label
+    .replace(/^[\s~:\-·]+|[\s~:\-·]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned === '' ? null : cleaned;
+}
@@ -1,4 +1,5 @@
-import { QueryAnalysis, PriorityWeights } from '../types/search.types.js';
+import { QueryAnalysis, PriorityWeights, ParsedQuery } from '../types/search.types.js';
+import { DEFAULT_RADIUS_KM } from './geo.js';
 
 /**
  * 사용자 쿼리를 분석하여 우선순위를 결정하는 분석기
@@ -7,11 +8,12 @@ export class QueryAnalyzer {
   
   /**
    * 도구 이름과 파라미터를 기반으로 검색 전략 분석
+   * - 자연어 질의 해석 결과가 있으면 문장의 키워드도 반영
    */
-  analyze(toolName: string, args: any): QueryAnalysis {
-    const keywords = this.extractKeywords(toolName, args);
+  analyze(toolName: string, args: any, parsedQuery?: ParsedQuery): QueryAnalysis {
+    const keywords = this.extractKeywords(toolName, args, parsedQuery);
     const priorities = this.determinePriorities(toolName, keywords);
-    const parsedParams = this.parseParameters(args);
+    const parsedParams = this.parseParameters(args, parsedQuery);
 
     return {
       priorities,
@@ -23,12 +25,24 @@ export class QueryAnalyzer {
   /**
    * 키워드 추출
    */
-  private extractKeywords(toolName: string, args: any) {
+  private extractKeywords(toolName: string, args: any, parsedQuery?: ParsedQuery) {
     return {
       isFree: toolName === 'filter_free_events',
       isTrending: toolName === 'get_trending_performances',
       hasDateKeyword: this.hasSpecificDateRange(args),
       hasCountKeyword: args?.limit !== undefined,
+      isAwarded: toolName === 'get_awarded_performances',
+      hasPriceKeyword:
+        parsedQuery?.keywords.hasPriceKeyword ||
+        args?.minPrice !== undefined ||
+        args?.maxPrice !== undefined,
+      hasScheduleKeyword:
+        parsedQuery?.keywords.hasScheduleKeyword ||
+        Boolean(args?.daysOfWeek?.length) ||
+        args?.timeOfDay !== undefined ||
+        args?.minRuntimeMinutes !== undefined ||
+        args?.maxRuntimeMinutes !== undefined ||
+        args?.endsBefore !== undefined,
     };
   }
 
@@ -79,7 +93,37 @@ export class QueryAnalyzer {
       };
     }
 
-    // Case 3: 특정 날짜 범위 검색 (다음주 등)
+    // Case 3: 수상작 검색
+    if (keywords.isAwarded) {
+      return {
+        first: 'date',       // 40% - 날짜 (관람 가능 기간)
+        second: 'awards',    // 30% - 수상 실적
+        third: 'genre',      // 20% - 장르
+        fourth: 'location',  // 10% - 위치
+      };
+    }
+
+    // Case 4: 가격 조건 검색 ("3만원 이하" 등)
+    if (keywords.hasPriceKeyword) {
+      return {
+        first: 'price',      // 40% - 가격 조건
+        second: 'date',      // 30% - 날짜
+        third: 'genre',      // 20% - 장르
+        fourth: 'location',  // 10% - 위치
+      };
+    }
+
+    // Case 5: 공연 시간 조건 검색 ("평일 저녁", "9시 전에 끝나는" 등)
+    if (keywords.hasScheduleKeyword) {
+      return {
+        first: 'date',       // 40% - 날짜
+        second: 'schedule',  // 30% - 요일/시간대
+        third: 'genre',      // 20% - 장르
+        fourth: 'location',  // 10% - 위치
+      };
+    }
+
+    // Case 6: 특정 날짜 범위 검색 (다음주 등)
     if (keywords.hasDateKeyword) {
       return {
         first: 'date',       // 40% - 날짜 최우선
@@ -89,7 +133,7 @@ export class QueryAnalyzer {
       };
     }
 
-    // Case 4: 기본 검색
+    // Case 7: 기본 검색
     return {
       first: 'date',       // 40% - 날짜 (디폴트: 오늘~한달)
       second: 'location',  // 30% - 위치
@@ -101,7 +145,7 @@ export class QueryAnalyzer {
   /**
    * 파라미터 파싱
    */
-  private parseParameters(args: any) {
+  private parseParameters(args: any, parsedQuery?: ParsedQuery) {
     return {
       genreCode: args?.genreCode,
       startDate: args?.startDate,
@@ -109,6 +153,21 @@ export class QueryAnalyzer {
       sidoCode: args?.sidoCode,
       gugunCode: args?.gugunCode,
       minCount: args?.limit || 3, // 기본 3개
+      minPrice: args?.minPrice ?? parsedQuery?.minPrice,
+      maxPrice: args?.maxPrice ?? parsedQuery?.maxPrice,
+      daysOfWeek: args?.daysOfWeek ?? parsedQuery?.daysOfWeek,
+      timeOfDay: args?.timeOfDay ?? parsedQuery?.timeOfDay,
+      minRuntimeMinutes: args?.minRuntimeMinutes ?? parsedQuery?.minRuntimeMinutes,
+      maxRuntimeMinutes: args?.maxRuntimeMinutes ?? parsedQuery?.maxRuntimeMinutes,
+      endsBefore: args?.endsBefore ?? parsedQuery?.endsBefore,
+      radiusKm: this.hasSearchCenter(args) ? args.radiusKm ?? DEFAULT_RADIUS_KM : undefined,
     };
   }
+
+  /**
+   * 좌표/랜드마크 중심 거리 검색 여부
+   */
+  private hasSearchCenter(args: any): boolean {
+    return args?.latitude !== undefined || args?.longitude !== undefined || Boolean(args?.landmark);
+  }
 }
\ No newline at end of file
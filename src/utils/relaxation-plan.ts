@@ -0,0 +1,121 @@
+import { PriorityWeights, RelaxableCondition, RelaxationStrategy, Strictness } from '../types/search.types.js';
+
+/**
+ * 스마트 검색 완화 계획 (우선순위 → 완화 단계 목록)
+ */
+
+// 위치 완화 단계 (인접 구/군 또는 반경 확대 → 시/도 전체 또는 최대 반경)
+export type LocationStep = Exclude<RelaxationStrategy['locationExpansion'], 'none'>;
+
+// Level 1: 요청 그대로
+export const NO_RELAXATION: RelaxationStrategy = {
+  locationExpansion: 'none',
+  genreExpansion: 'none',
+  dateExpansion: 'none',
+  allowPriceIncrease: false,
+  audienceExpansion: 'none',
+};
+
+// strictness별 완화 허용 조건 (예산은 loose에서만 완화)
+const STRICTNESS_CONDITIONS: Record<Strictness, RelaxableCondition[]> = {
+  strict: [],
+  normal: ['genre', 'location', 'date', 'audience'],
+  loose: ['genre', 'location', 'date', 'price', 'audience'],
+};
+
+const PRIORITY_RANKS: Array<keyof PriorityWeights> = ['first', 'second', 'third', 'fourth'];
+
+/**
+ * 사용자가 완화를 허용한 조건
+ * - allowRelax가 있으면 그대로 사용 (strictness보다 우선)
+ * - 잘못된 strictness는 오류
+ */
+export function resolveAllowedConditions(args: {
+  strictness?: string;
+  allowRelax?: string[];
+}): RelaxableCondition[] {
+  if (Array.isArray(args.allowRelax)) {
+    const valid = STRICTNESS_CONDITIONS.loose;
+    const invalid = args.allowRelax.filter(condition => !valid.includes(condition as RelaxableCondition));
+    if (invalid.length > 0) {
+      throw new Error(`잘못된 allowRelax 값입니다: ${invalid.join(', ')} (사용 가능: ${valid.join(', ')})`);
+    }
+    return valid.filter(condition => args.allowRelax!.includes(condition));
+  }
+
+  const strictness = args.strictness ?? 'normal';
+  if (!(strictness in STRICTNESS_CONDITIONS)) {
+    throw new Error(`잘못된 strictness 값입니다: ${strictness} (사용 가능: strict, normal, loose)`);
+  }
+  return STRICTNESS_CONDITIONS[strictness as Strictness];
+}
+
+/**
+ * 완화 단계 목록 생성
+ * - 우선순위가 낮은 조건부터 한 칸씩 누적 완화
+ *   (장르: 유사 장르, 위치: locationSteps 순서, 날짜: 앞뒤 3일 → 같은 주, 관객: 일반 공연)
+ * - 마지막 단계는 허용된 모든 조건을 최대로 완화 (모든 장르, 같은 달, 예산 상한 완화)
+ *
+ * 예: 날짜 > 위치 > 장르 우선순위, 구/군 검색
+ *   → 요청 그대로 → 유사 장르 → + 인접 구/군 → + 시/도 전체 → + 앞뒤 3일 → + 같은 주 → 모든 장르 + 같은 달
+ */
+export function buildRelaxationPlan(
+  priorities: PriorityWeights,
+  conditions: RelaxableCondition[],
+  locationSteps: LocationStep[]
+): RelaxationStrategy[] {
+  const plan: RelaxationStrategy[] = [NO_RELAXATION];
+  let current = NO_RELAXATION;
+
+  const push = (change: Partial<RelaxationStrategy>) => {
+    current = { ...current, ...change };
+    plan.push(current);
+  };
+
+  for (const condition of orderByPriority(priorities, conditions)) {
+    if (condition === 'genre') {
+      push({ genreExpansion: 'similar' });
+    } else if (condition === 'location') {
+      locationSteps.forEach(step => push({ locationExpansion: step }));
+    } else if (condition === 'date') {
+      push({ dateExpansion: 'days' });
+      push({ dateExpansion: 'week' });
+    } else if (condition === 'audience') {
+      push({ audienceExpansion: 'general' });
+    }
+  }
+
+  const max: RelaxationStrategy = {
+    locationExpansion: current.locationExpansion,
+    genreExpansion: conditions.includes('genre') ? 'all' : 'none',
+    dateExpansion: conditions.includes('date') ? 'month' : 'none',
+    allowPriceIncrease: conditions.includes('price'),
+    audienceExpansion: conditions.includes('audience') ? 'general' : 'none',
+  };
+  if (!isSameStrategy(max, current)) {
+    plan.push(max);
+  }
+
+  return plan;
+}
+
+/**
+ * 우선순위가 낮은 조건부터 정렬 (우선순위에 없는 조건이 가장 먼저)
+ */
+function orderByPriority(priorities: PriorityWeights, conditions: RelaxableCondition[]): RelaxableCondition[] {
+  const rank = (condition: RelaxableCondition) => {
+    const index = PRIORITY_RANKS.findIndex(key => priorities[key] === condition);
+    return index === -1 ? PRIORITY_RANKS.length : index;
+  };
+  return [...conditions].sort((a, b) => rank(b) - rank(a));
+}
+
+function isSameStrategy(a: RelaxationStrategy, b: RelaxationStrategy): boolean {
+  return (
+    a.locationExpansion === b.locationExpansion &&
+    a.genreExpansion === b.genreExpansion &&
+    a.dateExpansion === b.dateExpansion &&
+    a.allowPriceIncrease === b.allowPriceIncrease &&
+    a.audienceExpansion === b.audienceExpansion
+  );
+}
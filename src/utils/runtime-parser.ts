@@ -0,0 +1,119 @@
+import { RunningTime } from '../types/performance.types.js';
+
+/**
+ * KOPIS 러닝타임(prfruntime) 파서
+ * 예: "1시간 40분"                       → 100분
+ *     "2시간 30분 (인터미션 20분 포함)"  → 150분 (인터미션 20분)
+ *     "100분(인터미션 15분 별도)"        → 115분 (인터미션 15분)
+ *     "90분 ~ 100분"                     → 100분 (긴 쪽 기준)
+ *     "1시간 30분(인터미션 없음)"        → 90분 (인터미션 0분)
+ */
+
+// 인터미션 안내 ("인터미션 20분 포함", "중간 휴식 15분 별도")
+const INTERMISSION_PATTERN =
+  /(?:인터미션|중간\s*휴식|휴식\s*시간|휴식|intermission)\s*(?:약\s*)?(\d+)\s*(?:분|min)\s*(포함|별도|미포함|불포함|제외)?/i;
+const NO_INTERMISSION_PATTERN = /(?:인터미션|휴식)\s*(?:시간)?\s*(?:없음|없이)|무\s*인터미션|no\s*intermission/i;
+
+// 인터미션을 따로 더해야 하는 표현
+const SEPARATE_INTERMISSION = ['별도', '미포함', '불포함', '제외'];
+
+const HOURS_PATTERN = /(\d+(?:\.\d+)?)\s*(?:시간|hours?|hr)/i;
+const MINUTES_PATTERN = /(\d+)\s*(?:분|min)/i;
+
+// "HH:MM" 또는 "H:MM"
+const CLOCK_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+/**
+ * 러닝타임 문자열 → 전체 시간 (분)
+ */
+export function parseRunningTime(value: unknown): RunningTime {
+  const text = value === undefined || value === null ? '' : String(value).trim();
+  const unknown: RunningTime = { text: text || null, minutes: null, intermissionMinutes: null };
+  if (!text) return unknown;
+
+  const intermission = text.match(INTERMISSION_PATTERN);
+  const intermissionMinutes = intermission
+    ? parseInt(intermission[1], 10)
+    : NO_INTERMISSION_PATTERN.test(text)
+      ? 0
+      : null;
+
+  // 인터미션 안내를 빼고 본 공연 시간 계산 (범위는 긴 쪽 기준)
+  const body = intermission ? text.replace(intermission[0], ' ') : text;
+  const durations = body
+    .split(/[~～]/)
+    .map(parseDuration)
+    .filter((minutes): minutes is number => minutes !== null);
+  if (durations.length === 0) {
+    return { ...unknown, intermissionMinutes };
+  }
+
+  const separate = intermission?.[2] !== undefined && SEPARATE_INTERMISSION.includes(intermission[2]);
+  return {
+    ...unknown,
+    minutes: Math.max(...durations) + (separate ? intermissionMinutes ?? 0 : 0),
+    intermissionMinutes,
+  };
+}
+
+/**
+ * 러닝타임이 범위 안인지 (러닝타임을 모르면 false)
+ */
+export function matchesRuntimeRange(
+  runningTime: RunningTime | undefined,
+  minMinutes?: number,
+  maxMinutes?: number
+): boolean {
+  if (minMinutes === undefined && maxMinutes === undefined) return true;
+  const minutes = runningTime?.minutes;
+  if (minutes === undefined || minutes === null) return false;
+  return (minMinutes === undefined || minutes >= minMinutes) && (maxMinutes === undefined || minutes <= maxMinutes);
+}
+
+/**
+ * 끝나는 시각과 러닝타임 → 늦어도 시작해야 하는 시각
+ * 예: ("21:00", 100) → "19:20" (시각이 잘못됐거나 자정 전으로 못 맞추면 null)
+ */
+export function latestStartTime(endsBefore: string, runtimeMinutes: number): string | null {
+  const end = parseClockTime(endsBefore);
+  if (end === null) return null;
+
+  const start = end - runtimeMinutes;
+  if (start < 0) return null;
+  return `${String(Math.floor(start / 60)).padStart(2, '0')}:${String(start % 60).padStart(2, '0')}`;
+}
+
+/**
+ * "21:00" → 1260 (분, 잘못된 시각이면 null)
+ */
+export function parseClockTime(time: string): number | null {
+  const match = time.trim().match(CLOCK_PATTERN);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59 || hours * 60 + minutes > 24 * 60) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * 분 → 안내 문구 (예: 100 → "1시간 40분", 60 → "1시간", 45 → "45분")
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}분`;
+  return rest === 0 ? `${hours}시간` : `${hours}시간 ${rest}분`;
+}
+
+/**
+ * "1시간 40분" → 100, "1.5시간" → 90, "95분" → 95 (시간 표현이 없으면 null)
+ */
+function parseDuration(part: string): number | null {
+  const hours = part.match(HOURS_PATTERN);
+  const minutes = part.match(MINUTES_PATTERN);
+  if (!hours && !minutes) return null;
+
+  const total = (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+  return total > 0 ? Math.round(total) : null;
+}
@@ -0,0 +1,199 @@
+import { DayOfWeek, ShowSlot, TimeOfDay, WeeklySchedule } from '../types/performance.types.js';
+
+/**
+ * KOPIS 공연 시간 안내(dtguidance) 파서
+ * 예: "화요일 ~ 금요일(20:00), 토요일(15:00,19:00), HOL(14:00)"
+ *     → 화~금 20:00 / 토 15:00, 19:00 / 공휴일 14:00
+ */
+
+export const DAYS_OF_WEEK: DayOfWeek[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export const DAY_NAMES: Record<DayOfWeek, string> = {
+  mon: '월',
+  tue: '화',
+  wed: '수',
+  thu: '목',
+  fri: '금',
+  sat: '토',
+  sun: '일',
+};
+
+export const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  matinee: '낮 (17시 이전)',
+  evening: '저녁 (17시 이후)',
+};
+
+// 저녁 공연 기준 시각 (분)
+const EVENING_FROM_MINUTES = 17 * 60;
+
+// "화요일 ~ 금요일(20:00)", "HOL(14:00)", "공휴일(15:00)"
+const ENTRY_PATTERN = /([^(),]+?)\s*\(([^)]*)\)/g;
+
+const HOLIDAY_PATTERN = /HOL|공휴일|휴일/i;
+const NOTE_PATTERN = /없음|휴관|휴무|쉼|변동|상이|문의/;
+
+/**
+ * 공연 시간 안내 → 요일별 시간표
+ */
+export function parseSchedule(value: unknown): WeeklySchedule {
+  const text = value === undefined || value === null ? '' : String(value).trim();
+  if (!text) {
+    return { text: null, slots: [], holidayTimes: [], notes: [] };
+  }
+
+  const timesByDay = new Map<DayOfWeek, Set<string>>();
+  const holidayTimes = new Set<string>();
+
+  for (const match of text.matchAll(ENTRY_PATTERN)) {
+    const daySpec = match[1].trim();
+    const times = parseTimes(match[2]);
+    if (times.length === 0) continue;
+
+    if (HOLIDAY_PATTERN.test(daySpec)) {
+      times.forEach(time => holidayTimes.add(time));
+      continue;
+    }
+
+    for (const day of parseDays(daySpec)) {
+      if (!timesByDay.has(day)) {
+        timesByDay.set(day, new Set());
+      }
+      times.forEach(time => timesByDay.get(day)!.add(time));
+    }
+  }
+
+  // 괄호 밖 안내 문구 ("월요일 공연 없음")
+  const notes = text
+    .replace(ENTRY_PATTERN, ',')
+    .split(/,|\n|<br\s*\/?>/i)
+    .map(note => note.trim())
+    .filter(note => note && NOTE_PATTERN.test(note));
+
+  const slots: ShowSlot[] = DAYS_OF_WEEK.filter(day => timesByDay.has(day)).map(day => ({
+    day,
+    times: [...timesByDay.get(day)!].sort(),
+  }));
+
+  return { text, slots, holidayTimes: [...holidayTimes].sort(), notes };
+}
+
+/**
+ * 시간표가 요일/시간대 조건에 맞는지
+ * - 요일과 시간대를 모두 지정하면 같은 요일 안에서 시간대가 맞아야 함
+ * - latestStart("HH:MM")를 지정하면 그 시각까지 시작하는 회차만 (끝나는 시각 조건)
+ * - 시간표를 알 수 없으면 false
+ */
+export function matchesSchedule(
+  schedule: WeeklySchedule,
+  daysOfWeek?: DayOfWeek[],
+  timeOfDay?: TimeOfDay,
+  latestStart?: string
+): boolean {
+  if (!daysOfWeek?.length && !timeOfDay && !latestStart) return true;
+  return countMatchingSlots(schedule, daysOfWeek, timeOfDay, latestStart) > 0;
+}
+
+/**
+ * 조건에 맞는 (요일, 시각) 공연 회차 수
+ */
+export function countMatchingSlots(
+  schedule: WeeklySchedule,
+  daysOfWeek?: DayOfWeek[],
+  timeOfDay?: TimeOfDay,
+  latestStart?: string
+): number {
+  return schedule.slots
+    .filter(slot => !daysOfWeek?.length || daysOfWeek.includes(slot.day))
+    .reduce(
+      (count, slot) =>
+        count +
+        slot.times.filter(
+          time => (!timeOfDay || getTimeOfDay(time) === timeOfDay) && (!latestStart || time <= latestStart)
+        ).length,
+      0
+    );
+}
+
+/**
+ * 시작 시각 → 시간대 ("14:00" → matinee, "19:30" → evening)
+ */
+export function getTimeOfDay(time: string): TimeOfDay {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes >= EVENING_FROM_MINUTES ? 'evening' : 'matinee';
+}
+
+/**
+ * 시간표 요약 (예: "화~금 20:00 / 토 15:00, 19:00")
+ */
+export function formatSchedule(schedule: WeeklySchedule): string {
+  const groups: Array<{ days: DayOfWeek[]; times: string }> = [];
+
+  // 시각이 같은 연속 요일은 묶어서 표시
+  for (const slot of schedule.slots) {
+    const times = slot.times.join(', ');
+    const last = groups[groups.length - 1];
+    const previousDay = last ? last.days[last.days.length - 1] : null;
+    const isNext = previousDay !== null && DAYS_OF_WEEK.indexOf(slot.day) === DAYS_OF_WEEK.indexOf(previousDay) + 1;
+
+    if (last && last.times === times && isNext) {
+      last.days.push(slot.day);
+    } else {
+      groups.push({ days: [slot.day], times });
+    }
+  }
+
+  const parts = groups.map(group => {
+    const first = DAY_NAMES[group.days[0]];
+    const last = DAY_NAMES[group.days[group.days.length - 1]];
+    const label = group.days.length > 1 ? `${first}~${last}` : first;
+    return `${label} ${group.times}`;
+  });
+
+  if (schedule.holidayTimes.length > 0) {
+    parts.push(`공휴일 ${schedule.holidayTimes.join(', ')}`);
+  }
+
+  return parts.join(' / ');
+}
+
+/**
+ * "화요일 ~ 금요일" → [tue, wed, thu, fri], "토, 일" → [sat, sun]
+ */
+function parseDays(spec: string): DayOfWeek[] {
+  const range = spec.match(/([월화수목금토일])(?:요일)?\s*[~～-]\s*([월화수목금토일])(?:요일)?/);
+  if (range) {
+    const start = toDay(range[1]);
+    const end = toDay(range[2]);
+    const days: DayOfWeek[] = [];
+    // 일요일을 넘는 범위도 허용 ("금요일 ~ 월요일")
+    for (let i = DAYS_OF_WEEK.indexOf(start); ; i = (i + 1) % 7) {
+      days.push(DAYS_OF_WEEK[i]);
+      if (DAYS_OF_WEEK[i] === end || days.length === 7) break;
+    }
+    return days;
+  }
+
+  if (/매일|평일\s*및\s*주말/.test(spec)) return [...DAYS_OF_WEEK];
+  if (/평일/.test(spec)) return ['mon', 'tue', 'wed', 'thu', 'fri'];
+  if (/주말/.test(spec)) return ['sat', 'sun'];
+
+  return Array.from(spec.matchAll(/([월화수목금토일])요일/g), match => toDay(match[1]));
+}
+
+function toDay(name: string): DayOfWeek {
+  return (Object.keys(DAY_NAMES) as DayOfWeek[]).find(day => DAY_NAMES[day] === name)!;
+}
+
+/**
+ * "15:00,19:00" → ["15:00", "19:00"] (2자리 시각으로 정규화)
+ */
+function parseTimes(spec: string): string[] {
+  return Array.from(spec.matchAll(/(\d{1,2})\s*[:시]\s*(\d{2})?/g))
+    .map(match => {
+      const hours = parseInt(match[1], 10);
+      const minutes = match[2] ? parseInt(match[2], 10) : 0;
+      if (hours > 23 || minutes > 59) return null;
+      return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+    })
+    .filter((time): time is string => time !== null);
+}
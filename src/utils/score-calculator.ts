@@ -1,22 +1,38 @@
 import { PriorityWeights, EventScore } from '../types/search.types.js';
-import { getGenreName, getAreaName, getSidoNameShort } from '../constants/kopis-codes.js';
+import { DayOfWeek, Performance, TimeOfDay } from '../types/performance.types.js';
+import { getAreaName } from '../constants/kopis-codes.js';
+import { toYmd } from './performance-mapper.js';
+import { matchesPriceRange } from './price-parser.js';
+import { countMatchingSlots } from './schedule-parser.js';
+import { latestStartTime } from './runtime-parser.js';
+import { GenreSimilarityGraph } from './genre-similarity.js';
+import { gapDays, overlapDays, windowDays } from './date-window.js';
 
 /**
  * 우선순위 기반 공연 점수 계산기
  */
 export class ScoreCalculator {
-  
+  constructor(private genreGraph: GenreSimilarityGraph = new GenreSimilarityGraph()) {}
+
   /**
    * 공연 배열에 점수를 부여하고 정렬
    */
   scoreAndSort(
-    events: any[],
+    events: Performance[],
     priorities: PriorityWeights,
     criteria: {
       targetDate?: { start: string; end: string };
       targetLocation?: string;
+      targetRadiusKm?: number;
       targetGenre?: string;
       isFree?: boolean;
+      minPrice?: number;
+      maxPrice?: number;
+      daysOfWeek?: DayOfWeek[];
+      timeOfDay?: TimeOfDay;
+      minRuntimeMinutes?: number;
+      maxRuntimeMinutes?: number;
+      endsBefore?: string;
     }
   ): EventScore[] {
     const scored = events.map(event => this.calculateScore(event, priorities, criteria));
@@ -27,16 +43,18 @@ export class ScoreCalculator {
    * 개별 공연 점수 계산
    */
   private calculateScore(
-    event: any,
+    event: Performance,
     priorities: PriorityWeights,
     criteria: any
   ): EventScore {
     const breakdown = {
-      priceScore: this.calculatePriceScore(event, criteria.isFree),
+      priceScore: this.calculatePriceScore(event, criteria.isFree, criteria.minPrice, criteria.maxPrice),
       dateScore: this.calculateDateScore(event, criteria.targetDate),
       genreScore: this.calculateGenreScore(event, criteria.targetGenre),
-      locationScore: this.calculateLocationScore(event, criteria.targetLocation),
-      popularityScore: event.popularityScore || 50,
+      locationScore: this.calculateLocationScore(event, criteria.targetLocation, criteria.targetRadiusKm),
+      popularityScore: event.popularityScore ?? 50,
+      awardScore: this.calculateAwardScore(event),
+      scheduleScore: this.calculateScheduleScore(event, criteria),
     };
 
     // 우선순위별 가중치 적용
@@ -52,7 +70,9 @@ export class ScoreCalculator {
       (breakdown.dateScore * (weights['date'] || 0)) +
       (breakdown.genreScore * (weights['genre'] || 0)) +
       (breakdown.locationScore * (weights['location'] || 0)) +
-      (breakdown.popularityScore * (weights['popularity'] || 0));
+      (breakdown.popularityScore * (weights['popularity'] || 0)) +
+      (breakdown.awardScore * (weights['awards'] || 0)) +
+      (breakdown.scheduleScore * (weights['schedule'] || 0));
 
     return {
       event,
@@ -64,25 +84,34 @@ export class ScoreCalculator {
   /**
    * 가격 점수 (0-100)
    */
-  private calculatePriceScore(event: any, _targetIsFree?: boolean): number {
-    const priceStr = event.pcseguidance || '';
-    
-    // 무료 감지
-    const isFree = 
-      priceStr.toLowerCase().includes('무료') ||
-      priceStr === '0' ||
-      priceStr === '0원';
-
-    if (isFree) {
+  private calculatePriceScore(
+    event: Performance,
+    _targetIsFree?: boolean,
+    targetMinPrice?: number,
+    targetMaxPrice?: number
+  ): number {
+    const minPrice = event.price.min;
+
+    // 가격 조건이 있으면 범위 안인지로 판단 (자율 기부는 상한 조건에만 부합)
+    if (targetMinPrice !== undefined || targetMaxPrice !== undefined) {
+      if (minPrice === null) {
+        return event.price.isDonation && targetMinPrice === undefined ? 90 : 0;
+      }
+      return matchesPriceRange(event.price, targetMinPrice, targetMaxPrice) ? 100 : 20;
+    }
+
+    if (event.price.isFree) {
       return 100; // 무료면 만점
     }
 
-    // 최저가 추출
-    const minPrice = this.extractMinPrice(priceStr);
-    
-    if (minPrice === Infinity) return 0;
+    // 자율 기부 공연은 무료에 준함
+    if (event.price.isDonation && minPrice === null) {
+      return 90;
+    }
+
+    if (minPrice === null) return 0;
     if (minPrice === 0) return 100;
-    
+
     // 가격대별 점수 (역비례)
     if (minPrice <= 5000) return 80;
     if (minPrice <= 10000) return 60;
@@ -93,89 +122,65 @@ export class ScoreCalculator {
 
   /**
    * 날짜 점수 (0-100)
+   * - 겹치면 50 + 겹친 비율 × 50 (비율 = 겹친 일수 / 요청 기간과 공연 기간 중 짧은 쪽)
+   * - 겹치지 않으면 요청 기간 앞뒤로 떨어진 일수에 따라 30/20/10점
    */
-  private calculateDateScore(event: any, targetDate?: { start: string; end: string }): number {
+  private calculateDateScore(event: Performance, targetDate?: { start: string; end: string }): number {
     if (!targetDate) return 50; // 날짜 조건 없으면 중립
 
-    const eventStart = event.prfpdfrom?.replace(/\./g, '') || '';
-    const eventEnd = event.prfpdto?.replace(/\./g, '') || '';
-    
-    const targetStart = targetDate.start;
-    const targetEnd = targetDate.end;
+    const eventStart = toYmd(event.period.start);
+    const eventEnd = toYmd(event.period.end) || eventStart;
+    if (!eventStart) return 50; // 공연 기간을 모름
 
-    // 완벽 일치 (공연 기간이 요청 기간 내에 완전히 포함)
-    if (eventStart >= targetStart && eventEnd <= targetEnd) {
-      return 100;
-    }
+    const run = { start: eventStart, end: eventEnd };
+    const overlap = overlapDays(run, targetDate);
 
-    // 부분 일치 (공연 기간과 요청 기간이 겹침)
-    if (eventStart <= targetEnd && eventEnd >= targetStart) {
-      return 70;
+    if (overlap > 0) {
+      const ratio = overlap / Math.min(windowDays(run), windowDays(targetDate));
+      return Math.round(50 + Math.min(ratio, 1) * 50);
     }
 
-    // 날짜 차이 계산
-    const diff = this.calculateDateDiff(targetStart, eventStart);
-    
-    if (diff <= 7) return 50;   // 1주일 차이
-    if (diff <= 14) return 30;  // 2주일 차이
-    if (diff <= 30) return 10;  // 1달 차이
-    
+    const gap = gapDays(run, targetDate);
+    if (gap <= 3) return 30;
+    if (gap <= 7) return 20;
+    if (gap <= 30) return 10;
+
     return 0;
   }
 
   /**
    * 장르 점수 (0-100)
-   * 
-   * KOPIS API는 genrenm 필드에 장르 **이름**을 반환 (예: "뮤지컬", "연극")
-   * targetGenreCode는 장르 **코드** (예: "GGGA", "AAAA")
+   * - 요청 장르에서 공연 장르로 가는 유사도 가중치 × 100 (예: 뮤지컬 → 연극 0.8 = 80점)
    */
-  private calculateGenreScore(event: any, targetGenreCode?: string): number {
+  private calculateGenreScore(event: Performance, targetGenreCode?: string): number {
     if (!targetGenreCode) return 50;
-    
-    // API 응답의 장르명 (예: "뮤지컬")
-    const eventGenreName = event.genrenm;
-    
-    if (!eventGenreName) return 0;
-    
-    // ✅ 유틸리티 함수 사용: 장르 코드 → 장르명 변환
-    const targetGenreName = getGenreName(targetGenreCode);
-    
-    // 정확히 일치
-    if (eventGenreName === targetGenreName) {
-      return 100;
-    }
 
-    // 부분 일치 (예: "무용(서양/한국무용)"에서 "무용" 포함)
-    if (eventGenreName.includes(targetGenreName) || targetGenreName.includes(eventGenreName)) {
-      return 90;
-    }
+    const eventGenreCode = event.genre.code;
 
-    // 비슷한 장르 매칭
-    const similarPairs = [
-      ['연극', '뮤지컬'],
-      ['서양음악(클래식)', '한국음악(국악)'],
-      ['무용(서양/한국무용)', '대중무용'],
-      ['복합', '서커스/마술'],
-    ];
-
-    for (const pair of similarPairs) {
-      if (pair.includes(eventGenreName) && pair.includes(targetGenreName)) {
-        return 60;
-      }
-    }
+    if (!eventGenreCode) return 0;
 
-    return 0;
+    return Math.round(this.genreGraph.similarity(targetGenreCode, eventGenreCode) * 100);
   }
 
   /**
    * 위치 점수 (0-100)
+   * - 거리 검색이면 검색 중심까지 거리로 판단 (반경 안 100, 2배 70, 4배 40)
    */
-  private calculateLocationScore(event: any, targetLocation?: string): number {
+  private calculateLocationScore(event: Performance, targetLocation?: string, targetRadiusKm?: number): number {
+    if (targetRadiusKm !== undefined) {
+      if (event.distanceKm === undefined) return 0; // 공연장 좌표를 모름
+
+      if (event.distanceKm <= targetRadiusKm) return 100;
+      if (event.distanceKm <= targetRadiusKm * 2) return 70;
+      if (event.distanceKm <= targetRadiusKm * 4) return 40;
+      return 10;
+    }
+
     if (!targetLocation) return 50;
 
-    const eventArea = event.area || '';
-    
-    // ✅ 유틸리티 함수 사용: 구/군 정확 일치 (4자리 코드)
+    const eventArea = event.area.name || '';
+
+    // 구/군 정확 일치 (4자리 코드, KOPIS area에 구/군이 있는 경우)
     if (targetLocation.length === 4) {
       const areaName = getAreaName(targetLocation, true); // short=true
       if (eventArea.includes(areaName)) {
@@ -183,43 +188,96 @@ export class ScoreCalculator {
       }
     }
 
-    // ✅ 유틸리티 함수 사용: 같은 시/도 (2자리 코드)
-    if (targetLocation.length >= 2) {
-      const sido = targetLocation.substring(0, 2);
-      const sidoName = getSidoNameShort(sido);
-      if (eventArea.includes(sidoName)) {
-        return 60;
-      }
+    // 같은 시/도 (2자리 코드)
+    if (targetLocation.length >= 2 && event.area.sidoCode === targetLocation.substring(0, 2)) {
+      return 60;
     }
 
     return 0;
   }
 
   /**
-   * 최저가 추출
+   * 수상 점수 (0-100)
+   * - 수상 내역이 없으면 0, 1건 60점부터 건당 +20 (최대 100)
+   */
+  private calculateAwardScore(event: Performance): number {
+    if (event.awards.length === 0) return 0;
+    return Math.min(60 + (event.awards.length - 1) * 20, 100);
+  }
+
+  /**
+   * 공연 시간 점수 (0-100)
+   * - 회차 조건(요일/시간대/끝나는 시각)과 러닝타임 조건이 모두 있으면 두 점수의 평균
    */
-  private extractMinPrice(priceStr: string): number {
-    if (!priceStr) return Infinity;
-    const matches = priceStr.match(/\d+/g);
-    if (!matches) return Infinity;
-    return Math.min(...matches.map(Number));
+  private calculateScheduleScore(
+    event: Performance,
+    criteria: {
+      daysOfWeek?: DayOfWeek[];
+      timeOfDay?: TimeOfDay;
+      minRuntimeMinutes?: number;
+      maxRuntimeMinutes?: number;
+      endsBefore?: string;
+    }
+  ): number {
+    const { daysOfWeek, timeOfDay, minRuntimeMinutes, maxRuntimeMinutes, endsBefore } = criteria;
+    const scores: number[] = [];
+
+    if (daysOfWeek?.length || timeOfDay || endsBefore) {
+      scores.push(this.calculateSlotScore(event, daysOfWeek, timeOfDay, endsBefore));
+    }
+    if (minRuntimeMinutes !== undefined || maxRuntimeMinutes !== undefined) {
+      scores.push(this.calculateRuntimeScore(event, minRuntimeMinutes, maxRuntimeMinutes));
+    }
+
+    if (scores.length === 0) return 50;
+    return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
   }
 
   /**
-   * 날짜 차이 계산 (일 단위)
+   * 회차 점수 (0-100)
+   * - 요청 요일의 요청 시간대 회차가 끝나는 시각 전에 끝나면 100
+   * - 일부 조건만 맞으면 50, 시간표(또는 끝나는 시각 조건의 러닝타임)를 모르면 30
    */
-  private calculateDateDiff(date1: string, date2: string): number {
-    const d1 = new Date(
-      parseInt(date1.substring(0, 4)),
-      parseInt(date1.substring(4, 6)) - 1,
-      parseInt(date1.substring(6, 8))
-    );
-    const d2 = new Date(
-      parseInt(date2.substring(0, 4)),
-      parseInt(date2.substring(4, 6)) - 1,
-      parseInt(date2.substring(6, 8))
-    );
-    
-    return Math.abs(Math.ceil((d2.getTime() - d1.getTime()) / (1000 * 60 * 60 * 24)));
+  private calculateSlotScore(
+    event: Performance,
+    daysOfWeek?: DayOfWeek[],
+    timeOfDay?: TimeOfDay,
+    endsBefore?: string
+  ): number {
+    if (event.schedule.slots.length === 0) return 30;
+
+    let latestStart: string | undefined;
+    if (endsBefore) {
+      const minutes = event.runningTime?.minutes;
+      if (!minutes) return 30;
+      latestStart = latestStartTime(endsBefore, minutes) ?? undefined;
+      if (!latestStart) return 0;
+    }
+
+    if (countMatchingSlots(event.schedule, daysOfWeek, timeOfDay, latestStart) > 0) {
+      return 100;
+    }
+
+    const dayOnly = daysOfWeek?.length ? countMatchingSlots(event.schedule, daysOfWeek) : 0;
+    const timeOnly = timeOfDay ? countMatchingSlots(event.schedule, undefined, timeOfDay) : 0;
+    const endOnly = latestStart ? countMatchingSlots(event.schedule, undefined, undefined, latestStart) : 0;
+    return dayOnly > 0 || timeOnly > 0 || endOnly > 0 ? 50 : 0;
+  }
+
+  /**
+   * 러닝타임 점수 (0-100)
+   * - 범위 안 100, 범위에서 15분 이내 60, 더 벗어나면 20, 러닝타임을 모르면 30
+   */
+  private calculateRuntimeScore(event: Performance, minMinutes?: number, maxMinutes?: number): number {
+    const minutes = event.runningTime?.minutes;
+    if (!minutes) return 30;
+
+    const below = minMinutes !== undefined ? minMinutes - minutes : 0;
+    const above = maxMinutes !== undefined ? minutes - maxMinutes : 0;
+    const outside = Math.max(below, above, 0);
+
+    if (outside === 0) return 100;
+    if (outside <= 15) return 60;
+    return 20;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,210 @@
+import { EventScore } from '../types/search.types.js';
+import {
+  ClosingSoonPerformance,
+  Performance,
+  PerformanceDetail,
+  PerformancePrice,
+  PersonSearchPerformance,
+  TrendingPerformance,
+  WeeklySchedule,
+} from '../types/performance.types.js';
+import {
+  StructuredEvent,
+  StructuredEventDetail,
+  StructuredEventList,
+  StructuredPrice,
+  StructuredScore,
+  StructuredShowtimes,
+  StructuredVenue,
+} from '../types/output.types.js';
+import { toYmd } from './performance-mapper.js';
+
+/**
+ * Performance 모델 → structuredContent 변환
+ * - 마크다운과 같은 데이터를 프론트엔드가 바로 쓸 수 있는 형태로 제공
+ */
+
+/**
+ * 공연 목록 (스마트 검색 결과 또는 일반 조회 결과)
+ */
+export function toStructuredEventList(
+  result: {
+    events: Performance[];
+    message: string;
+    level?: number;
+    relaxedConditions?: string[];
+    scores?: EventScore[];
+    offset?: number;
+    nextCursor?: string;
+    timedOut?: boolean;
+  },
+  extras: Partial<StructuredEventList> = {}
+): StructuredEventList {
+  // 점수는 이벤트 객체 기준으로 연결 (scores와 events는 같은 객체를 참조)
+  const scores = new Map((result.scores || []).map(score => [score.event, score]));
+
+  const output: StructuredEventList = {
+    message: result.message,
+    count: result.events.length,
+    events: result.events.map(event => toStructuredEvent(event, scores.get(event))),
+    level: result.level ?? null,
+    relaxedConditions: result.relaxedConditions || [],
+    offset: result.offset || 0,
+    nextCursor: result.nextCursor || null,
+    ...extras,
+  };
+
+  if (result.timedOut) {
+    output.timedOut = true;
+  }
+
+  return output;
+}
+
+/**
+ * 공연 카드
+ */
+export function toStructuredEvent(event: Performance, score?: EventScore): StructuredEvent {
+  const structured: StructuredEvent = {
+    id: event.id,
+    title: event.title,
+    venue: event.venueName,
+    period: {
+      start: toIsoDate(event.period.start),
+      end: toIsoDate(event.period.end),
+    },
+    state: event.state,
+    poster: event.poster,
+    price: toStructuredPrice(event.price),
+    genre: event.genre.name,
+    area: event.area.name,
+    awards: event.awards,
+  };
+
+  if (event.distanceKm !== undefined) {
+    structured.distanceKm = Math.round(event.distanceKm * 100) / 100;
+  }
+
+  if (event.ranking) {
+    structured.ranking = {
+      rank: event.ranking.rank,
+      previousRank: event.ranking.previousRank,
+      change: 'rankChange' in event ? (event as TrendingPerformance).rankChange : null,
+      rankDate: event.ranking.rankDate,
+    };
+  }
+
+  if ('countdown' in event) {
+    structured.daysUntilEnd = (event as ClosingSoonPerformance).daysUntilEnd;
+    structured.countdown = (event as ClosingSoonPerformance).countdown;
+  }
+
+  if ('credits' in event) {
+    structured.credits = (event as PersonSearchPerformance).credits.map(credit => ({ ...credit }));
+  }
+
+  // 상세 정보를 채운 목록 결과 (includeDetails)
+  if (event.runtime !== undefined) {
+    structured.runtime = event.runtime;
+    structured.age = event.age ?? null;
+    structured.cast = event.cast ?? [];
+    structured.showtimes = toStructuredShowtimes(event.schedule);
+  }
+
+  if (event.ageLimit) {
+    structured.ageLimit = {
+      minMonths: event.ageLimit.minMonths,
+      maxMonths: event.ageLimit.maxMonths,
+      allAges: event.ageLimit.allAges,
+    };
+  }
+
+  if (event.runningTime) {
+    structured.runningTime = {
+      minutes: event.runningTime.minutes,
+      intermissionMinutes: event.runningTime.intermissionMinutes,
+    };
+  }
+
+  if (score) {
+    structured.score = toStructuredScore(score);
+  }
+
+  return structured;
+}
+
+/**
+ * 공연 상세
+ */
+export function toStructuredEventDetail(detail: PerformanceDetail): StructuredEventDetail {
+  return {
+    ...toStructuredEvent(detail),
+    venueId: detail.venueId,
+    runtime: detail.runtime,
+    age: detail.age,
+    cast: detail.cast,
+    crew: detail.crew,
+    synopsis: detail.synopsis,
+    schedule: detail.schedule.text,
+    showtimes: toStructuredShowtimes(detail.schedule),
+    ticketLinks: detail.relates,
+  };
+}
+
+/**
+ * 공연장 카드 (공연장 목록)
+ */
+export function toStructuredVenue(venue: any): StructuredVenue {
+  const hallCount = Number(venue.mt13cnt);
+
+  return {
+    id: String(venue.mt10id || ''),
+    name: venue.fcltynm || '',
+    sido: venue.sidonm || null,
+    gugun: venue.gugunnm || null,
+    hallCount: venue.mt13cnt === undefined || isNaN(hallCount) ? null : hallCount,
+    characteristic: venue.fcltychartr || null,
+    openYear: venue.opende ? String(venue.opende) : null,
+  };
+}
+
+function toStructuredPrice(price: PerformancePrice): StructuredPrice {
+  return {
+    min: price.min,
+    max: price.max,
+    isFree: price.isFree,
+    isDonation: price.isDonation,
+    tiers: price.tiers,
+    discounts: price.discounts,
+    text: price.text,
+  };
+}
+
+function toStructuredShowtimes(schedule: WeeklySchedule): StructuredShowtimes {
+  return {
+    slots: schedule.slots,
+    holidayTimes: schedule.holidayTimes,
+    notes: schedule.notes,
+  };
+}
+
+function toStructuredScore(score: EventScore): StructuredScore {
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    total: round(score.totalScore),
+    price: round(score.breakdown.priceScore),
+    date: round(score.breakdown.dateScore),
+    genre: round(score.breakdown.genreScore),
+    location: round(score.breakdown.locationScore),
+    popularity: round(score.breakdown.popularityScore),
+    award: round(score.breakdown.awardScore),
+    schedule: round(score.breakdown.scheduleScore),
+  };
+}
+
+function toIsoDate(date: Date | null): string | null {
+  const ymd = toYmd(date);
+  if (!ymd) return null;
+  return `${ymd.substring(0, 4)}-${ymd.substring(4, 6)}-${ymd.substring(6, 8)}`;
+}
@@ -0,0 +1,89 @@
+import { isChoseongQuery, normalizeHangul, toChoseong } from './hangul.js';
+import { resolveLocation } from './location-resolver.js';
+
+/**
+ * 공연명 검색어 일치 점수 (KOPIS shprfnm 결과의 재정렬·필터용)
+ * 예: "레미 제라블" ↔ "레미제라블" (띄어쓰기), "ㄹㅁㅈㄹㅂ" ↔ "레미제라블" (초성),
+ *     "뮤지컬 레미제라블" ↔ "레미제라블" (검색어가 제목을 포함)
+ */
+
+// 이 점수 미만은 다른 작품으로 보고 제외
+export const MIN_TITLE_MATCH_SCORE = 30;
+
+// 작품 키에서 빼는 제목 앞 장르 표기 (예: "뮤지컬 〈레미제라블〉")
+const LEADING_GENRE_PATTERN =
+  /^\s*(?:창작|가족|어린이)?(?:뮤지컬|연극|오페라|발레|무용|콘서트|인형극)(?=\s|[〈<《「『])/;
+
+// 제목 끝 " - 부산" 같은 지역 표기
+const TRAILING_SUFFIX_PATTERN = /\s+[-–—]\s*([^-–—]+)$/;
+
+/**
+ * 공연명과 검색어의 일치 점수 (0-100)
+ * - 정규화 후 완전 일치 100, 제목이 검색어로 시작 90, 제목이 검색어 포함 80
+ * - 초성 검색어는 초성 완전 일치 90, 초성 부분 일치 70
+ * - 검색어가 제목(또는 지역·회차 표기를 뺀 제목)을 포함 ("뮤지컬 레미제라블") 60
+ * - 그 밖에는 검색어 단어(2자 이상) 중 제목에 들어 있는 비율 × 50
+ */
+export function scoreTitleMatch(title: string, query: string): number {
+  const name = normalizeHangul(title);
+  const normalizedQuery = normalizeHangul(query);
+  if (!name || !normalizedQuery) return 0;
+
+  if (isChoseongQuery(normalizedQuery)) {
+    const choseong = toChoseong(name);
+    if (choseong === normalizedQuery) return 90;
+    return choseong.includes(normalizedQuery) ? 70 : 0;
+  }
+
+  if (name === normalizedQuery) return 100;
+  if (name.startsWith(normalizedQuery)) return 90;
+  if (name.includes(normalizedQuery)) return 80;
+  if ([name, titleWorkKey(title)].some(key => key.length >= 2 && normalizedQuery.includes(key))) return 60;
+
+  const words = query
+    .split(/\s+/)
+    .map(normalizeHangul)
+    .filter(word => word.length >= 2);
+  if (words.length === 0) return 0;
+
+  const found = words.filter(word => name.includes(word)).length;
+  return Math.round((found / words.length) * 50);
+}
+
+/**
+ * 같은 작품으로 묶는 키 (지역·회차 표기와 앞의 장르 표기를 뺀 정규화 제목)
+ * - "[대구]", "(앵콜)", 끝의 " - 부산" 같은 지역 표기를 빼고, 〈〉·<> 등 제목 괄호는 벗김
+ * 예: "레미제라블 [대구]", "뮤지컬 〈레미제라블〉 - 부산", "뮤지컬 <레미제라블> (앵콜)" → "레미제라블"
+ */
+export function titleWorkKey(title: string): string {
+  let work = title.replace(/\[[^\]]*\]|\([^)]*\)/g, '').trim();
+
+  const suffix = work.match(TRAILING_SUFFIX_PATTERN);
+  if (suffix && isRegionName(suffix[1])) {
+    work = work.slice(0, suffix.index);
+  }
+
+  work = work.replace(/[〈〉<>《》「」『』]/g, ' ');
+  const withoutGenre = work.replace(LEADING_GENRE_PATTERN, '');
+  const key = normalizeHangul(withoutGenre) || normalizeHangul(work);
+  return key || normalizeHangul(title);
+}
+
+// 지역 이름 그대로이거나 줄임말인 표기만 (오타·일부 일치는 제목의 일부로 봄)
+function isRegionName(text: string): boolean {
+  const { resolved } = resolveLocation(text);
+  return resolved !== null && resolved.matchedBy !== 'typo' && resolved.matchedBy !== 'partial';
+}
+
+/**
+ * KOPIS 제목 검색(shprfnm)에 보낼 검색어 후보
+ * - 입력 그대로(공백 정리), 공백 제거, 2자 이상 단어 (KOPIS는 부분 일치라 띄어쓰기가 다르면 못 찾음)
+ * - 초성 검색어는 KOPIS에서 찾을 수 없으므로 빈 목록
+ */
+export function titleSearchTerms(query: string, maxTerms: number): string[] {
+  const collapsed = query.trim().replace(/\s+/g, ' ');
+  if (!collapsed || isChoseongQuery(normalizeHangul(collapsed))) return [];
+
+  const words = collapsed.split(' ').filter(word => normalizeHangul(word).length >= 2);
+  return [...new Set([collapsed, collapsed.replace(/\s/g, ''), ...words])].slice(0, maxTerms);
+}